@@ -3,7 +3,9 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import AppShell from "./components/layout/app-shell";
+import AuthPage from "./pages/auth";
 import TutorPage from "./pages/tutor";
 import DocChatPage from "./pages/docchat";
 import QuizPage from "./pages/quiz";
@@ -13,6 +15,20 @@ import FlashcardsPage from "./pages/flashcards";
 import NotFound from "./pages/not-found";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <i className="fas fa-spinner fa-spin text-3xl text-muted-foreground"></i>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <AppShell>
       <Switch>
@@ -34,7 +50,9 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
+        <AuthProvider>
+          <Router />
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/api';
+import type { MessageSearchResult } from '@shared/search';
+
+// A chat session as the API returns it; `metadata` holds mode-specific
+// settings such as the tutor's board or DocChat's documents
+export interface PastSession {
+  id: string;
+  title: string | null;
+  summary: string | null;
+  subject: string | null;
+  level: string | null;
+  topic: string | null;
+  language: string | null;
+  metadata: unknown;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+interface ChatHistoryProps {
+  mode: 'tutor' | 'docchat';
+  activeChatId: string | null;
+  onSelect: (session: PastSession) => void;
+}
+
+const ALL_SUBJECTS = 'all';
+
+const DATE_RANGES: Record<string, { label: string; days?: number }> = {
+  any: { label: 'Any time' },
+  week: { label: 'Past week', days: 7 },
+  month: { label: 'Past month', days: 30 },
+};
+
+// Past sessions of one mode, newest first, with a search across message
+// content. Sessions without a generated title yet show their start date.
+export default function ChatHistory({ mode, activeChatId, onSelect }: ChatHistoryProps) {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [subject, setSubject] = useState(ALL_SUBJECTS);
+  const [range, setRange] = useState('any');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: sessions = [] } = useQuery<PastSession[]>({
+    queryKey: ['/api/chats', { mode }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/chats?mode=${mode}`);
+      return response.json();
+    }
+  });
+
+  const isSearching = debouncedQuery.length >= 2;
+  const { data: results = [], isFetching } = useQuery<MessageSearchResult[]>({
+    queryKey: ['/api/chats/search', { q: debouncedQuery, mode, subject, range }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedQuery, mode });
+      if (subject !== ALL_SUBJECTS) params.set('subject', subject);
+      const days = DATE_RANGES[range].days;
+      if (days) params.set('from', new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString());
+      const response = await apiRequest('GET', `/chats/search?${params}`);
+      return response.json();
+    },
+    enabled: isSearching
+  });
+
+  const subjects = Array.from(new Set(sessions.map(session => session.subject).filter(Boolean))) as string[];
+  const recentSessions = [...sessions].sort(
+    (a, b) => new Date(b.updatedAt || b.createdAt).getTime() - new Date(a.updatedAt || a.createdAt).getTime()
+  );
+
+  const handleResultSelect = async (result: MessageSearchResult) => {
+    const session = sessions.find(candidate => candidate.id === result.session.id);
+    if (session) {
+      onSelect(session);
+      return;
+    }
+    const response = await apiRequest('GET', `/chats/${result.session.id}`);
+    onSelect(await response.json());
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }) : '';
+
+  // Snippet text with the matched words wrapped in <mark>
+  const renderSnippet = (result: MessageSearchResult) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    result.highlights.forEach(([start, end], index) => {
+      parts.push(result.snippet.slice(position, start));
+      parts.push(<mark key={index} className="bg-yellow-200 rounded-sm">{result.snippet.slice(start, end)}</mark>);
+      position = end;
+    });
+    parts.push(result.snippet.slice(position));
+    return parts;
+  };
+
+  return (
+    <div className="flex flex-col h-full" data-testid={`chat-history-${mode}`}>
+      <div className="p-4 border-b border-border space-y-2">
+        <div className="relative">
+          <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground"></i>
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search past chats..."
+            className="pl-8"
+            data-testid="input-history-search"
+          />
+        </div>
+        {isSearching && (
+          <div className="flex gap-2">
+            {subjects.length > 0 && (
+              <Select value={subject} onValueChange={setSubject}>
+                <SelectTrigger className="h-8 text-xs" data-testid="select-history-subject">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SUBJECTS}>All subjects</SelectItem>
+                  {subjects.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={range} onValueChange={setRange}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-history-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATE_RANGES).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {isSearching ? (
+          results.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {isFetching ? 'Searching...' : 'No messages match your search'}
+            </p>
+          ) : (
+            results.map(result => (
+              <button
+                key={result.messageId}
+                onClick={() => handleResultSelect(result)}
+                className="w-full text-left px-3 py-2 rounded-lg hover:bg-muted transition-colors"
+                data-testid={`history-result-${result.messageId}`}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-xs font-semibold text-foreground truncate">
+                    {result.session.title || 'Untitled session'}
+                  </span>
+                  <span className="text-[10px] text-muted-foreground flex-shrink-0">{formatDate(result.createdAt)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {result.role === 'user' ? 'You: ' : ''}{renderSnippet(result)}
+                </p>
+              </button>
+            ))
+          )
+        ) : recentSessions.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-6">No past sessions yet</p>
+        ) : (
+          recentSessions.map(session => (
+            <button
+              key={session.id}
+              onClick={() => onSelect(session)}
+              className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                session.id === activeChatId ? 'bg-primary/10' : 'hover:bg-muted'
+              }`}
+              data-testid={`history-session-${session.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-foreground truncate">
+                  {session.title || `Session of ${formatDate(session.createdAt)}`}
+                </span>
+                <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                  {formatDate(session.updatedAt || session.createdAt)}
+                </span>
+              </div>
+              {(session.summary || session.subject) && (
+                <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
+                  {session.summary || [session.subject, session.topic].filter(Boolean).join(' · ')}
+                </p>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,17 +2,20 @@ import { useState, useRef, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LaTeXRenderer } from '@/components/ui/latex-renderer';
 import { StreamingText } from '@/components/ui/streaming-text';
 import { useStreaming } from '@/hooks/use-streaming';
 import { apiRequest } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
+import { formatCitationLocation, type GroundingReport, type MessageCitation } from '@shared/citations';
 
 interface ChatPanelProps {
   chatId: string | null;
   selectedDocuments: string[];
   onStartChat: () => void;
   hasDocuments: boolean;
+  onCitationSelect?: (citation: MessageCitation) => void;
+  onOpenHistory?: () => void;
 }
 
 const quickActions = [
@@ -23,12 +26,12 @@ const quickActions = [
   { id: 'export', icon: 'fas fa-file-export', iconColor: 'text-red-600', title: 'Export as PDF' },
 ];
 
-export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasDocuments }: ChatPanelProps) {
+export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasDocuments, onCitationSelect, onOpenHistory }: ChatPanelProps) {
   const [inputMessage, setInputMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
-  const { isStreaming, content: streamingContent, citations, startStreaming, reset: resetStreaming } = useStreaming();
+  const { isStreaming, content: streamingContent, citations, startStreaming, stop: stopStreaming, reset: resetStreaming } = useStreaming();
 
   // Fetch messages if chat is active
   const { data: messages, refetch } = useQuery({
@@ -57,6 +60,8 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
     try {
       await startStreaming(chatId, messageToSend, () => {
         refetch();
+        // The session may have been titled by this turn
+        queryClient.invalidateQueries({ queryKey: ['/api/chats', { mode: 'docchat' }] });
         setIsSubmitting(false);
       });
     } catch (error) {
@@ -70,6 +75,50 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
     // TODO: Implement quick actions
   };
 
+  // Each chip matches an [n] marker in the answer and shows the document with
+  // its page, slide, chapter or video time; the quoted passage is the tooltip
+  const renderCitation = (citation: MessageCitation, index: number) => {
+    const location = formatCitationLocation(citation);
+    return (
+      <span
+        key={index}
+        onClick={() => onCitationSelect?.(citation)}
+        className="inline-block text-xs text-primary cursor-pointer hover:underline mr-2"
+        title={citation.quote}
+        data-testid={`citation-${index}`}
+      >
+        [{citation.marker}] {citation.title}{location ? `, ${location}` : ''}
+      </span>
+    );
+  };
+
+  // Sentences the verifier could not match to the retrieved passages
+  const renderGrounding = (grounding: GroundingReport) => {
+    const unsupported = grounding.sentences.filter(sentence => !sentence.supported);
+    if (unsupported.length === 0) return null;
+
+    return (
+      <div className="mt-2 border border-amber-300 bg-amber-50 rounded-lg px-3 py-2" data-testid="grounding-warning">
+        <p className="text-xs font-semibold text-amber-800 mb-1">
+          <i className="fas fa-triangle-exclamation mr-1"></i>
+          {unsupported.length === 1 ? '1 statement' : `${unsupported.length} statements`} not found in your documents
+        </p>
+        <ul className="space-y-1">
+          {unsupported.map((sentence, index) => (
+            <li
+              key={index}
+              className="text-xs text-amber-900"
+              title={sentence.judged ? 'Checked by the grounding judge' : `Support score ${Math.round(sentence.score * 100)}%`}
+              data-testid={`unsupported-sentence-${index}`}
+            >
+              {sentence.sentence}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
   const renderMessage = (message: any) => {
     if (message.role === 'user') {
       return (
@@ -94,27 +143,33 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
         <div className="flex-1">
           <div className="bg-muted px-4 py-3 rounded-xl rounded-tl-none">
             <LaTeXRenderer content={message.content} className="text-sm text-foreground" />
+            {message.metadata?.interrupted && (
+              <p className="text-xs text-muted-foreground italic mt-1" data-testid={`text-interrupted-${message.id}`}>
+                Stopped before the answer was finished
+              </p>
+            )}
           </div>
           
           {/* Citations */}
           {message.metadata?.citations && message.metadata.citations.length > 0 && (
             <div className="mt-2">
               <p className="text-xs text-muted-foreground mb-1">Sources:</p>
-              {message.metadata.citations.map((citation: any, index: number) => (
-                <span
-                  key={index}
-                  className="inline-block text-xs text-primary cursor-pointer hover:underline mr-2"
-                >
-                  [Doc {citation.source}{citation.page ? `, p.${citation.page}` : ''}]
-                </span>
-              ))}
+              {message.metadata.citations.map(renderCitation)}
             </div>
           )}
+
+          {message.metadata?.grounding && renderGrounding(message.metadata.grounding)}
         </div>
       </div>
     );
   };
 
+  const historyButton = onOpenHistory && (
+    <Button variant="ghost" size="icon" onClick={onOpenHistory} title="Past chats" data-testid="button-chat-history">
+      <i className="fas fa-clock-rotate-left text-muted-foreground"></i>
+    </Button>
+  );
+
   if (!hasDocuments) {
     return (
       <div className="w-96 border-l border-border bg-card flex flex-col items-center justify-center p-8">
@@ -123,6 +178,12 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
         <p className="text-sm text-muted-foreground text-center mb-6">
           Select documents from the sidebar to start asking questions about them
         </p>
+        {onOpenHistory && (
+          <Button variant="outline" onClick={onOpenHistory} data-testid="button-open-history">
+            <i className="fas fa-clock-rotate-left mr-2"></i>
+            Past Chats
+          </Button>
+        )}
       </div>
     );
   }
@@ -130,11 +191,14 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
   if (!chatId) {
     return (
       <div className="w-96 border-l border-border bg-card flex flex-col">
-        <div className="p-6 border-b border-border">
-          <h2 className="text-lg font-bold text-foreground">Ask Questions</h2>
-          <p className="text-xs text-muted-foreground mt-1">
-            Chat with your {selectedDocuments.length} selected document{selectedDocuments.length !== 1 ? 's' : ''}
-          </p>
+        <div className="p-6 border-b border-border flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-foreground">Ask Questions</h2>
+            <p className="text-xs text-muted-foreground mt-1">
+              Chat with your {selectedDocuments.length} selected document{selectedDocuments.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+          {historyButton}
         </div>
         
         <div className="flex-1 flex items-center justify-center p-8">
@@ -157,9 +221,12 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
   return (
     <div className="w-96 border-l border-border bg-card flex flex-col">
       {/* Header */}
-      <div className="p-6 border-b border-border">
-        <h2 className="text-lg font-bold text-foreground">Ask Questions</h2>
-        <p className="text-xs text-muted-foreground mt-1">Chat with your documents using AI</p>
+      <div className="p-6 border-b border-border flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-foreground">Ask Questions</h2>
+          <p className="text-xs text-muted-foreground mt-1">Chat with your documents using AI</p>
+        </div>
+        {historyButton}
       </div>
 
       {/* Chat Messages */}
@@ -185,14 +252,7 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
               {citations && citations.length > 0 && (
                 <div className="mt-2">
                   <p className="text-xs text-muted-foreground mb-1">Sources:</p>
-                  {citations.map((citation: any, index: number) => (
-                    <span
-                      key={index}
-                      className="inline-block text-xs text-primary cursor-pointer hover:underline mr-2"
-                    >
-                      [Doc {citation.source}{citation.page ? `, p.${citation.page}` : ''}]
-                    </span>
-                  ))}
+                  {citations.map(renderCitation)}
                 </div>
               )}
             </div>
@@ -233,14 +293,27 @@ export default function ChatPanel({ chatId, selectedDocuments, onStartChat, hasD
             className="flex-1"
             data-testid="input-chat-message"
           />
-          <Button
-            type="submit"
-            size="icon"
-            disabled={!inputMessage.trim() || isSubmitting || isStreaming}
-            data-testid="button-send-message"
-          >
-            <i className="fas fa-paper-plane text-sm"></i>
-          </Button>
+          {isStreaming ? (
+            <Button
+              type="button"
+              size="icon"
+              variant="outline"
+              onClick={() => stopStreaming(chatId).catch(error => console.error('Failed to stop reply:', error))}
+              title="Stop"
+              data-testid="button-stop-message"
+            >
+              <i className="fas fa-stop text-sm"></i>
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!inputMessage.trim() || isSubmitting}
+              data-testid="button-send-message"
+            >
+              <i className="fas fa-paper-plane text-sm"></i>
+            </Button>
+          )}
         </form>
       </div>
     </div>
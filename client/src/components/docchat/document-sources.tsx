@@ -1,28 +1,75 @@
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
-import { uploadFile, apiRequest } from '@/lib/api';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { uploadFile, apiRequest, createEventSource } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
+import { formatTimestamp, youtubeVideoId } from '@shared/media';
+import { overallProgress, STAGE_LABELS, type IngestionProgress } from '@shared/ingestion';
+
+// Documents and collections as the API returns them
+export interface SourceDocument {
+  id: string;
+  title: string;
+  type: string;
+  status: string;
+  sourceUrl: string | null;
+  pages: number | null;
+  tokens: number | null;
+  metadata: {
+    duration?: number;
+    error?: string;
+    reindexing?: boolean;
+    reindexError?: string;
+  } | null;
+}
+
+export interface SourceCollection {
+  id: string;
+  name: string;
+  documentIds: string[];
+}
 
 interface DocumentSourcesProps {
-  documents: any[];
+  documents: SourceDocument[];
+  collections: SourceCollection[];
   selectedDocuments: string[];
+  activeCollectionId: string | null;
   onDocumentSelect: (documentId: string) => void;
   onSelectionChange: (documentIds: string[]) => void;
+  onCollectionSelect: (collection: SourceCollection | null) => void;
   isLoading: boolean;
 }
 
+const NO_COLLECTION = 'none';
+
 export default function DocumentSources({
   documents,
+  collections,
   selectedDocuments,
+  activeCollectionId,
   onDocumentSelect,
   onSelectionChange,
+  onCollectionSelect,
   isLoading
 }: DocumentSourcesProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [urlInput, setUrlInput] = useState('');
   const [isAddingUrl, setIsAddingUrl] = useState(false);
+  const captionInputRef = useRef<HTMLInputElement>(null);
+
+  // YouTube pages carry no transcript, so a video link is added together
+  // with its caption file
+  const isVideoUrl = !!youtubeVideoId(urlInput.trim());
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -34,12 +81,10 @@ export default function DocumentSources({
       formData.append('file', file);
       formData.append('title', file.name);
       formData.append('type', 'pdf');
-      formData.append('userId', 'default-user');
 
       await uploadFile(file, '/documents/upload');
       
-      // Refresh documents list (would be handled by parent component's refetch)
-      window.location.reload();
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
     } catch (error) {
       console.error('Upload failed:', error);
     } finally {
@@ -47,21 +92,43 @@ export default function DocumentSources({
     }
   };
 
+  const handleCaptionUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsAddingUrl(true);
+    try {
+      await uploadFile(file, '/documents/upload', {
+        title: file.name.replace(/\.(vtt|srt|json)$/i, ''),
+        videoUrl: urlInput.trim()
+      });
+
+      setUrlInput('');
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    } catch (error) {
+      console.error('Caption upload failed:', error);
+    } finally {
+      setIsAddingUrl(false);
+    }
+  };
+
   const handleAddUrl = async () => {
     if (!urlInput.trim()) return;
+    if (isVideoUrl) {
+      captionInputRef.current?.click();
+      return;
+    }
 
     setIsAddingUrl(true);
     try {
       await apiRequest('POST', '/documents/by-url', {
         url: urlInput,
         title: urlInput,
-        type: urlInput.includes('youtube.com') ? 'youtube' : 'url',
-        userId: 'default-user'
+        type: 'url'
       });
       
       setUrlInput('');
-      // Refresh documents list (would be handled by parent component's refetch)
-      window.location.reload();
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
     } catch (error) {
       console.error('Failed to add URL:', error);
     } finally {
@@ -69,6 +136,67 @@ export default function DocumentSources({
     }
   };
 
+  const handleRename = async (document: SourceDocument) => {
+    const title = window.prompt('Rename document', document.title)?.trim();
+    if (!title || title === document.title) return;
+
+    try {
+      await apiRequest('PATCH', `/documents/${document.id}`, { title });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    } catch (error) {
+      console.error('Failed to rename document:', error);
+    }
+  };
+
+  const handleReindex = async (document: SourceDocument) => {
+    try {
+      await apiRequest('POST', `/documents/${document.id}/reindex`);
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    } catch (error) {
+      console.error('Failed to re-index document:', error);
+    }
+  };
+
+  const handleDelete = async (document: SourceDocument) => {
+    if (!window.confirm(`Delete "${document.title}"? Its search index is removed too.`)) return;
+
+    try {
+      await apiRequest('DELETE', `/documents/${document.id}`);
+      onSelectionChange(selectedDocuments.filter(id => id !== document.id));
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+    } catch (error) {
+      console.error('Failed to delete document:', error);
+    }
+  };
+
+  const handleSaveCollection = async () => {
+    const name = window.prompt('Name this collection', 'Physics Ch 1-5')?.trim();
+    if (!name) return;
+
+    try {
+      const response = await apiRequest('POST', '/collections', { name, documentIds: selectedDocuments });
+      const collection = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+      onCollectionSelect(collection);
+    } catch (error) {
+      console.error('Failed to create collection:', error);
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    const collection = collections.find(c => c.id === activeCollectionId);
+    if (!collection || !window.confirm(`Delete the collection "${collection.name}"? Its documents are kept.`)) return;
+
+    try {
+      await apiRequest('DELETE', `/collections/${collection.id}`);
+      onCollectionSelect(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+    }
+  };
+
   const toggleDocumentSelection = (documentId: string) => {
     const newSelection = selectedDocuments.includes(documentId)
       ? selectedDocuments.filter(id => id !== documentId)
@@ -82,6 +210,17 @@ export default function DocumentSources({
         return 'fas fa-file-pdf text-red-600';
       case 'youtube':
         return 'fab fa-youtube text-red-600';
+      case 'video':
+        return 'fas fa-video text-purple-600';
+      case 'docx':
+        return 'fas fa-file-word text-blue-700';
+      case 'pptx':
+        return 'fas fa-file-powerpoint text-orange-600';
+      case 'epub':
+        return 'fas fa-book text-green-700';
+      case 'markdown':
+      case 'text':
+        return 'fas fa-file-lines text-gray-600';
       case 'url':
         return 'fas fa-globe text-blue-600';
       default:
@@ -113,7 +252,7 @@ export default function DocumentSources({
           <div className="relative">
             <input
               type="file"
-              accept=".pdf"
+              accept=".pdf,.docx,.pptx,.epub,.md,.markdown,.txt,.vtt,.srt"
               onChange={handleFileUpload}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               disabled={isUploading}
@@ -127,7 +266,7 @@ export default function DocumentSources({
             >
               <i className="fas fa-file-pdf text-red-600 mr-2"></i>
               <span className="text-sm font-medium">
-                {isUploading ? 'Uploading...' : 'Upload PDF'}
+                {isUploading ? 'Uploading...' : 'Upload PDF, DOCX, PPTX or EPUB'}
               </span>
             </Button>
           </div>
@@ -145,18 +284,80 @@ export default function DocumentSources({
               onClick={handleAddUrl}
               disabled={!urlInput.trim() || isAddingUrl}
               size="sm"
+              title={isVideoUrl ? 'Choose the caption file (.vtt, .srt or timedtext .json)' : undefined}
               data-testid="button-add-url"
             >
               {isAddingUrl ? (
                 <i className="fas fa-spinner fa-spin"></i>
+              ) : isVideoUrl ? (
+                <i className="fas fa-closed-captioning"></i>
               ) : (
                 <i className="fas fa-plus"></i>
               )}
             </Button>
+            <input
+              ref={captionInputRef}
+              type="file"
+              accept=".vtt,.srt,.json"
+              onChange={handleCaptionUpload}
+              className="hidden"
+              data-testid="input-caption-upload"
+            />
           </div>
+          {isVideoUrl && (
+            <p className="text-xs text-muted-foreground">
+              Add the video's captions (.vtt, .srt or YouTube timedtext .json) to chat with it
+            </p>
+          )}
         </div>
       </div>
       
+      {/* Collections */}
+      {(collections.length > 0 || selectedDocuments.length > 1) && (
+        <div className="px-4 pt-4 flex gap-2">
+          <Select
+            value={activeCollectionId ?? NO_COLLECTION}
+            onValueChange={(value) => onCollectionSelect(collections.find(c => c.id === value) ?? null)}
+          >
+            <SelectTrigger className="flex-1 h-9 text-sm" data-testid="select-collection">
+              <SelectValue placeholder="No collection" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COLLECTION}>No collection</SelectItem>
+              {collections.map((collection) => (
+                <SelectItem key={collection.id} value={collection.id}>
+                  {collection.name} ({collection.documentIds.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeCollectionId ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9"
+              onClick={handleDeleteCollection}
+              title="Delete collection"
+              data-testid="button-delete-collection"
+            >
+              <i className="fas fa-trash"></i>
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9"
+              onClick={handleSaveCollection}
+              disabled={selectedDocuments.length === 0}
+              title="Save selection as a collection"
+              data-testid="button-save-collection"
+            >
+              <i className="fas fa-folder-plus"></i>
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Documents List */}
       <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
         {isLoading ? (
@@ -188,22 +389,22 @@ export default function DocumentSources({
                       {document.title}
                     </h4>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {document.pages ? `${document.pages} pages` : ''} 
-                      {document.pages && document.tokens ? ' • ' : ''}
+                      {document.metadata?.duration ? formatTimestamp(document.metadata.duration) : ''}
+                      {document.pages ? `${document.pages} ${document.type === 'pptx' ? 'slides' : 'pages'}` : ''} 
+                      {(document.pages || document.metadata?.duration) && document.tokens ? ' • ' : ''}
                       {document.tokens ? `${Math.round(document.tokens / 1000)}k tokens` : ''}
                     </p>
                     
                     <div className="flex items-center gap-2 mt-2">
-                      {document.status === 'processing' ? (
-                        <>
-                          <div className="h-1 flex-1 bg-muted rounded-full overflow-hidden relative">
-                            <div className="h-full bg-primary rounded-full animate-pulse" style={{ width: '65%' }}></div>
-                          </div>
-                          <span className="text-xs text-orange-600 font-medium">Processing...</span>
-                        </>
+                      {document.status === 'processing' || document.metadata?.reindexing ? (
+                        <ProcessingStatus documentId={document.id} />
                       ) : (
-                        <span className={`text-xs font-medium ${getStatusColor(document.status)}`}>
-                          {document.status === 'ready' ? 'Ready' : 
+                        <span
+                          className={`text-xs font-medium ${getStatusColor(document.status)}`}
+                          title={document.status === 'error' ? document.metadata?.error
+                            : document.metadata?.reindexError ? `Re-index failed: ${document.metadata.reindexError}` : undefined}
+                        >
+                          {document.status === 'ready' ? (document.metadata?.reindexError ? 'Ready (re-index failed)' : 'Ready') : 
                            document.status === 'error' ? 'Error' : 
                            document.status}
                         </span>
@@ -211,12 +412,51 @@ export default function DocumentSources({
                     </div>
                   </div>
                   
-                  {/* Selection indicator */}
-                  {selectedDocuments.includes(document.id) && (
-                    <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center">
-                      <i className="fas fa-check text-primary-foreground text-xs"></i>
-                    </div>
-                  )}
+                  <div className="flex flex-col items-center gap-1">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-muted-foreground"
+                          onClick={(e) => e.stopPropagation()}
+                          data-testid={`button-document-menu-${document.id}`}
+                        >
+                          <i className="fas fa-ellipsis-vertical text-xs"></i>
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem onClick={() => handleRename(document)} data-testid={`button-rename-${document.id}`}>
+                          <i className="fas fa-pen mr-2"></i>
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleReindex(document)}
+                          disabled={document.status === 'processing' || document.metadata?.reindexing}
+                          data-testid={`button-reindex-${document.id}`}
+                        >
+                          <i className="fas fa-rotate mr-2"></i>
+                          Re-index
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => handleDelete(document)}
+                          className="text-red-600"
+                          data-testid={`button-delete-${document.id}`}
+                        >
+                          <i className="fas fa-trash mr-2"></i>
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+
+                    {/* Selection indicator */}
+                    {selectedDocuments.includes(document.id) && (
+                      <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center">
+                        <i className="fas fa-check text-primary-foreground text-xs"></i>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -252,3 +492,65 @@ export default function DocumentSources({
     </div>
   );
 }
+
+// Live ingestion progress for a document that is processing or being
+// re-indexed. The stream ends once the job completes, fails or is
+// cancelled, and the document list is refetched to pick up the final status.
+function ProcessingStatus({ documentId }: { documentId: string }) {
+  const [progress, setProgress] = useState<IngestionProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  useEffect(() => {
+    const eventSource = createEventSource(`/documents/${documentId}/events`, {
+      onMessage: (event: { type: string; data: IngestionProgress | null }) => {
+        if (event.data) setProgress(event.data);
+        if (event.type !== 'progress') {
+          // Without this the browser would reconnect to the finished stream
+          eventSource.close();
+          queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+        }
+      }
+    });
+    return () => eventSource.close();
+  }, [documentId]);
+
+  const handleCancel = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsCancelling(true);
+    try {
+      await apiRequest('POST', `/documents/${documentId}/cancel`);
+    } catch (error) {
+      console.error('Failed to cancel processing:', error);
+      setIsCancelling(false);
+    }
+  };
+
+  const label = !progress || progress.status === 'queued'
+    ? (progress?.retryAt ? `Retrying (attempt ${progress.attempts + 1}/${progress.maxAttempts})` : 'Queued')
+    : progress.stage ? STAGE_LABELS[progress.stage] : 'Processing';
+
+  return (
+    <div className="flex-1 min-w-0" data-testid={`status-processing-${documentId}`}>
+      <div className="flex items-center gap-2">
+        <Progress
+          value={progress ? Math.round(overallProgress(progress.stage, progress.progress) * 100) : 0}
+          className="h-1 flex-1"
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0 text-muted-foreground hover:text-red-600"
+          onClick={handleCancel}
+          disabled={isCancelling}
+          title="Cancel processing"
+          data-testid={`button-cancel-${documentId}`}
+        >
+          <i className="fas fa-xmark text-xs"></i>
+        </Button>
+      </div>
+      <span className="text-xs text-orange-600 font-medium" title={progress?.error}>
+        {isCancelling ? 'Cancelling...' : `${label}...`}
+      </span>
+    </div>
+  );
+}
@@ -1,72 +1,147 @@
 import { useState, useEffect, useRef } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { API_BASE, apiRequest } from '@/lib/api';
+import { findPassageRects, type HighlightRect } from '@/lib/pdf-highlight';
+import type { MessageCitation } from '@shared/citations';
+import VideoPlayer, { type SeekRequest } from './video-player';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// A clicked citation the viewer should jump to and highlight
+export interface CitationFocus {
+  citation: MessageCitation;
+  key: number; // changes on every click so the same citation can be revisited
+}
 
 interface PDFViewerProps {
   documentId: string | null;
   documents: any[];
+  seek?: SeekRequest | null;
+  focus?: CitationFocus | null;
 }
 
-export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
+interface Passage {
+  page?: number;
+  text: string;  // full text of the cited chunk
+  quote: string; // the sentence the answer relies on
+}
+
+export default function PDFViewer({ documentId, documents, seek = null, focus = null }: PDFViewerProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [zoom, setZoom] = useState(100);
+  const [passage, setPassage] = useState<Passage | null>(null);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
   const currentDocument = documents.find(doc => doc.id === documentId);
+  const isPdf = currentDocument?.type === 'pdf' && currentDocument?.status === 'ready';
+  const fileUrl = currentDocument ? `${API_BASE}/documents/${currentDocument.id}/file` : null;
 
+  // Load the original file whenever another PDF is opened
   useEffect(() => {
-    if (currentDocument && currentDocument.status === 'ready') {
-      // In production, would integrate with PDF.js here
-      setTotalPages(currentDocument.pages || 1);
-      renderPage(currentPage);
-    }
-  }, [documentId, currentDocument, currentPage]);
-
-  const renderPage = async (pageNum: number) => {
-    // Placeholder for PDF.js integration
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Mock PDF rendering - in production would use PDF.js
-    canvas.width = 800;
-    canvas.height = 1100;
-    
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    ctx.fillStyle = '#333333';
-    ctx.font = '16px Arial';
-    ctx.fillText(`PDF Page ${pageNum}`, 50, 50);
-    ctx.fillText(`Document: ${currentDocument?.title || 'Document'}`, 50, 80);
-    
-    // Mock content
-    ctx.font = '14px Arial';
-    const lines = [
-      'This is a placeholder for PDF content.',
-      'In production, PDF.js would render the actual PDF pages.',
-      '',
-      'The document viewer supports:',
-      '• Navigation between pages',
-      '• Zoom in/out functionality', 
-      '• Download capabilities',
-      '• Search within document',
-      '',
-      `Current page: ${pageNum} of ${totalPages}`,
-      `Zoom level: ${zoom}%`
-    ];
-    
-    lines.forEach((line, index) => {
-      ctx.fillText(line, 50, 120 + (index * 25));
+    setPdf(null);
+    setLoadError(null);
+    setCurrentPage(1);
+    setTotalPages(currentDocument?.pages || 1);
+    if (!isPdf || !fileUrl) return;
+
+    const loadingTask = pdfjsLib.getDocument({ url: fileUrl, withCredentials: true });
+    loadingTask.promise.then(
+      (loaded) => {
+        setPdf(loaded);
+        setTotalPages(loaded.numPages);
+      },
+      (error) => {
+        console.error('Failed to load PDF:', error);
+        setLoadError('The original file is not available. Upload the document again to view it.');
+      }
+    );
+    return () => {
+      loadingTask.destroy();
+    };
+  }, [documentId, isPdf, fileUrl, currentDocument?.pages]);
+
+  // A citation click jumps to its page and fetches the chunk to highlight
+  useEffect(() => {
+    setPassage(null);
+    if (!focus || focus.citation.documentId !== documentId) return;
+
+    const { citation } = focus;
+    if (citation.page) setCurrentPage(citation.page);
+
+    let cancelled = false;
+    apiRequest('GET', `/documents/${citation.documentId}/chunks/${encodeURIComponent(citation.chunkId)}`)
+      .then(response => response.json())
+      .then(chunk => {
+        if (!cancelled) setPassage({ page: citation.page, text: chunk.text, quote: citation.quote });
+      })
+      .catch(() => {
+        // The chunk may have been re-indexed since; the quote alone still marks the spot
+        if (!cancelled) setPassage({ page: citation.page, text: citation.quote, quote: citation.quote });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [focus, documentId]);
+
+  // Render the current page, then place highlights over the cited passage
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    let renderTask: ReturnType<Awaited<ReturnType<PDFDocumentProxy['getPage']>>['render']> | null = null;
+
+    (async () => {
+      const page = await pdf.getPage(Math.min(currentPage, pdf.numPages));
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (cancelled || !canvas || !context) return;
+
+      const viewport = page.getViewport({ scale: zoom / 100 });
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * pixelRatio);
+      canvas.height = Math.floor(viewport.height * pixelRatio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+
+      renderTask = page.render({
+        canvasContext: context,
+        viewport,
+        transform: pixelRatio !== 1 ? [pixelRatio, 0, 0, pixelRatio, 0, 0] : undefined
+      });
+      await renderTask.promise;
+      if (cancelled) return;
+
+      if (passage && (passage.page ?? currentPage) === currentPage) {
+        const textContent = await page.getTextContent();
+        if (cancelled) return;
+        setHighlights(findPassageRects(textContent.items, viewport, passage.text, passage.quote));
+      } else {
+        setHighlights([]);
+      }
+    })().catch((error) => {
+      if (error?.name !== 'RenderingCancelledException') {
+        console.error('Failed to render PDF page:', error);
+      }
     });
 
-    // Mock page border
-    ctx.strokeStyle = '#dddddd';
-    ctx.strokeRect(0, 0, canvas.width, canvas.height);
-  };
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, currentPage, zoom, passage]);
+
+  // Bring the highlighted passage into view
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlights]);
 
   const handleZoomIn = () => {
     setZoom(prev => Math.min(prev + 25, 200));
@@ -115,6 +190,53 @@ export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
     );
   }
 
+  if (currentDocument.type === 'youtube' || currentDocument.type === 'video') {
+    return (
+      <VideoPlayer
+        key={currentDocument.id}
+        document={currentDocument}
+        seek={seek?.documentId === currentDocument.id ? seek : null}
+      />
+    );
+  }
+
+  const downloadButton = (
+    <Button variant="outline" size="icon" asChild data-testid="button-download">
+      <a href={`${fileUrl}`} download={currentDocument.title} title="Download original">
+        <i className="fas fa-download text-muted-foreground"></i>
+      </a>
+    </Button>
+  );
+
+  // Other formats have no page rendering; show the cited passage instead
+  if (currentDocument.type !== 'pdf') {
+    return (
+      <div className="flex-1 flex flex-col bg-muted/30">
+        <div className="p-4 border-b border-border bg-card flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-foreground" data-testid="document-title">
+            {currentDocument.title}
+          </h3>
+          {currentDocument.type !== 'url' && downloadButton}
+        </div>
+        <div className="flex-1 overflow-auto custom-scrollbar p-8 flex items-center justify-center">
+          {passage ? (
+            <div className="max-w-2xl bg-card border border-border rounded-lg p-6 shadow-sm" data-testid="cited-passage">
+              <p className="text-xs font-semibold text-muted-foreground mb-3">CITED PASSAGE</p>
+              <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
+                {renderWithQuote(passage.text, passage.quote)}
+              </p>
+            </div>
+          ) : (
+            <div className="text-center">
+              <i className="fas fa-file-lines text-6xl text-muted-foreground mb-4"></i>
+              <p className="text-muted-foreground">Click a citation in the chat to see the passage it comes from</p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex-1 flex flex-col bg-muted/30">
       {/* Toolbar */}
@@ -127,7 +249,7 @@ export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
             Page <span data-testid="current-page">{currentPage}</span> of {totalPages}
           </span>
         </div>
-        
+
         <div className="flex items-center gap-2">
           <Button
             variant="outline"
@@ -138,11 +260,11 @@ export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
           >
             <i className="fas fa-search-minus text-muted-foreground"></i>
           </Button>
-          
+
           <span className="text-sm font-medium text-foreground px-3" data-testid="zoom-level">
             {zoom}%
           </span>
-          
+
           <Button
             variant="outline"
             size="icon"
@@ -152,24 +274,40 @@ export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
           >
             <i className="fas fa-search-plus text-muted-foreground"></i>
           </Button>
-          
+
           <div className="w-px h-6 bg-border mx-2"></div>
-          
-          <Button variant="outline" size="icon" data-testid="button-download">
-            <i className="fas fa-download text-muted-foreground"></i>
-          </Button>
+
+          {downloadButton}
         </div>
       </div>
 
       {/* PDF Canvas */}
-      <div className="flex-1 overflow-auto custom-scrollbar p-8 flex items-center justify-center">
-        <div className="bg-white shadow-2xl rounded-lg" style={{ transform: `scale(${zoom / 100})` }}>
-          <canvas
-            ref={canvasRef}
-            className="border border-border rounded-lg"
-            data-testid="pdf-canvas"
-          />
-        </div>
+      <div className="flex-1 overflow-auto custom-scrollbar p-8 flex items-start justify-center">
+        {loadError ? (
+          <div className="text-center self-center">
+            <i className="fas fa-triangle-exclamation text-4xl text-muted-foreground mb-4"></i>
+            <p className="text-muted-foreground">{loadError}</p>
+          </div>
+        ) : (
+          <div className="relative bg-white shadow-2xl rounded-lg">
+            <canvas
+              ref={canvasRef}
+              className="border border-border rounded-lg block"
+              data-testid="pdf-canvas"
+            />
+            {highlights.map((rect, index) => (
+              <div
+                key={index}
+                ref={index === 0 ? highlightRef : undefined}
+                className={`absolute pointer-events-none rounded-sm mix-blend-multiply ${
+                  rect.strong ? 'bg-yellow-300/70' : 'bg-yellow-200/40'
+                }`}
+                style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                data-testid="pdf-highlight"
+              />
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Page Navigation */}
@@ -183,7 +321,7 @@ export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
         >
           <i className="fas fa-chevron-left text-muted-foreground"></i>
         </Button>
-        
+
         <Input
           type="number"
           value={currentPage}
@@ -193,7 +331,7 @@ export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
           className="w-16 text-center"
           data-testid="input-page-number"
         />
-        
+
         <Button
           variant="outline"
           size="icon"
@@ -207,3 +345,16 @@ export default function PDFViewer({ documentId, documents }: PDFViewerProps) {
     </div>
   );
 }
+
+// Chunk text with the quoted sentence marked
+function renderWithQuote(text: string, quote: string) {
+  const at = quote ? text.indexOf(quote) : -1;
+  if (at < 0) return text;
+  return (
+    <>
+      {text.slice(0, at)}
+      <mark className="bg-yellow-200 rounded-sm">{quote}</mark>
+      {text.slice(at + quote.length)}
+    </>
+  );
+}
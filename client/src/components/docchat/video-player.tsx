@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef } from 'react';
+import { formatTimestamp, youtubeVideoId } from '@shared/media';
+import type { SourceDocument } from './document-sources';
+
+export interface SeekRequest {
+  documentId: string;
+  time: number; // seconds
+  key: number;  // changes on every request so repeated clicks seek again
+}
+
+interface VideoPlayerProps {
+  document: SourceDocument;
+  seek: SeekRequest | null;
+}
+
+export default function VideoPlayer({ document, seek }: VideoPlayerProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const loadedRef = useRef(false);
+
+  const videoId = document.sourceUrl ? youtubeVideoId(document.sourceUrl) : null;
+  // A citation clicked before the player exists starts playback there
+  const [startAt] = useState(() => Math.floor(seek?.time ?? 0));
+
+  useEffect(() => {
+    if (!seek) return;
+
+    if (videoRef.current) {
+      videoRef.current.currentTime = seek.time;
+      videoRef.current.play().catch(() => {});
+      return;
+    }
+
+    // The embed is driven through the YouTube IFrame API's postMessage commands
+    const player = iframeRef.current?.contentWindow;
+    if (player && loadedRef.current) {
+      const command = (func: string, args: unknown[] = []) =>
+        player.postMessage(JSON.stringify({ event: 'command', func, args }), '*');
+      command('seekTo', [seek.time, true]);
+      command('playVideo');
+    }
+  }, [seek]);
+
+  return (
+    <div className="flex-1 flex flex-col bg-muted/30">
+      {/* Toolbar */}
+      <div className="p-4 border-b border-border bg-card flex items-center gap-3">
+        <h3 className="text-sm font-semibold text-foreground" data-testid="document-title">
+          {document.title}
+        </h3>
+        {document.metadata?.duration && (
+          <span className="text-xs text-muted-foreground">
+            {formatTimestamp(document.metadata.duration)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar p-8 flex flex-col items-center justify-center gap-4">
+        {videoId ? (
+          <iframe
+            ref={iframeRef}
+            src={`https://www.youtube-nocookie.com/embed/${videoId}?enablejsapi=1&rel=0&start=${startAt}${startAt > 0 ? '&autoplay=1' : ''}`}
+            title={document.title}
+            onLoad={() => { loadedRef.current = true; }}
+            allow="autoplay; encrypted-media; picture-in-picture"
+            allowFullScreen
+            className="w-full max-w-4xl aspect-video rounded-lg shadow-2xl bg-black"
+            data-testid="video-player"
+          />
+        ) : document.sourceUrl ? (
+          <video
+            ref={videoRef}
+            src={`${document.sourceUrl}${startAt > 0 ? `#t=${startAt}` : ''}`}
+            controls
+            className="w-full max-w-4xl rounded-lg shadow-2xl bg-black"
+            data-testid="video-player"
+          />
+        ) : (
+          <div className="text-center">
+            <i className="fas fa-closed-captioning text-6xl text-muted-foreground mb-4"></i>
+            <h3 className="text-lg font-semibold text-foreground mb-2">Transcript Only</h3>
+            <p className="text-muted-foreground">No video link was given with these captions</p>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Click a [mm:ss] citation in the chat to jump to that moment
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -13,13 +13,6 @@ export default function AppShell({ children }: AppShellProps) {
   const [showQuickActions, setShowQuickActions] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
 
-  const handleCommandK = (e: KeyboardEvent) => {
-    if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
-      e.preventDefault();
-      // TODO: Open command palette modal
-      console.log('Command palette triggered');
-    }
-  };
 
   return (
     <div className="flex h-screen bg-background overflow-hidden">
@@ -1,5 +1,12 @@
 import { useLocation, Link } from 'wouter';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/use-auth';
 import { cn } from '@/lib/utils';
 
 const navigationItems = [
@@ -64,6 +71,14 @@ const examPrepItems = [
 
 export default function NavigationRail() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
+
+  const initials = (user?.name || user?.username || '?')
+    .split(/\s+/)
+    .map(part => part[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
 
   return (
     <aside className="w-64 bg-card border-r border-border flex flex-col shadow-sm">
@@ -125,16 +140,32 @@ export default function NavigationRail() {
 
       {/* User Profile */}
       <div className="p-4 border-t border-border">
-        <Button variant="ghost" className="w-full justify-start gap-3 h-auto py-3 px-4">
-          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-purple-600 flex items-center justify-center text-white font-semibold">
-            AR
-          </div>
-          <div className="flex-1 text-left">
-            <p className="text-sm font-semibold text-foreground">Aarav Sharma</p>
-            <p className="text-xs text-muted-foreground">Class 12 • JEE</p>
-          </div>
-          <i className="fas fa-chevron-down text-muted-foreground text-sm"></i>
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" className="w-full justify-start gap-3 h-auto py-3 px-4" data-testid="button-user-menu">
+              <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-purple-600 flex items-center justify-center text-white font-semibold">
+                {initials}
+              </div>
+              <div className="flex-1 text-left">
+                <p className="text-sm font-semibold text-foreground">{user?.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[user?.class, user?.board].filter(Boolean).join(' • ') || `@${user?.username}`}
+                </p>
+              </div>
+              <i className="fas fa-chevron-down text-muted-foreground text-sm"></i>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuItem
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <i className="fas fa-right-from-bracket mr-2"></i>
+              Log out
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </aside>
   );
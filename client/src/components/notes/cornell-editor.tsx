@@ -7,7 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { LaTeXRenderer } from '@/components/ui/latex-renderer';
-import { ArrowLeft, Save, Share, FileText, Download, Plus, RotateCcw } from 'lucide-react';
+import { ArrowLeft, Share, FileText, Download, Plus, RotateCcw } from 'lucide-react';
 import { apiRequest } from '@/lib/api';
 
 interface CornellEditorProps {
@@ -77,8 +77,7 @@ export default function CornellEditor({ noteId, onClose, onNoteCreated }: Cornel
         return response.json();
       } else {
         const response = await apiRequest('POST', '/notes', {
-          ...noteData,
-          userId: 'default-user'
+          ...noteData
         });
         return response.json();
       }
@@ -7,10 +7,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Badge } from '@/components/ui/badge';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, BookOpen, Clock, Zap } from 'lucide-react';
+import { CalendarIcon, BookOpen, Clock } from 'lucide-react';
 import { apiRequest } from '@/lib/api';
 
 interface PlannerWizardProps {
@@ -118,8 +117,7 @@ export default function PlannerWizard({ onClose, onComplete }: PlannerWizardProp
           intensity,
           sessionDuration,
           components: includedComponents,
-        },
-        userId: 'default-user'
+        }
       });
 
       const plan = await response.json();
@@ -146,12 +144,6 @@ export default function PlannerWizard({ onClose, onComplete }: PlannerWizardProp
     }
   };
 
-  const getStepIcon = (stepNumber: number) => {
-    if (stepNumber < step) return 'fas fa-check';
-    if (stepNumber === step) return 'fas fa-circle';
-    return 'far fa-circle';
-  };
-
   const formatDate = (date: Date | undefined) => {
     if (!date) return 'Select date';
     return date.toLocaleDateString('en-IN', {
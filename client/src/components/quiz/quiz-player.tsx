@@ -3,7 +3,6 @@ import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Badge } from '@/components/ui/badge';
 import { LaTeXRenderer } from '@/components/ui/latex-renderer';
 import { apiRequest } from '@/lib/api';
 
@@ -89,8 +88,7 @@ export default function QuizPlayer({ quizId, onComplete, onExit }: QuizPlayerPro
     try {
       const response = await apiRequest('POST', `/quizzes/${quizId}/grade`, {
         answers: questions.map((_: any, index: number) => answers[index] || null),
-        timeSpent: finalTimeSpent,
-        userId: 'default-user'
+        timeSpent: finalTimeSpent
       });
       
       const results = await response.json();
@@ -1,5 +1,5 @@
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { LaTeXRenderer } from '@/components/ui/latex-renderer';
@@ -25,7 +25,7 @@ interface QuizResultsProps {
 }
 
 export default function QuizResults({ results, onRetake, onClose }: QuizResultsProps) {
-  const { score, correctCount, totalQuestions, results: questionResults } = results;
+  const { score, correctCount, results: questionResults } = results;
   const wrongCount = questionResults.filter(r => r.userAnswer && !r.isCorrect).length;
   const unattemptedCount = questionResults.filter(r => !r.userAnswer).length;
 
@@ -127,7 +127,7 @@ export default function QuizResults({ results, onRetake, onClose }: QuizResultsP
 
         {/* Detailed Results */}
         <div className="flex-1 overflow-y-auto p-6 space-y-4">
-          {questionResults.map((result, index) => (
+          {questionResults.map((result) => (
             <Card
               key={result.questionIndex}
               className={`border-2 ${getResultBorderColor(result)} ${getResultBgColor(result)}`}
@@ -6,7 +6,9 @@ import { Card } from '@/components/ui/card';
 import { LaTeXRenderer } from '@/components/ui/latex-renderer';
 import { StreamingText } from '@/components/ui/streaming-text';
 import { useStreaming } from '@/hooks/use-streaming';
-import { apiRequest } from '@/lib/api';
+import { answerCheckQuestion, apiRequest } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
+import { checkBlocks, optionLabel, type TutorBlock, type TutorCheckBlock } from '@shared/tutor';
 
 interface ChatInterfaceProps {
   chatId: string;
@@ -16,21 +18,39 @@ interface ChatInterfaceProps {
 
 interface Message {
   id: string;
+  parentId: string | null;
   role: 'user' | 'assistant';
   content: string;
   metadata?: any;
   createdAt: string;
+  siblingIds: string[]; // alternatives from edits and regenerations, itself included
 }
 
-export default function ChatInterface({ chatId, config, onNewSession }: ChatInterfaceProps) {
+export default function ChatInterface({ chatId, onNewSession }: ChatInterfaceProps) {
   const [inputMessage, setInputMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  // While an edit or regeneration streams, the branch it replaces is hidden from this message on
+  const [replacedFrom, setReplacedFrom] = useState<string | null>(null);
+  // An option picked on a check question of the reply still streaming. The
+  // reply is only saved once it ends, so the answer is graded then.
+  const [pendingAnswer, setPendingAnswer] = useState<{ checkId: string; option: number } | null>(null);
+  const pendingAnswerRef = useRef(pendingAnswer);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
-  const { isStreaming, content: streamingContent, startStreaming, reset: resetStreaming } = useStreaming();
+  const {
+    isStreaming,
+    content: streamingContent,
+    blocks: streamingBlocks,
+    startStreaming,
+    startRegenerating,
+    stop: stopStreaming,
+    reset: resetStreaming
+  } = useStreaming();
 
-  // Fetch messages
-  const { data: messages, refetch } = useQuery({
+  // Fetch messages of the branch being shown
+  const { data: messages, refetch } = useQuery<Message[]>({
     queryKey: ['/api/chats', chatId, 'messages'],
     queryFn: async () => {
       const response = await apiRequest('GET', `/chats/${chatId}/messages`);
@@ -40,7 +60,28 @@ export default function ChatInterface({ chatId, config, onNewSession }: ChatInte
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, streamingContent]);
+  }, [messages, streamingContent, streamingBlocks]);
+
+  const beginReply = () => {
+    resetStreaming();
+    pendingAnswerRef.current = null;
+    setPendingAnswer(null);
+  };
+
+  const handleStreamComplete = async () => {
+    const { data: latest } = await refetch();
+    setReplacedFrom(null);
+    // The session may have been titled by this turn
+    queryClient.invalidateQueries({ queryKey: ['/api/chats', { mode: 'tutor' }] });
+    setIsSubmitting(false);
+
+    const pending = pendingAnswerRef.current;
+    if (!pending) return;
+    for (const message of latest || []) {
+      const check = checkBlocks(message.metadata?.blocks).find(candidate => candidate.id === pending.checkId);
+      if (check && !check.answer) await submitAnswer(message, check, pending.option);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,57 +90,256 @@ export default function ChatInterface({ chatId, config, onNewSession }: ChatInte
     const messageToSend = inputMessage.trim();
     setInputMessage('');
     setIsSubmitting(true);
-    resetStreaming();
+    beginReply();
 
     try {
-      await startStreaming(chatId, messageToSend, () => {
-        refetch();
-        setIsSubmitting(false);
-      });
+      await startStreaming(chatId, messageToSend, handleStreamComplete);
     } catch (error) {
       console.error('Failed to send message:', error);
       setIsSubmitting(false);
     }
   };
 
-  const handleAnswerSelect = async (answer: string) => {
+  // Resends an edited question as a new branch next to the original
+  const handleEditSubmit = async (message: Message) => {
+    const content = editText.trim();
+    if (!content || isSubmitting) return;
+
+    setEditingId(null);
+    setReplacedFrom(message.id);
     setIsSubmitting(true);
-    resetStreaming();
+    beginReply();
+
+    try {
+      await startStreaming(chatId, { content, parentId: message.parentId }, handleStreamComplete);
+    } catch (error) {
+      console.error('Failed to resend message:', error);
+      setReplacedFrom(null);
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegenerate = async (message: Message) => {
+    if (isSubmitting) return;
+
+    setReplacedFrom(message.id);
+    setIsSubmitting(true);
+    beginReply();
+
+    try {
+      await startRegenerating(chatId, message.id, handleStreamComplete);
+    } catch (error) {
+      console.error('Failed to regenerate message:', error);
+      setReplacedFrom(null);
+      setIsSubmitting(false);
+    }
+  };
+
+  // Shows the branch through a sibling of a message
+  const handleBranchSwitch = async (messageId: string) => {
+    try {
+      const response = await apiRequest('PUT', `/chats/${chatId}/branch`, { messageId });
+      queryClient.setQueryData(['/api/chats', chatId, 'messages'], await response.json());
+    } catch (error) {
+      console.error('Failed to switch branch:', error);
+    }
+  };
+
+  const handleAnswerSelect = (message: Message, check: TutorCheckBlock, option: number) => {
+    if (isSubmitting || check.answer) return;
+    return submitAnswer(message, check, option);
+  };
+
+  // Picking an option before the reply has ended keeps it for grading
+  const handleStreamingAnswerSelect = (check: TutorCheckBlock, option: number) => {
+    if (pendingAnswerRef.current) return;
+    pendingAnswerRef.current = { checkId: check.id, option };
+    setPendingAnswer(pendingAnswerRef.current);
+  };
+
+  // Grades the chosen option, shows the result and sends the answer on so
+  // the tutor can follow up on it
+  const submitAnswer = async (message: Message, check: TutorCheckBlock, option: number) => {
+    setIsSubmitting(true);
+    beginReply();
 
     try {
-      await startStreaming(chatId, answer, () => {
-        refetch();
-        setIsSubmitting(false);
-      });
+      const answered = await answerCheckQuestion(chatId, message.id, check.id, option);
+      queryClient.setQueryData<Message[]>(['/api/chats', chatId, 'messages'], current => current?.map(candidate =>
+        candidate.id === message.id
+          ? {
+              ...candidate,
+              metadata: {
+                ...candidate.metadata,
+                blocks: candidate.metadata.blocks.map((block: TutorBlock) =>
+                  block.kind === 'check' && block.id === check.id ? answered : block)
+              }
+            }
+          : candidate
+      ));
+      const selected = answered.answer ? answered.answer.selected : option;
+      await startStreaming(chatId, `${optionLabel(selected)}) ${check.options[selected]}`, handleStreamComplete);
     } catch (error) {
       console.error('Failed to send answer:', error);
       setIsSubmitting(false);
     }
   };
 
-  const parseCheckQuestion = (content: string) => {
-    const checkQuestionMatch = content.match(/Check Your Understanding[\s\S]*?(?=\n\n|$)/);
-    if (!checkQuestionMatch) return null;
-
-    const questionText = checkQuestionMatch[0];
-    const optionMatches = questionText.match(/[A-D]\)\s*([^\n]+)/g);
-    
-    if (!optionMatches) return null;
-
-    return {
-      question: questionText.split('\n')[0].replace('Check Your Understanding', '').trim(),
-      options: optionMatches.map(option => {
-        const [label, text] = option.split(')');
-        return { label: label.trim(), text: text.trim() };
-      })
-    };
+  // "< 2/3 >" to step through a message's alternatives, and edit or regenerate
+  const renderMessageActions = (message: Message) => {
+    const index = message.siblingIds.indexOf(message.id);
+    const count = message.siblingIds.length;
+
+    return (
+      <div className={`flex items-center gap-1 mt-1 text-xs text-muted-foreground ${message.role === 'user' ? 'justify-end' : ''}`}>
+        {count > 1 && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => handleBranchSwitch(message.siblingIds[index - 1])}
+              disabled={index <= 0 || isSubmitting}
+              data-testid={`button-branch-prev-${message.id}`}
+            >
+              <i className="fas fa-chevron-left text-[10px]"></i>
+            </Button>
+            <span data-testid={`text-branch-${message.id}`}>{index + 1}/{count}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => handleBranchSwitch(message.siblingIds[index + 1])}
+              disabled={index >= count - 1 || isSubmitting}
+              data-testid={`button-branch-next-${message.id}`}
+            >
+              <i className="fas fa-chevron-right text-[10px]"></i>
+            </Button>
+          </>
+        )}
+        {message.role === 'user' ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Edit and resend"
+            onClick={() => {
+              setEditingId(message.id);
+              setEditText(message.content);
+            }}
+            disabled={isSubmitting}
+            data-testid={`button-edit-${message.id}`}
+          >
+            <i className="fas fa-pen text-[10px]"></i>
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Regenerate"
+            onClick={() => handleRegenerate(message)}
+            disabled={isSubmitting}
+            data-testid={`button-regenerate-${message.id}`}
+          >
+            <i className="fas fa-rotate-right text-[10px]"></i>
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  // `message` is null for blocks of the reply still streaming
+  const renderCheck = (message: Message | null, check: TutorCheckBlock) => {
+    const answer = check.answer;
+    const pending = !message && pendingAnswer?.checkId === check.id ? pendingAnswer.option : null;
+
+    return (
+      <Card key={check.id} className="mt-4 p-4 bg-blue-50 border border-blue-200" data-testid={`check-${check.id}`}>
+        <p className="text-sm font-semibold text-blue-900 mb-3">
+          <i className="fas fa-question-circle mr-2"></i>Check Your Understanding
+        </p>
+        <LaTeXRenderer content={check.question} className="text-sm text-blue-800 mb-4" />
+        <div className="space-y-2">
+          {check.options.map((option, index) => {
+            const label = optionLabel(index);
+            const tone = pending !== null
+              ? index === pending
+                ? 'bg-blue-100 border-blue-400'
+                : 'bg-white border-blue-200 opacity-60'
+              : !answer
+                ? 'bg-white hover:bg-blue-100 border-blue-200'
+                : index === check.answerIndex
+                  ? 'bg-green-50 border-green-400 text-green-900'
+                  : index === answer.selected
+                    ? 'bg-red-50 border-red-400 text-red-900'
+                    : 'bg-white border-blue-200 opacity-60';
+            return (
+              <Button
+                key={label}
+                variant="outline"
+                className={`w-full text-left justify-start text-sm disabled:opacity-100 ${tone}`}
+                onClick={() => message ? handleAnswerSelect(message, check, index) : handleStreamingAnswerSelect(check, index)}
+                disabled={message ? isSubmitting || !!answer : !!pendingAnswer}
+                data-testid={`button-answer-${label}`}
+              >
+                <span className="font-semibold mr-2">{label})</span>
+                <LaTeXRenderer content={option} inline />
+              </Button>
+            );
+          })}
+        </div>
+        {pending !== null && (
+          <p className="mt-3 text-xs text-muted-foreground" data-testid={`text-check-pending-${check.id}`}>
+            Your answer is checked once the tutor has finished
+          </p>
+        )}
+        {answer && (
+          <div className="mt-3 text-sm" data-testid={`text-check-result-${check.id}`}>
+            <p className={`font-semibold ${answer.correct ? 'text-green-700' : 'text-red-700'}`}>
+              <i className={`fas ${answer.correct ? 'fa-check-circle' : 'fa-times-circle'} mr-2`}></i>
+              {answer.correct ? 'Correct!' : `Not quite. The answer is ${optionLabel(check.answerIndex ?? 0)}.`}
+            </p>
+            {check.explanation && (
+              <LaTeXRenderer content={check.explanation} className="text-blue-800 mt-1" />
+            )}
+          </div>
+        )}
+      </Card>
+    );
+  };
+
+  const renderBlock = (message: Message | null, block: TutorBlock, index: number) => {
+    const messageKey = message?.id ?? 'streaming';
+    switch (block.kind) {
+      case 'check':
+        return renderCheck(message, block);
+      case 'recap':
+        return (
+          <div key={index} className="mt-4 p-4 rounded-lg bg-muted" data-testid={`recap-${messageKey}`}>
+            <p className="text-sm font-semibold text-foreground mb-2">
+              <i className="fas fa-list-check mr-2"></i>Recap
+            </p>
+            <LaTeXRenderer content={block.text} className="text-sm text-foreground leading-relaxed" />
+          </div>
+        );
+      case 'hint':
+        return (
+          <div key={index} className="mt-4 p-4 rounded-lg bg-amber-50 border border-amber-200" data-testid={`hint-${messageKey}`}>
+            <p className="text-sm font-semibold text-amber-900 mb-2">
+              <i className="fas fa-lightbulb mr-2"></i>Hint
+            </p>
+            <LaTeXRenderer content={block.text} className="text-sm text-amber-900 leading-relaxed" />
+          </div>
+        );
+      default:
+        return <LaTeXRenderer key={index} content={block.text} className="text-sm text-foreground leading-relaxed" />;
+    }
   };
 
   const renderMessage = (message: Message) => {
-    const checkQuestion = parseCheckQuestion(message.content);
-    const contentWithoutQuestion = checkQuestion 
-      ? message.content.replace(/Check Your Understanding[\s\S]*?(?=\n\n|$)/, '').trim()
-      : message.content;
+    // Tutor replies come as blocks; older ones only have their text
+    const blocks: TutorBlock[] | undefined = message.metadata?.blocks;
 
     if (message.role === 'user') {
       return (
@@ -111,9 +351,37 @@ export default function ChatInterface({ chatId, config, onNewSession }: ChatInte
               </span>
               <span className="text-sm font-semibold text-foreground">You</span>
             </div>
-            <div className="bg-primary text-primary-foreground px-4 py-3 rounded-xl">
-              <LaTeXRenderer content={message.content} className="text-sm leading-relaxed" />
-            </div>
+            {editingId === message.id ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleEditSubmit(message);
+                }}
+                className="space-y-2"
+              >
+                <Input
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  autoFocus
+                  data-testid={`input-edit-${message.id}`}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" size="sm" disabled={!editText.trim()} data-testid={`button-resend-${message.id}`}>
+                    Send
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <>
+                <div className="bg-primary text-primary-foreground px-4 py-3 rounded-xl">
+                  <LaTeXRenderer content={message.content} className="text-sm leading-relaxed" />
+                </div>
+                {renderMessageActions(message)}
+              </>
+            )}
           </div>
           <div className="w-10 h-10 rounded-full bg-gradient-to-br from-green-400 to-teal-600 flex items-center justify-center text-white font-semibold text-sm">
             AS
@@ -135,47 +403,33 @@ export default function ChatInterface({ chatId, config, onNewSession }: ChatInte
             </span>
           </div>
           <div className="prose prose-sm max-w-none">
-            <LaTeXRenderer content={contentWithoutQuestion} className="text-sm text-foreground leading-relaxed" />
-            
-            {/* Check Question */}
-            {checkQuestion && (
-              <Card className="mt-4 p-4 bg-blue-50 border border-blue-200">
-                <p className="text-sm font-semibold text-blue-900 mb-3">
-                  <i className="fas fa-question-circle mr-2"></i>Check Your Understanding
-                </p>
-                <p className="text-sm text-blue-800 mb-4">{checkQuestion.question}</p>
-                <div className="space-y-2">
-                  {checkQuestion.options.map((option) => (
-                    <Button
-                      key={option.label}
-                      variant="outline"
-                      className="w-full text-left justify-start bg-white hover:bg-blue-100 border-blue-200 text-sm"
-                      onClick={() => handleAnswerSelect(option.label)}
-                      disabled={isSubmitting}
-                      data-testid={`button-answer-${option.label}`}
-                    >
-                      <span className="font-semibold mr-2">{option.label})</span>
-                      {option.text}
-                    </Button>
-                  ))}
-                </div>
-              </Card>
+            {blocks
+              ? blocks.map((block, index) => renderBlock(message, block, index))
+              : <LaTeXRenderer content={message.content} className="text-sm text-foreground leading-relaxed" />}
+            {message.metadata?.interrupted && (
+              <p className="text-xs text-muted-foreground italic mt-1" data-testid={`text-interrupted-${message.id}`}>
+                Stopped before the answer was finished
+              </p>
             )}
           </div>
+          {renderMessageActions(message)}
         </div>
       </div>
     );
   };
 
+  const replacedIndex = messages && replacedFrom ? messages.findIndex(message => message.id === replacedFrom) : -1;
+  const shownMessages = replacedIndex >= 0 ? messages!.slice(0, replacedIndex) : messages;
+
   return (
     <div className="flex-1 flex flex-col bg-background">
       {/* Chat Messages */}
       <div className="flex-1 overflow-y-auto custom-scrollbar p-6" data-testid="chat-messages">
         <div className="max-w-3xl mx-auto space-y-6">
-          {messages?.map(renderMessage)}
+          {shownMessages?.map(renderMessage)}
           
           {/* Streaming Message */}
-          {isStreaming && streamingContent && (
+          {isStreaming && (streamingBlocks.length > 0 || streamingContent.trim()) && (
             <div className="flex gap-4">
               <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-purple-600 flex items-center justify-center flex-shrink-0">
                 <i className="fas fa-robot text-white text-sm"></i>
@@ -186,11 +440,14 @@ export default function ChatInterface({ chatId, config, onNewSession }: ChatInte
                   <span className="text-xs text-muted-foreground">now</span>
                 </div>
                 <div className="prose prose-sm max-w-none">
-                  <StreamingText
-                    text={streamingContent}
-                    isStreaming={isStreaming}
-                    className="text-sm text-foreground leading-relaxed"
-                  />
+                  {streamingBlocks.map((block, index) => renderBlock(null, block, index))}
+                  {streamingContent.trim() && (
+                    <StreamingText
+                      text={streamingContent.trimStart()}
+                      isStreaming={isStreaming}
+                      className="text-sm text-foreground leading-relaxed"
+                    />
+                  )}
                 </div>
               </div>
             </div>
@@ -234,15 +491,28 @@ export default function ChatInterface({ chatId, config, onNewSession }: ChatInte
               <i className="fas fa-microphone text-muted-foreground"></i>
             </Button>
 
-            <Button
-              type="submit"
-              disabled={!inputMessage.trim() || isSubmitting || isStreaming}
-              className="flex-shrink-0"
-              data-testid="button-send"
-            >
-              <span>Send</span>
-              <i className="fas fa-paper-plane ml-2 text-sm"></i>
-            </Button>
+            {isStreaming ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => stopStreaming(chatId).catch(error => console.error('Failed to stop reply:', error))}
+                className="flex-shrink-0"
+                data-testid="button-stop"
+              >
+                <i className="fas fa-stop mr-2 text-sm"></i>
+                <span>Stop</span>
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!inputMessage.trim() || isSubmitting}
+                className="flex-shrink-0"
+                data-testid="button-send"
+              >
+                <span>Send</span>
+                <i className="fas fa-paper-plane ml-2 text-sm"></i>
+              </Button>
+            )}
           </form>
 
           <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
@@ -65,7 +65,6 @@ export default function TutorLauncherModal({ onClose, onStart }: TutorLauncherMo
         level: selectedLevel,
         topic: topic || 'General Discussion',
         language: selectedLanguage,
-        userId: 'default-user',
         metadata: {
           board: selectedLevel.includes('JEE') ? 'JEE' : selectedLevel.includes('NEET') ? 'NEET' : 'CBSE'
         }
@@ -0,0 +1,121 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  class: string | null;
+  board: string | null;
+  streak: number | null;
+}
+
+export interface LoginData {
+  username: string;
+  password: string;
+}
+
+export interface SignupData extends LoginData {
+  name: string;
+  class?: string;
+  board?: string;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
+  signupMutation: UseMutationResult<AuthUser, Error, SignupData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Server errors arrive as "401: {"error":"..."}"; show just the message
+function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: async () => {
+      const response = await fetch('/api/auth/me', { credentials: 'include' });
+      if (response.status === 401) return null;
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
+      return response.json();
+    }
+  });
+
+  const onAuthenticated = (authUser: AuthUser) => {
+    queryClient.clear();
+    queryClient.setQueryData(['/api/auth/me'], authUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest('POST', '/auth/login', credentials);
+      return response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: 'Login failed', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (data: SignupData) => {
+      const response = await apiRequest('POST', '/auth/signup', data);
+      return response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: 'Sign up failed', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Logout failed', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        signupMutation,
+        logoutMutation
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
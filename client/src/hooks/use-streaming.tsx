@@ -1,24 +1,37 @@
 import { useState, useCallback } from 'react';
-import { streamChatMessage } from '@/lib/api';
+import { cancelChatReply, streamChatMessage, streamRegeneratedMessage, type OutgoingMessage } from '@/lib/api';
+import type { MessageCitation } from '@shared/citations';
+import type { TutorBlock } from '@shared/tutor';
 
+// A tutor reply arrives as finished blocks plus the text of the block still
+// being written; `content` then holds only that text
 export interface StreamingState {
   isStreaming: boolean;
   content: string;
   error: string | null;
-  citations: any[];
+  citations: MessageCitation[];
+  blocks: TutorBlock[];
 }
 
+type ChatStream = (
+  onChunk: (chunk: string) => void,
+  onCitation: (citations: MessageCitation[]) => void,
+  onBlock: (block: TutorBlock) => void,
+  onComplete: () => void,
+  onError: (error: string) => void
+) => Promise<void>;
+
 export function useStreaming() {
   const [state, setState] = useState<StreamingState>({
     isStreaming: false,
     content: '',
     error: null,
     citations: [],
+    blocks: [],
   });
 
-  const startStreaming = useCallback(async (
-    chatId: string,
-    message: string,
+  const run = useCallback(async (
+    stream: ChatStream,
     onComplete?: (content: string) => void
   ) => {
     setState({
@@ -26,11 +39,10 @@ export function useStreaming() {
       content: '',
       error: null,
       citations: [],
+      blocks: [],
     });
 
-    await streamChatMessage(
-      chatId,
-      message,
+    await stream(
       (chunk) => {
         setState(prev => ({
           ...prev,
@@ -43,6 +55,13 @@ export function useStreaming() {
           citations,
         }));
       },
+      (block) => {
+        setState(prev => ({
+          ...prev,
+          content: '',
+          blocks: [...prev.blocks, block],
+        }));
+      },
       () => {
         setState(prev => ({
           ...prev,
@@ -62,18 +81,38 @@ export function useStreaming() {
     );
   }, [state.content]);
 
+  const startStreaming = useCallback((
+    chatId: string,
+    message: string | OutgoingMessage,
+    onComplete?: (content: string) => void
+  ) => run((...handlers) => streamChatMessage(chatId, message, ...handlers), onComplete), [run]);
+
+  // Streams another answer to the question behind `messageId`
+  const startRegenerating = useCallback((
+    chatId: string,
+    messageId: string,
+    onComplete?: (content: string) => void
+  ) => run((...handlers) => streamRegeneratedMessage(chatId, messageId, ...handlers), onComplete), [run]);
+
+  // Asks the server to stop the reply; the stream then completes as usual
+  // with the partial answer saved
+  const stop = useCallback((chatId: string) => cancelChatReply(chatId), []);
+
   const reset = useCallback(() => {
     setState({
       isStreaming: false,
       content: '',
       error: null,
       citations: [],
+      blocks: [],
     });
   }, []);
 
   return {
     ...state,
     startStreaming,
+    startRegenerating,
+    stop,
     reset,
   };
 }
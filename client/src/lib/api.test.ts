@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TutorBlock } from '@shared/tutor';
+import { streamChatMessage } from './api';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// A reply stream as the server writes it, split into reads mid-event
+function sseResponse(events: object[]): Response {
+  const text = events.map((event, index) => `id: reply-1:${index + 1}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let start = 0; start < text.length; start += 40) controller.enqueue(encoder.encode(text.slice(start, start + 40)));
+      controller.close();
+    }
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('streamChatMessage', () => {
+  it('passes tutor blocks on as they arrive, between the text chunks', async () => {
+    const check: TutorBlock = { kind: 'check', id: 'check-1', question: 'Unit of force?', options: ['Newton', 'Joule'] };
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+      { type: 'content', data: 'Force is ' },
+      { type: 'content', data: 'a push.' },
+      { type: 'block', data: { kind: 'teach', text: 'Force is a push.' } },
+      { type: 'block', data: check },
+      { type: 'content', data: '\n\nRemember F = ma.' },
+      { type: 'block', data: { kind: 'recap', text: 'Remember F = ma.' } },
+      { type: 'done', data: { messageId: 'message-1' } }
+    ])));
+
+    const received: string[] = [];
+    const blocks: TutorBlock[] = [];
+    const onComplete = vi.fn();
+    await streamChatMessage(
+      'chat-1',
+      'What is force?',
+      chunk => received.push(`text:${chunk}`),
+      undefined,
+      block => {
+        blocks.push(block);
+        received.push(`block:${block.kind}`);
+      },
+      onComplete
+    );
+
+    expect(received).toEqual([
+      'text:Force is ',
+      'text:a push.',
+      'block:teach',
+      'block:check',
+      'text:\n\nRemember F = ma.',
+      'block:recap'
+    ]);
+    expect(blocks[1]).toEqual(check);
+    expect(onComplete).toHaveBeenCalledOnce();
+  });
+});
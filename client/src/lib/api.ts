@@ -1,3 +1,6 @@
+import type { MessageCitation } from '@shared/citations';
+import type { TutorBlock, TutorCheckBlock } from '@shared/tutor';
+
 export const API_BASE = '/api';
 
 export async function apiRequest(
@@ -21,9 +24,10 @@ export async function apiRequest(
   return response;
 }
 
-export async function uploadFile(file: File, endpoint: string): Promise<Response> {
+export async function uploadFile(file: File, endpoint: string, fields: Record<string, string> = {}): Promise<Response> {
   const formData = new FormData();
   formData.append('file', file);
+  Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
   
   const response = await fetch(`${API_BASE}${endpoint}`, {
     method: 'POST',
@@ -69,73 +73,192 @@ export function createEventSource(endpoint: string, options?: {
   return eventSource;
 }
 
+// A question to send. With `parentId` it starts a new branch from that
+// message (null for the first message), as when editing an earlier question.
+export interface OutgoingMessage {
+  content: string;
+  parentId?: string | null;
+}
+
 // Stream chat messages
 export async function streamChatMessage(
   chatId: string,
-  message: string,
+  message: string | OutgoingMessage,
   onChunk: (chunk: string) => void,
-  onCitation?: (citations: any[]) => void,
+  onCitation?: (citations: MessageCitation[]) => void,
+  onBlock?: (block: TutorBlock) => void,
   onComplete?: () => void,
   onError?: (error: string) => void
 ): Promise<void> {
-  try {
-    const response = await fetch(`${API_BASE}/chats/${chatId}/messages`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'text/event-stream',
-      },
-      body: JSON.stringify({
-        role: 'user',
-        content: message,
-      }),
-      credentials: 'include',
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+  const { content, parentId } = typeof message === 'string' ? { content: message, parentId: undefined } : message;
+  return streamChatReply(
+    chatId,
+    `/chats/${chatId}/messages`,
+    { role: 'user', content, parentId },
+    onChunk, onCitation, onBlock, onComplete, onError
+  );
+}
 
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
+// Stream a new reply to the question answered by `messageId`
+export async function streamRegeneratedMessage(
+  chatId: string,
+  messageId: string,
+  onChunk: (chunk: string) => void,
+  onCitation?: (citations: MessageCitation[]) => void,
+  onBlock?: (block: TutorBlock) => void,
+  onComplete?: () => void,
+  onError?: (error: string) => void
+): Promise<void> {
+  return streamChatReply(
+    chatId,
+    `/chats/${chatId}/messages/${messageId}/regenerate`,
+    undefined,
+    onChunk, onCitation, onBlock, onComplete, onError
+  );
+}
 
-    if (!reader) {
-      throw new Error('No response body');
+// Stops the reply being generated. Its stream then ends the way a finished
+// one does, and the partial answer is saved marked as interrupted.
+export async function cancelChatReply(chatId: string): Promise<void> {
+  await apiRequest('POST', `/chats/${chatId}/cancel`);
+}
+
+// Grades an answer to a check question in a tutor reply; the returned
+// block carries the result, the correct option and the explanation
+export async function answerCheckQuestion(
+  chatId: string,
+  messageId: string,
+  checkId: string,
+  option: number
+): Promise<TutorCheckBlock> {
+  const response = await apiRequest('POST', `/chats/${chatId}/messages/${messageId}/answer`, { checkId, option });
+  return response.json();
+}
+
+const MAX_RESUME_ATTEMPTS = 3;
+
+// An event of a reply stream, as sent by server/services/reply-streams.ts
+type ReplyStreamEvent =
+  | { type: 'content'; data: string }
+  | { type: 'citations'; data: MessageCitation[] }
+  | { type: 'block'; data: TutorBlock }
+  | { type: 'done' | 'interrupted'; data: { messageId: string | null } }
+  | { type: 'error'; message: string };
+
+// Posts to `endpoint` and reads the reply's events. If the connection drops
+// before the reply ends, it reconnects to the chat's stream with the last
+// event id received and continues from the next chunk.
+async function streamChatReply(
+  chatId: string,
+  endpoint: string,
+  body: unknown,
+  onChunk: (chunk: string) => void,
+  onCitation?: (citations: MessageCitation[]) => void,
+  onBlock?: (block: TutorBlock) => void,
+  onComplete?: () => void,
+  onError?: (error: string) => void
+): Promise<void> {
+  let lastEventId = '';
+  let resumes = 0;
+
+  // Returns true once the reply has ended
+  const handleEvent = (id: string | null, event: ReplyStreamEvent): boolean => {
+    if (id) lastEventId = id;
+    if (event.type === 'content') {
+      onChunk(event.data);
+    } else if (event.type === 'citations' && onCitation) {
+      onCitation(event.data);
+    } else if (event.type === 'block' && onBlock) {
+      onBlock(event.data);
+    } else if (event.type === 'done' || event.type === 'interrupted') {
+      if (onComplete) onComplete();
+      return true;
+    } else if (event.type === 'error') {
+      if (onError) onError(event.message);
+      return true;
     }
+    return false;
+  };
+
+  while (true) {
+    try {
+      const response = lastEventId
+        ? await fetch(`${API_BASE}/chats/${chatId}/stream`, {
+            headers: { 'Accept': 'text/event-stream', 'Last-Event-ID': lastEventId },
+            credentials: 'include',
+          })
+        : await fetch(`${API_BASE}${endpoint}`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Accept': 'text/event-stream',
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+            credentials: 'include',
+          });
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          try {
-            const parsed = JSON.parse(data);
-            
-            if (parsed.type === 'content') {
-              onChunk(parsed.data);
-            } else if (parsed.type === 'citations' && onCitation) {
-              onCitation(parsed.data);
-            } else if (parsed.type === 'done' && onComplete) {
-              onComplete();
-              return;
-            } else if (parsed.type === 'error' && onError) {
-              onError(parsed.message);
-              return;
-            }
-          } catch (error) {
-            // Ignore parsing errors for partial chunks
-          }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      if (!response.body) {
+        throw new Error('No response body');
+      }
+
+      if (await readServerEvents(response.body, handleEvent)) return;
+      throw new Error('Stream ended before the reply finished');
+    } catch (error) {
+      // Nothing to resume from until the first event has arrived
+      if (!lastEventId || resumes >= MAX_RESUME_ATTEMPTS) {
+        if (onError) {
+          onError(error instanceof Error ? error.message : 'Stream failed');
         }
+        return;
       }
+      resumes++;
+      await new Promise(resolve => setTimeout(resolve, 1000 * resumes));
     }
-  } catch (error) {
-    if (onError) {
-      onError(error instanceof Error ? error.message : 'Stream failed');
+  }
+}
+
+// Reads SSE events until `onEvent` returns true (resolves true) or the
+// stream ends (resolves false). Events may arrive split across reads.
+async function readServerEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (id: string | null, event: ReplyStreamEvent) => boolean
+): Promise<boolean> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return false;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let id: string | null = null;
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('id: ')) id = line.slice(4);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      // Heartbeat comments carry no data
+      if (!data) continue;
+
+      let event: ReplyStreamEvent;
+      try {
+        event = JSON.parse(data);
+      } catch (error) {
+        continue;
+      }
+      if (onEvent(id, event)) {
+        reader.cancel().catch(() => {});
+        return true;
+      }
     }
   }
 }
@@ -0,0 +1,74 @@
+import { Util, type PageViewport } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+
+export interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  strong: boolean; // part of the quoted sentence rather than just the chunk
+}
+
+// Pieces shorter than this (after normalizing) match too many places
+const MIN_PIECE_LENGTH = 12;
+
+// Letters and digits only, so line breaks, hyphenation spacing and
+// ligatures in the PDF text do not stop the chunk text from matching
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[^a-z0-9\u00c0-\u024f\u0900-\u097f]/g, '');
+}
+
+// Rectangles, in viewport pixels, of the text items on a page that make up
+// the cited chunk. The chunk is matched sentence by sentence so a passage
+// whose text was reflowed by extraction still highlights where it matches.
+export function findPassageRects(
+  items: Array<TextItem | TextMarkedContent>,
+  viewport: PageViewport,
+  passage: string,
+  quote?: string
+): HighlightRect[] {
+  const textItems = items.filter((item): item is TextItem => 'str' in item);
+
+  let pageKey = '';
+  const owner: number[] = []; // text item index of every character in pageKey
+  textItems.forEach((item, index) => {
+    const key = normalize(item.str);
+    pageKey += key;
+    for (let i = 0; i < key.length; i++) owner.push(index);
+  });
+
+  const locate = (text: string): Set<number> => {
+    const found = new Set<number>();
+    let from = 0;
+    for (const piece of text.match(/[^.!?\n]+[.!?]*/g) || []) {
+      const key = normalize(piece);
+      if (key.length < MIN_PIECE_LENGTH) continue;
+
+      // Prefer the next match after the previous piece, keeping reading order
+      let at = pageKey.indexOf(key, from);
+      if (at < 0) at = pageKey.indexOf(key);
+      if (at < 0) continue;
+
+      for (let i = at; i < at + key.length; i++) found.add(owner[i]);
+      from = at + key.length;
+    }
+    return found;
+  };
+
+  const passageItems = locate(passage);
+  const quoteItems = quote ? locate(quote) : new Set<number>();
+
+  return textItems.flatMap((item, index) => {
+    if (!passageItems.has(index) && !quoteItems.has(index)) return [];
+
+    const transform = Util.transform(viewport.transform, item.transform);
+    const height = Math.hypot(transform[2], transform[3]);
+    return [{
+      left: transform[4],
+      top: transform[5] - height,
+      width: item.width * viewport.scale,
+      height,
+      strong: quoteItems.has(index)
+    }];
+  });
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+
+export default function AuthPage() {
+  const { loginMutation, signupMutation } = useAuth();
+  const [loginForm, setLoginForm] = useState({ username: '', password: '' });
+  const [signupForm, setSignupForm] = useState({
+    name: '',
+    username: '',
+    password: '',
+    class: '',
+    board: ''
+  });
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(loginForm);
+  };
+
+  const handleSignup = (e: React.FormEvent) => {
+    e.preventDefault();
+    signupMutation.mutate({
+      name: signupForm.name,
+      username: signupForm.username,
+      password: signupForm.password,
+      class: signupForm.class || undefined,
+      board: signupForm.board || undefined
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/20 p-6">
+      <div className="w-full max-w-md space-y-6">
+        <div className="flex items-center justify-center gap-3">
+          <div className="w-12 h-12 rounded-xl bg-primary flex items-center justify-center">
+            <i className="fas fa-graduation-cap text-primary-foreground text-2xl"></i>
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">VaktaAI</h1>
+            <p className="text-sm text-muted-foreground">Learn Smarter</p>
+          </div>
+        </div>
+
+        <Card>
+          <Tabs defaultValue="login">
+            <CardHeader>
+              <TabsList className="grid grid-cols-2">
+                <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+                <TabsTrigger value="signup" data-testid="tab-signup">Sign up</TabsTrigger>
+              </TabsList>
+            </CardHeader>
+
+            <CardContent>
+              <TabsContent value="login">
+                <CardTitle className="text-lg mb-4">Welcome back</CardTitle>
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="login-username">Username</Label>
+                    <Input
+                      id="login-username"
+                      autoComplete="username"
+                      value={loginForm.username}
+                      onChange={(e) => setLoginForm({ ...loginForm, username: e.target.value })}
+                      data-testid="input-login-username"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={loginForm.password}
+                      onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
+                      data-testid="input-login-password"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={!loginForm.username || !loginForm.password || loginMutation.isPending}
+                    data-testid="button-login"
+                  >
+                    {loginMutation.isPending ? <i className="fas fa-spinner fa-spin"></i> : 'Log in'}
+                  </Button>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="signup">
+                <CardTitle className="text-lg mb-4">Create your account</CardTitle>
+                <form onSubmit={handleSignup} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-name">Full name</Label>
+                    <Input
+                      id="signup-name"
+                      autoComplete="name"
+                      value={signupForm.name}
+                      onChange={(e) => setSignupForm({ ...signupForm, name: e.target.value })}
+                      data-testid="input-signup-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-username">Username</Label>
+                    <Input
+                      id="signup-username"
+                      autoComplete="username"
+                      value={signupForm.username}
+                      onChange={(e) => setSignupForm({ ...signupForm, username: e.target.value })}
+                      data-testid="input-signup-username"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-password">Password</Label>
+                    <Input
+                      id="signup-password"
+                      type="password"
+                      autoComplete="new-password"
+                      value={signupForm.password}
+                      onChange={(e) => setSignupForm({ ...signupForm, password: e.target.value })}
+                      data-testid="input-signup-password"
+                    />
+                    <p className="text-xs text-muted-foreground">At least 8 characters</p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-class">Class</Label>
+                      <Input
+                        id="signup-class"
+                        placeholder="Class 12"
+                        value={signupForm.class}
+                        onChange={(e) => setSignupForm({ ...signupForm, class: e.target.value })}
+                        data-testid="input-signup-class"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-board">Board / Exam</Label>
+                      <Input
+                        id="signup-board"
+                        placeholder="CBSE, JEE..."
+                        value={signupForm.board}
+                        onChange={(e) => setSignupForm({ ...signupForm, board: e.target.value })}
+                        data-testid="input-signup-board"
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={!signupForm.name || !signupForm.username || !signupForm.password || signupMutation.isPending}
+                    data-testid="button-signup"
+                  >
+                    {signupMutation.isPending ? <i className="fas fa-spinner fa-spin"></i> : 'Create account'}
+                  </Button>
+                </form>
+              </TabsContent>
+            </CardContent>
+          </Tabs>
+        </Card>
+      </div>
+    </div>
+  );
+}
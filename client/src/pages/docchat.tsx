@@ -1,17 +1,25 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import DocumentSources from '@/components/docchat/document-sources';
-import PDFViewer from '@/components/docchat/pdf-viewer';
+import DocumentSources, { type SourceCollection, type SourceDocument } from '@/components/docchat/document-sources';
+import PDFViewer, { type CitationFocus } from '@/components/docchat/pdf-viewer';
 import ChatPanel from '@/components/docchat/chat-panel';
+import ChatHistory, { type PastSession } from '@/components/chat/chat-history';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { SeekRequest } from '@/components/docchat/video-player';
 import { apiRequest } from '@/lib/api';
+import type { MessageCitation } from '@shared/citations';
 
 export default function DocChatPage() {
   const [selectedDocuments, setSelectedDocuments] = useState<string[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
   const [currentDocument, setCurrentDocument] = useState<string | null>(null);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  const [seek, setSeek] = useState<SeekRequest | null>(null);
+  const [focus, setFocus] = useState<CitationFocus | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Fetch user documents
-  const { data: documents, isLoading } = useQuery({
+  const { data: documents, isLoading } = useQuery<SourceDocument[]>({
     queryKey: ['/api/documents'],
     queryFn: async () => {
       const response = await apiRequest('GET', '/documents');
@@ -19,6 +27,14 @@ export default function DocChatPage() {
     }
   });
 
+  const { data: collections } = useQuery<SourceCollection[]>({
+    queryKey: ['/api/collections'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/collections');
+      return response.json();
+    }
+  });
+
   const handleDocumentSelect = (documentId: string) => {
     setCurrentDocument(documentId);
     if (!selectedDocuments.includes(documentId)) {
@@ -26,15 +42,52 @@ export default function DocChatPage() {
     }
   };
 
+  // Picking documents by hand leaves the collection; picking a collection
+  // selects its documents
+  const handleSelectionChange = (documentIds: string[]) => {
+    setSelectedDocuments(documentIds);
+    setActiveCollectionId(null);
+  };
+
+  const handleCollectionSelect = (collection: SourceCollection | null) => {
+    setActiveCollectionId(collection ? collection.id : null);
+    setSelectedDocuments(collection ? collection.documentIds : []);
+  };
+
+  // Opens the cited document at the passage; transcript citations also
+  // carry the time to seek the video to
+  const handleCitationSelect = (citation: MessageCitation) => {
+    setCurrentDocument(citation.documentId);
+    setFocus({ citation, key: Date.now() });
+    if (typeof citation.startTime === 'number') {
+      setSeek({ documentId: citation.documentId, time: citation.startTime, key: Date.now() });
+    }
+  };
+
+  // Reopens a past chat with the documents or collection it searched
+  const handleHistorySelect = (session: PastSession) => {
+    const metadata = (session.metadata ?? {}) as { collectionId?: string; documentIds?: string[] };
+    const collection = metadata.collectionId
+      ? (collections || []).find(candidate => candidate.id === metadata.collectionId)
+      : null;
+    if (collection) {
+      handleCollectionSelect(collection);
+    } else {
+      handleSelectionChange(metadata.documentIds || []);
+    }
+    setActiveChatId(session.id);
+    setShowHistory(false);
+  };
+
   const handleStartChat = async () => {
     try {
       const response = await apiRequest('POST', '/chats', {
         mode: 'docchat',
-        userId: 'default-user',
         language: 'en',
-        metadata: {
-          documentIds: selectedDocuments
-        }
+        // A session on a collection follows later changes to it
+        metadata: activeCollectionId
+          ? { collectionId: activeCollectionId }
+          : { documentIds: selectedDocuments }
       });
       const chatSession = await response.json();
       setActiveChatId(chatSession.id);
@@ -48,9 +101,12 @@ export default function DocChatPage() {
       {/* Left: Document Sources */}
       <DocumentSources
         documents={documents || []}
+        collections={collections || []}
         selectedDocuments={selectedDocuments}
+        activeCollectionId={activeCollectionId}
         onDocumentSelect={handleDocumentSelect}
-        onSelectionChange={setSelectedDocuments}
+        onSelectionChange={handleSelectionChange}
+        onCollectionSelect={handleCollectionSelect}
         isLoading={isLoading}
       />
 
@@ -58,6 +114,8 @@ export default function DocChatPage() {
       <PDFViewer
         documentId={currentDocument}
         documents={documents || []}
+        seek={seek}
+        focus={focus}
       />
 
       {/* Right: Chat Panel */}
@@ -66,7 +124,18 @@ export default function DocChatPage() {
         selectedDocuments={selectedDocuments}
         onStartChat={handleStartChat}
         hasDocuments={selectedDocuments.length > 0}
+        onCitationSelect={handleCitationSelect}
+        onOpenHistory={() => setShowHistory(true)}
       />
+
+      <Sheet open={showHistory} onOpenChange={setShowHistory}>
+        <SheetContent side="right" className="p-0 flex flex-col">
+          <SheetHeader className="px-4 pt-4">
+            <SheetTitle>Past Chats</SheetTitle>
+          </SheetHeader>
+          <ChatHistory mode="docchat" activeChatId={activeChatId} onSelect={handleHistorySelect} />
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
@@ -2,13 +2,12 @@ import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { apiRequest } from '@/lib/api';
 import { queryClient } from '@/lib/queryClient';
-import { Brain, Plus, RotateCcw, Star, StarHalf } from 'lucide-react';
+import { Brain, Plus, RotateCcw, Star } from 'lucide-react';
 
 export default function FlashcardsPage() {
   const [mode, setMode] = useState<'browse' | 'review'>('browse');
@@ -19,7 +18,7 @@ export default function FlashcardsPage() {
   const { data: allCards = [] } = useQuery({
     queryKey: ['/api/flashcards'],
     queryFn: async () => {
-      const res = await apiRequest('GET', '/flashcards?userId=default-user');
+      const res = await apiRequest('GET', '/flashcards');
       return res.json();
     }
   });
@@ -27,7 +26,7 @@ export default function FlashcardsPage() {
   const { data: dueCards = [] } = useQuery({
     queryKey: ['/api/flashcards', 'due'],
     queryFn: async () => {
-      const res = await apiRequest('GET', '/flashcards/due?userId=default-user');
+      const res = await apiRequest('GET', '/flashcards/due');
       return res.json();
     }
   });
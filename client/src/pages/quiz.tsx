@@ -42,8 +42,7 @@ export default function QuizPage() {
         difficulty,
         count,
         language: 'en',
-        exam: 'JEE',
-        userId: 'default-user'
+        exam: 'JEE'
       });
       const quiz = await response.json();
       setActiveQuizId(quiz.id);
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import TutorLauncherModal from '@/components/tutor/tutor-launcher-modal';
 import ChatInterface from '@/components/tutor/chat-interface';
 import LessonPlanPanel from '@/components/tutor/lesson-plan-panel';
+import ChatHistory, { type PastSession } from '@/components/chat/chat-history';
 import { Button } from '@/components/ui/button';
 
 export default function TutorPage() {
@@ -15,6 +16,19 @@ export default function TutorPage() {
     setShowLauncher(false);
   };
 
+  // Reopens a past session with the settings it was started with
+  const handleHistorySelect = (session: PastSession) => {
+    setSessionConfig({
+      subject: session.subject,
+      level: session.level,
+      topic: session.topic,
+      language: session.language || 'en',
+      board: (session.metadata as { board?: string } | null)?.board || 'CBSE'
+    });
+    setActiveChatId(session.id);
+    setShowLauncher(false);
+  };
+
   const handleNewSession = () => {
     setActiveChatId(null);
     setSessionConfig(null);
@@ -23,6 +37,14 @@ export default function TutorPage() {
 
   return (
     <div className="flex-1 flex overflow-hidden">
+      {/* Session history */}
+      <aside className="w-64 border-r border-border bg-card flex flex-col">
+        <div className="px-4 pt-4">
+          <h2 className="text-sm font-bold text-foreground">Past Sessions</h2>
+        </div>
+        <ChatHistory mode="tutor" activeChatId={activeChatId} onSelect={handleHistorySelect} />
+      </aside>
+
       {activeChatId && sessionConfig ? (
         <>
           {/* Left: Lesson Plan */}
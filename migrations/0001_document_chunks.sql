@@ -0,0 +1,15 @@
+CREATE EXTENSION IF NOT EXISTS vector;
+--> statement-breakpoint
+CREATE TABLE "document_chunks" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"document_id" varchar NOT NULL,
+	"text" text NOT NULL,
+	"embedding" vector NOT NULL,
+	"embedding_model" text NOT NULL,
+	"dimension" integer NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD CONSTRAINT "document_chunks_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "document_chunks_document_id_idx" ON "document_chunks" USING btree ("document_id");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "ingestion_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" varchar NOT NULL,
+	"user_id" varchar,
+	"kind" text NOT NULL,
+	"source" jsonb NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"stage" text,
+	"progress" real DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"error" text,
+	"run_after" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ingestion_jobs_document_id_idx" ON "ingestion_jobs" USING btree ("document_id");--> statement-breakpoint
+CREATE INDEX "ingestion_jobs_status_idx" ON "ingestion_jobs" USING btree ("status");
\ No newline at end of file
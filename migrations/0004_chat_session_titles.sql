@@ -0,0 +1,3 @@
+ALTER TABLE "chat_sessions" ADD COLUMN "title" text;--> statement-breakpoint
+ALTER TABLE "chat_sessions" ADD COLUMN "summary" text;--> statement-breakpoint
+CREATE INDEX "messages_content_search_idx" ON "messages" USING gin (to_tsvector('simple', "content"));
\ No newline at end of file
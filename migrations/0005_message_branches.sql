@@ -0,0 +1,7 @@
+ALTER TABLE "chat_sessions" ADD COLUMN "active_leaf_id" varchar;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "parent_id" varchar;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_parent_id_messages_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "messages_parent_id_idx" ON "messages" USING btree ("parent_id");--> statement-breakpoint
+UPDATE "messages" SET "parent_id" = "previous"."id" FROM (
+  SELECT "id" AS "child_id", lag("id") OVER (PARTITION BY "chat_session_id" ORDER BY "created_at") AS "id" FROM "messages"
+) AS "previous" WHERE "messages"."id" = "previous"."child_id" AND "previous"."id" IS NOT NULL;
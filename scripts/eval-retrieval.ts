@@ -0,0 +1,92 @@
+// Retrieval evaluation CLI. Ingests a golden set's fixture documents into a
+// throwaway vector store, runs its questions through RAGService.hybridSearch
+// and reports recall@k, MRR and nDCG@k. Exits with status 1 when a metric
+// falls below the set's thresholds.
+//
+//   npm run eval:retrieval
+//   npm run eval:retrieval -- --set path/to/golden.json --k 8 --keyword-weight 0.5 --verbose
+//
+// Embedding model, reranker and search defaults come from the usual
+// environment variables (EMBEDDING_MODEL_PATH, RERANKER_MODEL_PATH, ...).
+
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { RAGService, type SearchOptions } from '../server/services/rag';
+import { FileVectorStore } from '../server/services/vector-store';
+import { evaluateRetrieval, ingestGoldenSet, loadGoldenSet, type EvalReport } from '../server/services/retrieval-eval';
+
+const { values } = parseArgs({
+  options: {
+    set: { type: 'string', default: 'scripts/fixtures/retrieval/golden.json' },
+    k: { type: 'string' },
+    'keyword-weight': { type: 'string' },
+    'mmr-lambda': { type: 'string' },
+    pool: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    verbose: { type: 'boolean', default: false }
+  }
+});
+
+const number = (value: string | undefined) => (value === undefined ? undefined : parseFloat(value));
+
+async function main() {
+  const setFile = path.resolve(values.set!);
+  const set = await loadGoldenSet(setFile);
+  const search: SearchOptions = {
+    keywordWeight: number(values['keyword-weight']),
+    mmrLambda: number(values['mmr-lambda']),
+    poolSize: number(values.pool)
+  };
+
+  const storeDir = await mkdtemp(path.join(os.tmpdir(), 'retrieval-eval-'));
+  try {
+    // Ingestion and model loading log as they go; keep the report (and the
+    // --json output) clean, and the console usable if anything throws
+    const log = console.log;
+    console.log = () => {};
+    let report: EvalReport;
+    let metrics: Awaited<ReturnType<RAGService['retrievalMetrics']>>;
+    try {
+      const rag = new RAGService(new FileVectorStore(storeDir));
+      await ingestGoldenSet(rag, set, path.dirname(setFile));
+      report = await evaluateRetrieval(rag, set, { k: number(values.k), search });
+      metrics = await rag.retrievalMetrics();
+    } finally {
+      console.log = log;
+    }
+
+    if (values.json) {
+      console.log(JSON.stringify({ ...report, reranker: metrics.reranker }, null, 2));
+    } else {
+      for (const result of report.questions) {
+        const mark = result.recall === 1 ? 'PASS' : result.recall > 0 ? 'PART' : 'MISS';
+        console.log(`${mark}  ${result.id.padEnd(28)} rr=${result.reciprocalRank.toFixed(2)}  recall=${result.recall.toFixed(2)}  ndcg=${result.ndcg.toFixed(2)}`);
+        if (values.verbose || result.recall < 1) {
+          result.retrieved.forEach((hit, index) => {
+            console.log(`        ${index + 1}. ${hit.relevant ? '*' : ' '} ${hit.document} ${hit.location}`);
+          });
+        }
+      }
+
+      const thresholds = set.thresholds || {};
+      console.log(`\n${report.questions.length} questions, k=${report.k}, reranker ${metrics.reranker}`);
+      console.log(`recall@${report.k}  ${report.metrics.recall.toFixed(3)}${thresholds.recall !== undefined ? `  (min ${thresholds.recall})` : ''}`);
+      console.log(`MRR        ${report.metrics.mrr.toFixed(3)}${thresholds.mrr !== undefined ? `  (min ${thresholds.mrr})` : ''}`);
+      console.log(`nDCG@${report.k}    ${report.metrics.ndcg.toFixed(3)}${thresholds.ndcg !== undefined ? `  (min ${thresholds.ndcg})` : ''}`);
+    }
+
+    if (report.failures.length > 0) {
+      console.error(`\nRetrieval regression: ${report.failures.join('; ')}`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await rm(storeDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,15 +1,45 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzlePg } from 'drizzle-orm/node-postgres';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// DATABASE_DRIVER=pg connects over plain TCP (local Postgres, CI);
+// the default 'neon' driver talks to Neon over websockets. Either way the
+// pool is a node-postgres Pool (Neon's subclasses it), which is what
+// connect-pg-simple takes for the session store.
+export function createDatabase(
+  connectionString: string | undefined = process.env.DATABASE_URL,
+  driver: string = process.env.DATABASE_DRIVER || 'neon'
+): { pool: pg.Pool; db: Database } {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  if (driver === 'pg') {
+    const pool = new pg.Pool({ connectionString });
+    return { pool, db: drizzlePg(pool, { schema }) };
+  }
+
+  const pool = new NeonPool({ connectionString });
+  // Neon's Pool subclasses pg's at runtime, but its typings pin an older
+  // @types/pg whose Pool isn't structurally the one connect-pg-simple expects
+  return { pool: pool as unknown as pg.Pool, db: drizzleNeon({ client: pool, schema }) };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+let shared: ReturnType<typeof createDatabase> | undefined;
+
+// The server's one connection pool, opened on first use; storage, the
+// session store and the pgvector store all go through it
+export function sharedDatabase(): { pool: pg.Pool; db: Database } {
+  if (!shared) shared = createDatabase();
+  return shared;
+}
@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { createLLMProviders } from "./services/llm";
+import { createVectorStore } from "./services/vector-store";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -47,7 +49,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  const server = await registerRoutes(app, {
+    providers: createLLMProviders(),
+    vectorStore: createVectorStore()
+  });
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
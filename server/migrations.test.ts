@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getTableColumns, getTableName, is } from 'drizzle-orm';
+import { PgTable } from 'drizzle-orm/pg-core';
+import type { PGlite } from '@electric-sql/pglite';
+import * as schema from '@shared/schema';
+import { applyMigrations, createTestClient } from './testing/database';
+
+let client: PGlite | undefined;
+
+afterEach(async () => {
+  await client?.close();
+  client = undefined;
+});
+
+describe('migrations', () => {
+  it('create every table and column of shared/schema.ts', async () => {
+    client = createTestClient();
+    await applyMigrations(client);
+
+    const { rows } = await client.query<{ table_name: string; column_name: string }>(
+      `SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = 'public'`
+    );
+    const migrated = new Set(rows.map(row => `${row.table_name}.${row.column_name}`));
+
+    const tables = Object.values(schema as Record<string, unknown>).filter((value): value is PgTable => is(value, PgTable));
+    expect(tables.length).toBeGreaterThan(0);
+    for (const table of tables) {
+      for (const column of Object.values(getTableColumns(table))) {
+        expect(migrated).toContain(`${getTableName(table)}.${column.name}`);
+      }
+    }
+  });
+
+  it('create the search and branch indexes', async () => {
+    client = createTestClient();
+    await applyMigrations(client);
+
+    const { rows } = await client.query<{ indexname: string }>(
+      `SELECT indexname FROM pg_indexes WHERE tablename = 'messages'`
+    );
+    expect(rows.map(row => row.indexname)).toEqual(
+      expect.arrayContaining(['messages_content_search_idx', 'messages_parent_id_idx'])
+    );
+  });
+
+  it('chain existing messages of each session when adding branches', async () => {
+    client = createTestClient();
+    await applyMigrations(client, { through: '0004_chat_session_titles' });
+    await client.exec(`
+      INSERT INTO users (id, username, password, name) VALUES ('u1', 'asha', 'x', 'Asha');
+      INSERT INTO chat_sessions (id, user_id, mode) VALUES ('s1', 'u1', 'tutor'), ('s2', 'u1', 'tutor');
+      INSERT INTO messages (id, chat_session_id, role, content, created_at) VALUES
+        ('m1', 's1', 'user', 'first', '2024-01-01 10:00'),
+        ('m2', 's1', 'assistant', 'second', '2024-01-01 10:01'),
+        ('m3', 's1', 'user', 'third', '2024-01-01 10:02'),
+        ('n1', 's2', 'user', 'other', '2024-01-01 10:00');
+    `);
+
+    await applyMigrations(client, { after: '0004_chat_session_titles' });
+
+    const { rows } = await client.query<{ id: string; parent_id: string | null }>(
+      `SELECT id, parent_id FROM messages ORDER BY id`
+    );
+    expect(rows).toEqual([
+      { id: 'm1', parent_id: null },
+      { id: 'm2', parent_id: 'm1' },
+      { id: 'm3', parent_id: 'm2' },
+      { id: 'n1', parent_id: null }
+    ]);
+  });
+});
@@ -0,0 +1,402 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ChatSession, Collection, Flashcard, Message, Note, Quiz } from '@shared/schema';
+import { checkBlocks, type TutorBlock, type TutorCheckBlock } from '@shared/tutor';
+import { ConversationContext } from './services/conversation-context';
+import { FakeLLMProvider } from './services/llm';
+import { readEvents, startTestApp, type TestApp } from './testing/app';
+
+const TUTOR_TURN = [
+  '<teach>Force is a push or a pull.</teach>',
+  '<check>{"question": "What is the SI unit of force?", "options": ["Joule", "Newton", "Watt", "Pascal"], "answer": "B", "explanation": "1 N = 1 kg m/s²"}</check>'
+].join('\n');
+
+let app: TestApp | undefined;
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await app?.close();
+  app = undefined;
+});
+
+async function createChat(testApp: TestApp, mode: 'tutor' | 'docchat' = 'tutor') {
+  const { body } = await testApp.post<ChatSession>('/api/chats', { mode, subject: 'Physics', topic: 'Forces' });
+  return body;
+}
+
+// Uploads a text file and waits until it is indexed, which also lets
+// ingestion finish before the app and its files go away
+async function upload(testApp: TestApp, filename: string, text: string): Promise<string> {
+  const form = new FormData();
+  form.append('file', new Blob([text], { type: 'text/plain' }), filename);
+  const { documentId } = await (await testApp.request('/api/documents/upload', { method: 'POST', body: form })).json() as { documentId: string };
+  await waitUntilReady(testApp, documentId);
+  return documentId;
+}
+
+async function waitUntilReady(testApp: TestApp, documentId: string) {
+  await vi.waitFor(async () => {
+    const { status, job } = await (await testApp.request(`/api/documents/${documentId}/status`)).json() as { status: string; job: { status: string } | null };
+    expect([status, job?.status]).toEqual(['ready', 'completed']);
+  });
+}
+
+describe('API offline with FakeLLMProvider', () => {
+  it('streams a tutor turn and stores it with the model that answered', async () => {
+    app = await startTestApp({ primary: { text: [TUTOR_TURN] } });
+    await app.signUp();
+    const chat = await createChat(app);
+
+    const response = await app.request(`/api/chats/${chat.id}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: 'What is force?' })
+    });
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+    const events = await readEvents(response);
+
+    expect(events.map(event => event.type)).toContain('content');
+    const block = events.find(event => event.type === 'block' && (event.data as TutorBlock).kind === 'check');
+    expect(block?.data).toMatchObject({ question: 'What is the SI unit of force?' });
+    expect(block?.data).not.toHaveProperty('answerIndex');
+    const done = events[events.length - 1];
+    expect(done.type).toBe('done');
+
+    const messages: Message[] = await (await app.request(`/api/chats/${chat.id}/messages`)).json();
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant']);
+    expect(messages[1].id).toBe((done.data as { messageId: string }).messageId);
+    expect(messages[1].content).toContain('Force is a push or a pull.');
+    expect(messages[1].metadata).toMatchObject({ model: { task: 'tutor', provider: 'fake-primary' } });
+  });
+
+  it('answers one of two messages sent at once and refuses the other before saving it', async () => {
+    app = await startTestApp({ primary: { chunkDelayMs: 20 } });
+    await app.signUp();
+    const chat = await createChat(app);
+    // Slow writes give the second request time to arrive while the first saves
+    const { storage } = await import('./storage');
+    const createMessage = storage.createMessage.bind(storage);
+    vi.spyOn(storage, 'createMessage').mockImplementation(async message => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return createMessage(message);
+    });
+
+    const send = (content: string) => app!.request(`/api/chats/${chat.id}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content })
+    });
+    const [first, second] = await Promise.all([send('First question'), send('Second question')]);
+
+    expect([first.status, second.status].sort()).toEqual([200, 409]);
+    const streamed = first.status === 200 ? first : second;
+    expect((await readEvents(streamed)).pop()?.type).toBe('done');
+
+    const messages: Message[] = await (await app.request(`/api/chats/${chat.id}/messages`)).json();
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('lets the next message through after one that could not be saved', async () => {
+    app = await startTestApp();
+    await app.signUp();
+    const chat = await createChat(app);
+
+    const orphan = await app.post(`/api/chats/${chat.id}/messages`, { content: 'Hello', parentId: 'missing' });
+    expect(orphan.status).toBe(404);
+
+    const response = await app.request(`/api/chats/${chat.id}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: 'Hello' })
+    });
+    expect(response.status).toBe(200);
+    expect((await readEvents(response)).pop()?.type).toBe('done');
+  });
+
+  it('ends the reply and frees the session when preparing the context fails', async () => {
+    app = await startTestApp();
+    await app.signUp();
+    const chat = await createChat(app);
+    vi.spyOn(ConversationContext.prototype, 'build').mockImplementationOnce(() => {
+      throw new Error('Broken session metadata');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const send = () => app!.request(`/api/chats/${chat.id}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: 'Hello' })
+    });
+    const failed = await send();
+    expect((await readEvents(failed)).pop()).toMatchObject({ type: 'error', message: 'Failed to generate response' });
+
+    const next = await send();
+    expect(next.status).toBe(200);
+    expect((await readEvents(next)).pop()?.type).toBe('done');
+  });
+
+  it('grades only the first of two answers sent at once', async () => {
+    app = await startTestApp({ primary: { text: [TUTOR_TURN] } });
+    await app.signUp();
+    const chat = await createChat(app);
+    const response = await app.request(`/api/chats/${chat.id}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: 'What is force?' })
+    });
+    const events = await readEvents(response);
+    const check = events.find(event => event.type === 'block' && (event.data as TutorBlock).kind === 'check')!.data as TutorCheckBlock;
+    const { messageId } = events[events.length - 1].data as { messageId: string };
+    // Slow reads let both requests see the question unanswered
+    const { storage } = await import('./storage');
+    const getMessages = storage.getMessagesByChatSession.bind(storage);
+    vi.spyOn(storage, 'getMessagesByChatSession').mockImplementation(async id => {
+      const messages = await getMessages(id);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return messages;
+    });
+
+    const answer = (option: number) => app!.post<{ answer: { selected: number } }>(
+      `/api/chats/${chat.id}/messages/${messageId}/answer`, { checkId: check.id, option }
+    );
+    const [right, wrong] = await Promise.all([answer(1), answer(0)]);
+
+    expect(right.status).toBe(200);
+    expect(wrong.status).toBe(200);
+    expect(wrong.body.answer.selected).toBe(right.body.answer.selected);
+    const stored = (await getMessages(chat.id)).find(message => message.id === messageId)!;
+    const blocks = (stored.metadata as { blocks: TutorBlock[] }).blocks;
+    expect(checkBlocks(blocks).find(block => block.id === check.id)).toMatchObject({ answer: right.body.answer });
+  });
+
+  it('answers DocChat questions without tutor blocks or answer keys', async () => {
+    // Answers like a model that follows its system prompt
+    vi.spyOn(FakeLLMProvider.prototype, 'generateText').mockImplementation(async (_messages, options) =>
+      options?.system?.includes('<check>') ? TUTOR_TURN : '- Force is a push or a pull [1]'
+    );
+    app = await startTestApp();
+    await app.signUp();
+    const chat = await createChat(app, 'docchat');
+
+    const response = await app.request(`/api/chats/${chat.id}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: 'What is force?' })
+    });
+    const events = await readEvents(response);
+    const content = events.filter(event => event.type === 'content').map(event => event.data).join('');
+
+    expect(content).toBe('- Force is a push or a pull [1]');
+    expect(events.some(event => event.type === 'block')).toBe(false);
+    const messages: Message[] = await (await app.request(`/api/chats/${chat.id}/messages`)).json();
+    expect(messages[1].content).not.toMatch(/<check>|"answer"/);
+    expect(messages[1].metadata).toMatchObject({ model: { task: 'docchat' } });
+  });
+
+  it('generates a quiz from scripted JSON', async () => {
+    const questions = [{ type: 'mcq_single', stem: 'Unit of force?', options: ['N', 'J'], answer: ['A'], rationale: 'Newton' }];
+    app = await startTestApp({ primary: { json: [{ questions }] } });
+    await app.signUp();
+
+    const { status, body } = await app.post<Quiz>('/api/quizzes', {
+      source: 'topic', subject: 'Physics', topic: 'Forces', count: 1
+    });
+    expect(status).toBe(200);
+    expect(body.questions).toEqual(questions);
+  });
+
+  it('falls back to the next provider when JSON does not match the schema', async () => {
+    app = await startTestApp({ primary: { json: [{ questions: 'not a list' }] } });
+    await app.signUp();
+
+    const { body } = await app.post<Quiz>('/api/quizzes', {
+      source: 'topic', subject: 'Physics', topic: 'Forces', count: 2
+    });
+    // The secondary fake synthesises questions from the schema
+    expect(body.questions).toHaveLength(2);
+    expect((body.questions as Array<{ stem: string }>)[0].stem).toBe('Sample stem');
+  });
+
+  it('serves stored files with the detected type, never the uploaded one', async () => {
+    app = await startTestApp();
+    await app.signUp();
+
+    const form = new FormData();
+    form.append('file', new Blob(['<script>alert(document.cookie)</script>'], { type: 'text/html' }), 'notes.txt');
+    const upload = await app.request('/api/documents/upload', { method: 'POST', body: form });
+    const { documentId } = await upload.json() as { documentId: string };
+
+    const response = await app.request(`/api/documents/${documentId}/file`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(response.headers.get('content-disposition')).toBe("attachment; filename*=UTF-8''notes.txt");
+  });
+});
+
+describe('Per-user isolation', () => {
+  afterEach(() => {
+    delete process.env.ADMIN_USERNAMES;
+  });
+
+  it("keeps one user's documents, chats, notes and flashcards from another", async () => {
+    app = await startTestApp();
+    await app.signUp('asha');
+    const documentId = await upload(app, 'forces.txt', 'Force equals mass times acceleration.');
+    const chat = await createChat(app);
+    const { body: note } = await app.post<Note>('/api/notes', { title: 'Forces' });
+    const { body: card } = await app.post<Flashcard>('/api/flashcards', { front: 'F', back: 'ma' });
+
+    const ravi = app.newClient();
+    await ravi.signUp('ravi');
+    const put = (path: string, body: unknown) => ravi.request(path, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    for (const path of [
+      `/api/documents/${documentId}/status`,
+      `/api/documents/${documentId}/file`,
+      `/api/chats/${chat.id}`,
+      `/api/chats/${chat.id}/messages`,
+      `/api/notes/${note.id}`,
+      `/api/flashcards/${card.id}`
+    ]) {
+      expect((await ravi.request(path)).status, path).toBe(404);
+    }
+    expect((await ravi.request(`/api/documents/${documentId}`, { method: 'DELETE' })).status).toBe(404);
+    expect((await ravi.post(`/api/chats/${chat.id}/messages`, { content: 'Hello' })).status).toBe(404);
+    expect((await put(`/api/flashcards/${card.id}`, { front: 'Hacked' })).status).toBe(404);
+    expect(await (await ravi.request('/api/documents')).json()).toEqual([]);
+    expect(await (await ravi.request('/api/chats')).json()).toEqual([]);
+    expect(await (await ravi.request('/api/notes')).json()).toEqual([]);
+    expect(await (await ravi.request('/api/flashcards')).json()).toEqual([]);
+
+    // Nor can a card of their own be attached to someone else's note
+    const { body: ownCard } = await ravi.post<Flashcard>('/api/flashcards', { front: 'v', back: 'u + at' });
+    expect((await ravi.post('/api/flashcards', { front: 'a', back: 'b', noteId: note.id })).status).toBe(404);
+    expect((await put(`/api/flashcards/${ownCard.id}`, { noteId: note.id })).status).toBe(404);
+    const { body: ownNote } = await ravi.post<Note>('/api/notes', { title: 'Motion' });
+    expect(await (await put(`/api/flashcards/${ownCard.id}`, { noteId: ownNote.id })).json()).toMatchObject({ noteId: ownNote.id });
+  });
+
+  it('shows retrieval metrics to admins only', async () => {
+    app = await startTestApp();
+    await app.signUp('meera');
+    expect((await app.request('/api/retrieval/metrics')).status).toBe(403);
+
+    process.env.ADMIN_USERNAMES = 'ops, meera';
+    const response = await app.request('/api/retrieval/metrics');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toHaveProperty('reranker');
+  });
+});
+
+describe('Chat search', () => {
+  it('includes the whole last day of a date range', async () => {
+    app = await startTestApp();
+    await app.signUp('kiran');
+    const chat = await createChat(app);
+    const { storage } = await import('./storage');
+    for (const createdAt of ['2026-10-17T23:59:59Z', '2026-10-18T00:00:00Z', '2026-10-19T18:30:00Z', '2026-10-20T00:00:00Z']) {
+      const message = await storage.createMessage({ chatSessionId: chat.id, role: 'user', content: `Motion question from ${createdAt}` });
+      await storage.updateMessage(message.id, { createdAt: new Date(createdAt) });
+    }
+
+    const search = async (query: string) => {
+      const hits: Array<{ createdAt: string }> = await (await app!.request(`/api/chats/search?q=motion&${query}`)).json();
+      return hits.map(hit => hit.createdAt).sort();
+    };
+    expect(await search('from=2026-10-18&to=2026-10-19')).toEqual(['2026-10-18T00:00:00.000Z', '2026-10-19T18:30:00.000Z']);
+    expect(await search('to=2026-10-19T12:00:00Z')).toEqual(['2026-10-17T23:59:59.000Z', '2026-10-18T00:00:00.000Z']);
+  });
+});
+
+describe('Document management', () => {
+  it('renames, re-indexes and deletes a document and keeps collections to its owner', async () => {
+    app = await startTestApp();
+    await app.signUp('dev');
+    const documentId = await upload(app, 'forces.txt', 'Force equals mass times acceleration.');
+    const json = (method: string, path: string, body?: unknown) => app!.request(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    expect((await json('PATCH', `/api/documents/${documentId}`, { title: '  ' })).status).toBe(400);
+    expect(await (await json('PATCH', `/api/documents/${documentId}`, { title: 'Forces' })).json()).toMatchObject({ title: 'Forces' });
+
+    const reindexed = await app.post<{ jobId: string }>(`/api/documents/${documentId}/reindex`, {});
+    expect(reindexed.status).toBe(200);
+    await waitUntilReady(app, documentId);
+    const { chunkCount } = await (await app.request(`/api/documents/${documentId}/status`)).json() as { chunkCount: number };
+    expect(chunkCount).toBeGreaterThan(0);
+    // Nothing is running any more
+    expect((await app.post(`/api/documents/${documentId}/cancel`, {})).status).toBe(409);
+
+    // Unknown and foreign documents are left out of a collection
+    const { body: collection } = await app.post<Collection>('/api/collections', { name: 'Physics', documentIds: [documentId, 'not-mine'] });
+    expect(collection.documentIds).toEqual([documentId]);
+    expect(await (await json('PATCH', `/api/collections/${collection.id}`, { name: 'Mechanics' })).json())
+      .toMatchObject({ name: 'Mechanics', documentIds: [documentId] });
+    const stranger = app.newClient();
+    await stranger.signUp('zoya');
+    expect((await stranger.request(`/api/collections/${collection.id}`)).status).toBe(404);
+    expect((await stranger.request(`/api/collections/${collection.id}`, { method: 'DELETE' })).status).toBe(404);
+
+    expect((await json('DELETE', `/api/documents/${documentId}`)).status).toBe(204);
+    expect((await app.request(`/api/documents/${documentId}/status`)).status).toBe(404);
+    expect(await (await app.request('/api/documents')).json()).toEqual([]);
+    expect(await (await app.request(`/api/collections/${collection.id}`)).json()).toMatchObject({ documentIds: [] });
+    expect((await json('DELETE', `/api/collections/${collection.id}`)).status).toBe(204);
+    expect(await (await app.request('/api/collections')).json()).toEqual([]);
+  });
+});
+
+describe('Conversation branches', () => {
+  it('branches on edits and regenerations and switches between them', async () => {
+    app = await startTestApp();
+    await app.signUp('tara');
+    const chat = await createChat(app);
+    const send = async (path: string, body: unknown) => readEvents(await app!.request(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }));
+    const shown = async () => (await app!.request(`/api/chats/${chat.id}/messages`)).json() as Promise<Array<Message & { siblingIds: string[] }>>;
+    const chain = (path: Message[]) => path.map(message => [message.content.split(' ')[0], message.parentId]);
+
+    await send(`/api/chats/${chat.id}/messages`, { content: 'Inertia?' });
+    await send(`/api/chats/${chat.id}/messages`, { content: 'Momentum?' });
+    const [q1, r1, q2] = await shown();
+
+    // Editing the second question resends it under the same parent
+    await send(`/api/chats/${chat.id}/messages`, { content: 'Impulse?', parentId: r1.id });
+    const edited = await shown();
+    expect(chain(edited)).toEqual([['Inertia?', null], [expect.any(String), q1.id], ['Impulse?', r1.id], [expect.any(String), edited[2].id]]);
+    expect(edited[2].siblingIds).toEqual([q2.id, edited[2].id]);
+
+    await send(`/api/chats/${chat.id}/messages/${edited[3].id}/regenerate`, {});
+    const regenerated = await shown();
+    expect(regenerated.slice(0, 3).map(message => message.id)).toEqual(edited.slice(0, 3).map(message => message.id));
+    expect(regenerated[3].parentId).toBe(edited[2].id);
+    expect(regenerated[3].siblingIds).toEqual([edited[3].id, regenerated[3].id]);
+
+    const { activeLeafId, branches } = await (await app.request(`/api/chats/${chat.id}/branches`)).json() as { activeLeafId: string; branches: Array<{ leafId: string; length: number; question: string }> };
+    expect(activeLeafId).toBe(regenerated[3].id);
+    expect(branches.map(branch => [branch.question, branch.length])).toEqual([['Impulse?', 4], ['Impulse?', 4], ['Momentum?', 4]]);
+
+    // Back to the original question, where that branch left off
+    const switched = await (await app.request(`/api/chats/${chat.id}/branch`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messageId: q2.id })
+    })).json() as Message[];
+    expect(switched.map(message => message.content.split(' ')[0])).toEqual(['Inertia?', expect.any(String), 'Momentum?', expect.any(String)]);
+    expect((await shown()).map(message => message.id)).toEqual(switched.map(message => message.id));
+
+    expect((await app.post(`/api/chats/${chat.id}/messages`, { content: 'Lost?', parentId: 'missing' })).status).toBe(404);
+    expect((await app.post(`/api/chats/${chat.id}/messages/missing/regenerate`, {})).status).toBe(404);
+  });
+});
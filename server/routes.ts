@@ -1,34 +1,171 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireUser } from "./auth";
 import { GeminiService } from "./services/gemini";
 import { AnthropicService } from "./services/anthropic";
 import { RAGService } from "./services/rag";
+import { resolveCitations } from "./services/citations";
+import { GroundingVerifier } from "./services/grounding";
+import { QueryRewriter } from "./services/query-rewriter";
+import { SessionTitler } from "./services/session-titles";
+import { ConversationContext } from "./services/conversation-context";
+import { ReplyStreams, TERMINAL_EVENTS, type ActiveReply, type ReplyEventType } from "./services/reply-streams";
+import { TutorTurnParser, gradeCheck, renderTutorTurn, withoutAnswerKeys, type TutorTurnEvent } from "./services/tutor-turns";
+import { ModelRouter, isNumericallyHeavy, type LLMProviders, type ModelInfo } from "./services/llm";
+import type { VectorStore } from "./services/vector-store";
+import { IngestionError, IngestionQueue } from "./services/ingestion-queue";
+import { createUploadStore } from "./services/uploads";
+import { detectFormat, fetchAndExtract, UnsupportedFormatError, type DocumentFormat, type ExtractOptions } from "./services/extractors";
 import { z } from "zod";
-import { insertChatSessionSchema, insertMessageSchema, insertDocumentSchema, insertQuizSchema, insertQuizAttemptSchema, insertStudyPlanSchema, insertNoteSchema } from "@shared/schema";
+import { youtubeVideoId } from "@shared/media";
+import type { GroundingReport, MessageCitation } from "@shared/citations";
+import type { IngestionProgress } from "@shared/ingestion";
+import { buildSnippet, searchTerms, type MessageSearchResult } from "@shared/search";
+import { activeLeafId, branchPath, latestLeafUnder, listBranches, withSiblings } from "@shared/branches";
+import { checkBlocks, type TutorBlock } from "@shared/tutor";
+import { insertChatSessionSchema, insertMessageSchema, insertCollectionSchema, type ChatSession, type Message } from "@shared/schema";
 import multer from 'multer';
+import path from 'path';
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
   limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
 });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  const geminiService = new GeminiService();
-  const anthropicService = new AnthropicService();
-  const ragService = new RAGService();
+// Resources belonging to another user are reported as missing
+function ownedBy<T extends { userId: string | null }>(resource: T | undefined, req: Request): T | undefined {
+  return resource && resource.userId === req.user!.id ? resource : undefined;
+}
+
+// ADMIN_USERNAMES lists, comma-separated, the users who may see
+// service-wide data such as retrieval metrics
+function isAdmin(req: Request): boolean {
+  const admins = (process.env.ADMIN_USERNAMES || '').split(',').map(name => name.trim()).filter(Boolean);
+  return admins.includes(req.user!.username);
+}
+
+// Restrict requested document ids to the caller's documents; an empty
+// request means "all of my documents" rather than every document indexed.
+async function resolveDocumentIds(req: Request, requested?: string[]): Promise<string[]> {
+  const ownDocumentIds = (await storage.getDocumentsByUser(req.user!.id)).map(doc => doc.id);
+  if (!requested || requested.length === 0) {
+    return ownDocumentIds;
+  }
+  return requested.filter(id => ownDocumentIds.includes(id));
+}
+
+// The documents a DocChat session was opened on, from its `metadata`
+interface DocChatScope {
+  collectionId?: string;
+  documentIds?: string[];
+}
+
+// Documents a DocChat session searches. A collection is resolved on every
+// turn, so documents added to it later are included; an empty collection
+// searches nothing. Sessions without one use their `documentIds`.
+async function resolveSessionDocumentIds(req: Request, metadata: unknown): Promise<string[]> {
+  const scope = (metadata ?? {}) as DocChatScope;
+  if (scope.collectionId) {
+    const collection = ownedBy(await storage.getCollection(scope.collectionId), req);
+    if (collection) {
+      const ownDocumentIds = (await storage.getDocumentsByUser(req.user!.id)).map(doc => doc.id);
+      return collection.documentIds.filter(id => ownDocumentIds.includes(id));
+    }
+  }
+  return resolveDocumentIds(req, scope.documentIds);
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const chatSearchSchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  mode: z.enum(['tutor', 'docchat']).optional(),
+  subject: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  // Inclusive: a bare date such as 2026-10-19 covers that whole day
+  to: z.preprocess(
+    value => typeof value === 'string' && DATE_ONLY.test(value) ? new Date(Date.parse(value) + DAY_MS) : value,
+    z.coerce.date()
+  ).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+// Writes a reply's events after `afterSeq` as SSE and ends the response with
+// the reply. Event ids are "<replyId>:<seq>" so a client can resume with
+// Last-Event-ID; disconnecting detaches without stopping the reply.
+function pipeReplyEvents(res: Response, replyStreams: ReplyStreams, reply: ActiveReply, afterSeq: number) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  // Comment lines keep proxies from timing out an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+  let detach = () => {};
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    detach();
+    res.end();
+  };
+
+  detach = replyStreams.attach(reply, afterSeq, ({ seq, ...event }) => {
+    res.write(`id: ${reply.id}:${seq}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (TERMINAL_EVENTS.includes(event.type)) close();
+  });
+  // Replaying a finished reply may already have closed the response
+  if (closed) detach();
+  res.on('close', close);
+}
+
+const MAX_SUMMARIZE_URLS = 5;
+const MAX_SUMMARIZE_CHARS = 60000;
+
+export interface RouteDependencies {
+  providers: LLMProviders;
+  vectorStore: VectorStore;
+}
+
+export async function registerRoutes(app: Express, { providers, vectorStore }: RouteDependencies): Promise<Server> {
+  const modelRouter = new ModelRouter(providers);
+  const geminiService = new GeminiService(modelRouter);
+  const anthropicService = new AnthropicService(modelRouter);
+  const ragService = new RAGService(vectorStore);
+  const uploads = createUploadStore();
+  const ingestionQueue = new IngestionQueue(ragService, uploads);
+  const groundingVerifier = new GroundingVerifier(texts => ragService.embedTexts(texts), modelRouter);
+  const queryRewriter = new QueryRewriter(modelRouter);
+  const sessionTitler = new SessionTitler(modelRouter);
+  const replyStreams = new ReplyStreams();
+  const conversationContext = new ConversationContext(modelRouter);
+
+  verifyDocumentIndex(ragService).catch(error => {
+    console.error('Document index check failed:', error);
+  });
+  ingestionQueue.recover().catch(error => {
+    console.error('Ingestion job recovery failed:', error);
+  });
+
+  setupAuth(app);
 
   // Health check
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
+  // Everything below requires a signed-in user
+  app.use("/api", requireUser);
+
   // ==== CHAT ROUTES ====
   
   // Get all chat sessions for user
   app.get("/api/chats", async (req, res) => {
     try {
-      const userId = 'default-user'; // In production, get from session
+      const userId = req.user!.id;
       const mode = req.query.mode as string | undefined;
       let chats = await storage.getChatSessionsByUser(userId);
       
@@ -46,7 +183,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create chat session
   app.post("/api/chats", async (req, res) => {
     try {
-      const validatedData = insertChatSessionSchema.parse(req.body);
+      const validatedData = insertChatSessionSchema.parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      if (validatedData.mode === 'docchat') {
+        const metadata = (validatedData.metadata || {}) as DocChatScope & Record<string, unknown>;
+        if (metadata.collectionId && !ownedBy(await storage.getCollection(metadata.collectionId), req)) {
+          return res.status(404).json({ error: "Collection not found" });
+        }
+        validatedData.metadata = metadata.collectionId ? metadata : {
+          ...metadata,
+          documentIds: await resolveDocumentIds(req, metadata.documentIds)
+        };
+      }
       const session = await storage.createChatSession(validatedData);
       res.json(session);
     } catch (error) {
@@ -54,10 +204,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Search message content across the user's sessions
+  app.get("/api/chats/search", async (req, res) => {
+    try {
+      const { q, mode, subject, from, to, limit } = chatSearchSchema.parse(req.query);
+      const hits = await storage.searchMessages(req.user!.id, q, { mode, subject, from, before: to, limit });
+      const terms = searchTerms(q);
+
+      const results: MessageSearchResult[] = hits.map(({ message, session }) => ({
+        messageId: message.id,
+        role: message.role,
+        createdAt: message.createdAt ? message.createdAt.toISOString() : null,
+        session: { id: session.id, mode: session.mode, title: session.title, subject: session.subject },
+        ...buildSnippet(message.content, terms)
+      }));
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to search chats" });
+    }
+  });
+
   // Get chat session
   app.get("/api/chats/:id", async (req, res) => {
     try {
-      const session = await storage.getChatSession(req.params.id);
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
       if (!session) {
         return res.status(404).json({ error: "Chat session not found" });
       }
@@ -67,122 +240,374 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get chat messages
+  // Generates the answer to the last message of `path` (a question) as
+  // `reply`, which the route has started for the session, and streams its
+  // events over SSE. The answer is saved as the question's child and its
+  // branch shown; a cancelled reply is saved with what was written so far,
+  // marked interrupted. The reply always ends in a terminal event.
+  async function streamAssistantReply(req: Request, res: Response, session: ChatSession, path: Message[], reply: ActiveReply) {
+    const { signal } = reply.controller;
+    const send = (type: ReplyEventType, data?: unknown) => replyStreams.publish(reply, type, { data });
+
+    let assistantContent = '';
+    let answeredBy: ModelInfo | undefined;
+    let citations: MessageCitation[] = [];
+    let grounding: GroundingReport | undefined;
+    const tutorTurn = new TutorTurnParser();
+
+    // Everything up to the saved answer ends in a terminal event, which
+    // releases the session for the next message
+    try {
+      pipeReplyEvents(res, replyStreams, reply, 0);
+
+      // Recent turns verbatim, earlier ones as the session's rolling summary
+      const question = path[path.length - 1].content;
+      const messageHistory = conversationContext.build(session, path).messages;
+
+      if (session.mode === 'tutor') {
+        // AI Tutor streaming
+        const config = {
+          subject: session.subject || 'General',
+          level: session.level || 'Class 12',
+          topic: session.topic || 'Current Topic',
+          language: session.language || 'en',
+          board: (session.metadata as { board?: string } | null)?.board || 'CBSE'
+        };
+
+        // Numerical problems take the step-by-step reasoning path
+        const stream = isNumericallyHeavy(question)
+          ? anthropicService.streamComplexReasoning(messageHistory, geminiService.buildTutorSystemPrompt(config), signal)
+          : geminiService.streamTutorResponse(messageHistory, config, 'tutor', signal);
+
+        // Text streams as content; every finished block (check questions
+        // without their key) follows as a 'block' event
+        const forward = (events: TutorTurnEvent[]) => {
+          for (const event of events) {
+            if (event.type === 'text') send('content', event.text);
+            else send('block', event.block);
+          }
+        };
+        try {
+          for await (const chunk of stream) {
+            if (signal.aborted) break;
+            forward(tutorTurn.push(chunk));
+          }
+        } finally {
+          forward(tutorTurn.end());
+          assistantContent = renderTutorTurn(tutorTurn.blocks);
+        }
+        answeredBy = stream.model;
+
+      } else if (session.mode === 'docchat') {
+        // DocChat with RAG
+        const documentIds = await resolveSessionDocumentIds(req, session.metadata);
+        // Follow-ups are searched as standalone questions
+        const { queries } = await queryRewriter.rewrite(question, messageHistory.slice(0, -1));
+        const searchResults = await ragService.hybridSearch(queries, documentIds, 8);
+        const titles = Object.fromEntries(
+          (await storage.getDocumentsByUser(req.user!.id)).map(doc => [doc.id, doc.title])
+        );
+        const { context, citations: contextCitations } = ragService.generateContextForLLM(searchResults, 2000, titles);
+
+        const stream = geminiService.streamDocChatResponse(messageHistory, context, session.language || 'en', signal);
+
+        for await (const chunk of stream) {
+          if (signal.aborted) break;
+          assistantContent += chunk;
+          send('content', chunk);
+        }
+        answeredBy = stream.model;
+
+        // Only passages the answer actually cites are sent and stored
+        citations = resolveCitations(assistantContent, contextCitations, titles);
+        send('citations', citations);
+
+        // A failed check leaves the answer unflagged rather than failing it
+        if (!signal.aborted) {
+          try {
+            grounding = await groundingVerifier.verify(assistantContent, contextCitations);
+          } catch (error) {
+            console.error('Grounding verification failed:', error);
+          }
+        }
+      }
+    } catch (streamError) {
+      if (!signal.aborted) {
+        console.error('Streaming error:', streamError);
+        replyStreams.publish(reply, 'error', { message: 'Failed to generate response' });
+        return;
+      }
+    }
+
+    const interrupted = signal.aborted;
+    if (interrupted && !assistantContent) {
+      send('interrupted', { messageId: null });
+      return;
+    }
+
+    try {
+      // Save assistant message
+      const assistantMessage = await storage.createMessage({
+        chatSessionId: session.id,
+        parentId: path[path.length - 1].id,
+        role: 'assistant',
+        content: assistantContent,
+        metadata: {
+          ...(session.mode === 'docchat' ? { citations } : {}),
+          ...(session.mode === 'tutor' ? { blocks: tutorTurn.blocks } : {}),
+          ...(grounding ? { grounding } : {}),
+          ...(answeredBy ? { model: answeredBy } : {}),
+          ...(interrupted ? { interrupted: true } : {})
+        }
+      });
+      await storage.updateChatSession(session.id, { activeLeafId: assistantMessage.id });
+      send(interrupted ? 'interrupted' : 'done', { messageId: assistantMessage.id });
+
+      // Naming the session and summarizing it must not hold up or fail the reply
+      sessionTitler.update(session, [...path, assistantMessage]).catch(error => {
+        console.error('Session title update failed:', error);
+      });
+      conversationContext.remember(session, [...path, assistantMessage]).catch(error => {
+        console.error('Conversation memory update failed:', error);
+      });
+    } catch (error) {
+      console.error('Saving reply failed:', error);
+      replyStreams.publish(reply, 'error', { message: 'Failed to save response' });
+    }
+  }
+
+  // Get chat messages: the branch being shown, each message with the ids of
+  // its alternatives
   app.get("/api/chats/:id/messages", async (req, res) => {
     try {
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
       const messages = await storage.getMessagesByChatSession(req.params.id);
-      res.json(messages);
+      const shown = branchPath(messages, activeLeafId(messages, session.activeLeafId));
+      res.json(withSiblings(messages, shown.map(withoutAnswerKeys)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch messages" });
     }
   });
 
-  // Send message with SSE streaming
+  // Send message with SSE streaming. It continues the shown branch unless
+  // `parentId` is given: an edited question is sent with the parent of the
+  // one it replaces (null for the first), starting a new branch.
   app.post("/api/chats/:id/messages", async (req, res) => {
     try {
       const validatedData = insertMessageSchema.parse({
         ...req.body,
+        role: 'user',
         chatSessionId: req.params.id
       });
 
-      // Save user message
-      const userMessage = await storage.createMessage(validatedData);
-
       // Get chat session for context
-      const session = await storage.getChatSession(req.params.id);
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
       if (!session) {
         return res.status(404).json({ error: "Chat session not found" });
       }
 
-      // Get previous messages for context
-      const previousMessages = await storage.getMessagesByChatSession(req.params.id);
-      const messageHistory = previousMessages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
+      // The reply is claimed before anything is saved, so a second message
+      // sent meanwhile gets a 409 instead of leaving an unanswered question
+      if (replyStreams.isRunning(session.id)) {
+        return res.status(409).json({ error: "A reply is still being generated" });
+      }
+      const reply = replyStreams.start(session.id);
+      let streaming = false;
+      try {
+        const messages = await storage.getMessagesByChatSession(req.params.id);
+        const parentId = validatedData.parentId === undefined
+          ? activeLeafId(messages, session.activeLeafId)
+          : validatedData.parentId;
+        if (parentId && !messages.some(message => message.id === parentId)) {
+          return res.status(404).json({ error: "Parent message not found" });
+        }
 
-      // Set up SSE
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.setHeader('Access-Control-Allow-Origin', '*');
+        // Save user message
+        const userMessage = await storage.createMessage({ ...validatedData, parentId });
+        await storage.updateChatSession(session.id, { activeLeafId: userMessage.id });
 
-      let assistantContent = '';
+        streaming = true;
+        await streamAssistantReply(req, res, session, [...branchPath(messages, parentId), userMessage], reply);
+      } finally {
+        if (!streaming) replyStreams.release(reply);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid message data", details: error.errors });
+      }
+      console.error('Message processing error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to send message" });
+      }
+    }
+  });
 
+  // Regenerate a reply with SSE streaming. The new answer becomes a sibling
+  // of the given assistant message; a question (for example one whose reply
+  // failed) gets another answer.
+  app.post("/api/chats/:id/messages/:messageId/regenerate", async (req, res) => {
+    try {
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      if (replyStreams.isRunning(session.id)) {
+        return res.status(409).json({ error: "A reply is still being generated" });
+      }
+      const reply = replyStreams.start(session.id);
+      let streaming = false;
       try {
-        if (session.mode === 'tutor') {
-          // AI Tutor streaming
-          const config = {
-            subject: session.subject || 'General',
-            level: session.level || 'Class 12',
-            topic: session.topic || 'Current Topic',
-            language: session.language || 'en',
-            board: (session.metadata as any)?.board || 'CBSE'
-          };
-
-          const stream = geminiService.streamTutorResponse(messageHistory, config);
-          
-          for await (const chunk of stream) {
-            assistantContent += chunk;
-            res.write(`data: ${JSON.stringify({ type: 'content', data: chunk })}\n\n`);
-          }
+        const messages = await storage.getMessagesByChatSession(req.params.id);
+        const target = messages.find(message => message.id === req.params.messageId);
+        if (!target) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        const path = branchPath(messages, target.role === 'assistant' ? target.parentId : target.id);
+        if (path.length === 0 || path[path.length - 1].role !== 'user') {
+          return res.status(400).json({ error: "Only replies to a question can be regenerated" });
+        }
 
-        } else if (session.mode === 'docchat') {
-          // DocChat with RAG
-          const documentIds = (session.metadata as any)?.documentIds as string[] || [];
-          const searchResults = await ragService.hybridSearch(validatedData.content, documentIds, 8);
-          const { context, citations } = ragService.generateContextForLLM(searchResults);
-
-          // Use DocChat prompt with context
-          const docChatMessages = [
-            {
-              role: 'system',
-              content: `Answer ONLY from CONTEXT. If insufficient, say what else is needed.
-Return crisp bullets with inline citations like [Doc {title}, p.{page} §{heading}].
-Language: ${session.language || 'en'}.
-CONTEXT:
-${context}`
-            },
-            ...messageHistory
-          ];
-
-          const stream = geminiService.streamTutorResponse(docChatMessages, {
-            subject: 'Document Analysis',
-            level: session.level || 'Advanced',
-            topic: 'Document Q&A',
-            language: session.language || 'en',
-            board: 'General'
-          });
+        streaming = true;
+        await streamAssistantReply(req, res, session, path, reply);
+      } finally {
+        if (!streaming) replyStreams.release(reply);
+      }
+    } catch (error) {
+      console.error('Regeneration error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to regenerate message" });
+      }
+    }
+  });
 
-          for await (const chunk of stream) {
-            assistantContent += chunk;
-            res.write(`data: ${JSON.stringify({ type: 'content', data: chunk })}\n\n`);
-          }
+  // Grade the student's answer to a check question in a tutor reply. The
+  // first answer counts; the response reveals the key and explanation, and
+  // the result is given to the tutor on the next turn.
+  app.post("/api/chats/:id/messages/:messageId/answer", async (req, res) => {
+    try {
+      const { checkId, option } = z.object({
+        checkId: z.string().min(1),
+        option: z.number().int().min(0)
+      }).parse(req.body);
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
 
-          // Send citations
-          res.write(`data: ${JSON.stringify({ type: 'citations', data: citations })}\n\n`);
+      // The write only lands on the metadata that was read; if another
+      // request changed it meanwhile, read again and see whether it answered
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const message = (await storage.getMessagesByChatSession(session.id))
+          .find(candidate => candidate.id === req.params.messageId);
+        const metadata = (message?.metadata ?? {}) as Record<string, unknown>;
+        const blocks: TutorBlock[] = Array.isArray(metadata.blocks) ? metadata.blocks : [];
+        const check = checkBlocks(blocks).find(block => block.id === checkId);
+        if (!message || !check) {
+          return res.status(404).json({ error: "Check question not found" });
+        }
+        if (check.answer) {
+          return res.json(check);
+        }
+        if (option >= check.options.length) {
+          return res.status(400).json({ error: "No such option" });
         }
 
-        // Save assistant message
-        await storage.createMessage({
-          chatSessionId: req.params.id,
-          role: 'assistant',
-          content: assistantContent,
-          metadata: session.mode === 'docchat' ? { citations: [] } : undefined
+        const answered = { ...check, answer: gradeCheck(check, option) };
+        const updated = await storage.updateMessageMetadata(message.id, message.metadata, {
+          ...metadata, blocks: blocks.map(block => block === check ? answered : block)
         });
+        if (updated) {
+          return res.json(answered);
+        }
+      }
+      res.status(409).json({ error: "The message changed while grading; try again" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid answer", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to grade answer" });
+    }
+  });
 
-        res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
-        res.end();
+  // Stop the reply being generated. The stream ends with an 'interrupted'
+  // event once the partial answer is saved.
+  app.post("/api/chats/:id/cancel", async (req, res) => {
+    try {
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+      res.json({ cancelled: replyStreams.cancel(session.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel reply" });
+    }
+  });
 
-      } catch (streamError) {
-        console.error('Streaming error:', streamError);
-        res.write(`data: ${JSON.stringify({ type: 'error', message: 'Failed to generate response' })}\n\n`);
-        res.end();
+  // Resume a reply stream after a dropped connection. Last-Event-ID (or
+  // ?lastEventId=) is the id of the last event received, "<replyId>:<seq>";
+  // the events after it are replayed, then the stream continues live.
+  app.get("/api/chats/:id/stream", async (req, res) => {
+    try {
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
       }
 
+      const lastEventId = req.get('Last-Event-ID') || String(req.query.lastEventId || '');
+      const [replyId, seq] = lastEventId.split(':');
+      const reply = replyId ? replyStreams.get(session.id, replyId) : undefined;
+      if (!reply) {
+        return res.status(404).json({ error: "Reply not found" });
+      }
+      pipeReplyEvents(res, replyStreams, reply, parseInt(seq, 10) || 0);
     } catch (error) {
-      console.error('Message processing error:', error);
-      res.status(400).json({ error: "Invalid message data" });
+      res.status(500).json({ error: "Failed to resume reply" });
+    }
+  });
+
+  // List the session's branches, newest first
+  app.get("/api/chats/:id/branches", async (req, res) => {
+    try {
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+      const messages = await storage.getMessagesByChatSession(req.params.id);
+      res.json({
+        activeLeafId: activeLeafId(messages, session.activeLeafId),
+        branches: listBranches(messages)
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch branches" });
+    }
+  });
+
+  // Switch branches: shows the newest branch through `messageId` (any
+  // message, typically a sibling picked with "< 2/3 >") and returns it
+  app.put("/api/chats/:id/branch", async (req, res) => {
+    try {
+      const { messageId } = z.object({ messageId: z.string().min(1) }).parse(req.body);
+      const session = ownedBy(await storage.getChatSession(req.params.id), req);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      const messages = await storage.getMessagesByChatSession(req.params.id);
+      const leafId = latestLeafUnder(messages, messageId);
+      if (!leafId) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      await storage.updateChatSession(session.id, { activeLeafId: leafId });
+      res.json(withSiblings(messages, branchPath(messages, leafId).map(withoutAnswerKeys)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid branch selection", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to switch branch" });
     }
   });
 
@@ -191,7 +616,7 @@ ${context}`
   // Get all documents for user
   app.get("/api/documents", async (req, res) => {
     try {
-      const userId = 'default-user'; // In production, get from session
+      const userId = req.user!.id;
       const documents = await storage.getDocumentsByUser(userId);
       res.json(documents);
     } catch (error) {
@@ -199,6 +624,19 @@ ${context}`
     }
   });
 
+  // Active reranker, its candidate pool size and recent reranking latency,
+  // measured across all users, so only for admins
+  app.get("/api/retrieval/metrics", async (req, res) => {
+    try {
+      if (!isAdmin(req)) {
+        return res.status(403).json({ error: "Admins only" });
+      }
+      res.json(await ragService.retrievalMetrics());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch retrieval metrics" });
+    }
+  });
+
   // Upload document
   app.post("/api/documents/upload", upload.single('file'), async (req, res) => {
     try {
@@ -206,19 +644,35 @@ ${context}`
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const { title, type } = req.body;
+      // Caption files may come with the URL of the video they belong to, so
+      // citations can seek the player
+      const { title, videoUrl } = req.body;
+      if (videoUrl !== undefined && (typeof videoUrl !== 'string' || !/^https?:\/\//i.test(videoUrl))) {
+        return res.status(400).json({ error: "videoUrl must be a http(s) URL" });
+      }
+
+      const fileInfo: ExtractOptions = { filename: req.file.originalname, mimeType: req.file.mimetype };
+      let format: DocumentFormat;
+      try {
+        format = detectFormat(req.file.buffer, fileInfo);
+      } catch (error) {
+        if (error instanceof UnsupportedFormatError) {
+          return res.status(415).json({ error: error.message });
+        }
+        throw error;
+      }
+
       const document = await storage.createDocument({
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         title: title || req.file.originalname,
-        type: type || 'pdf',
-        sourceUrl: null,
+        type: videoUrl ? (youtubeVideoId(videoUrl) ? 'youtube' : 'video') : documentTypeFor(format),
+        sourceUrl: videoUrl || null,
         status: 'processing'
       });
 
-      // Process document asynchronously
-      processDocumentAsync(document.id, req.file.buffer, ragService);
+      const job = await ingestionQueue.enqueueFile(document, req.file.buffer, fileInfo);
 
-      res.json({ documentId: document.id });
+      res.json({ documentId: document.id, jobId: job.id });
     } catch (error) {
       res.status(500).json({ error: "Failed to upload document" });
     }
@@ -228,18 +682,25 @@ ${context}`
   app.post("/api/documents/by-url", async (req, res) => {
     try {
       const { url, title, type } = req.body;
+      if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+        return res.status(400).json({ error: "A http(s) URL is required" });
+      }
+      // A watch page carries no transcript text; videos come in through their captions
+      if (youtubeVideoId(url)) {
+        return res.status(400).json({ error: "Upload the video's caption file (.vtt, .srt or timedtext .json) with videoUrl set to this link" });
+      }
+
       const document = await storage.createDocument({
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         title: title || url,
         type: type || 'url',
         sourceUrl: url,
         status: 'processing'
       });
 
-      // Process URL asynchronously
-      processURLAsync(document.id, url, ragService);
+      const job = await ingestionQueue.enqueueUrl(document, url);
 
-      res.json({ documentId: document.id });
+      res.json({ documentId: document.id, jobId: job.id });
     } catch (error) {
       res.status(500).json({ error: "Failed to add document" });
     }
@@ -248,24 +709,275 @@ ${context}`
   // Get document status
   app.get("/api/documents/:id/status", async (req, res) => {
     try {
-      const document = await storage.getDocument(req.params.id);
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
 
-      const ragStatus = ragService.getDocumentStatus(req.params.id);
+      const ragStatus = await ragService.getDocumentStatus(req.params.id);
       
       res.json({
         status: document.status,
         pages: document.pages,
         tokens: document.tokens,
-        chunkCount: ragStatus.chunkCount
+        chunkCount: ragStatus.chunkCount,
+        needsReindex: ragStatus.needsReindex,
+        job: await ingestionQueue.snapshot(req.params.id) ?? null
       });
     } catch (error) {
       res.status(500).json({ error: "Failed to get document status" });
     }
   });
 
+  // Stream ingestion progress: the current state first, then every update
+  // until the job completes, fails or is cancelled
+  app.get("/api/documents/:id/events", async (req, res) => {
+    try {
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.flushHeaders();
+
+      const send = (progress: IngestionProgress) => {
+        const type = progress.status === 'completed' ? 'done'
+          : progress.status === 'failed' ? 'error'
+          : progress.status === 'cancelled' ? 'cancelled'
+          : 'progress';
+        res.write(`data: ${JSON.stringify({ type, data: progress })}\n\n`);
+        if (type !== 'progress') close();
+      };
+      // Comment lines keep proxies from timing out an idle stream
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+      const unsubscribe = ingestionQueue.subscribe(document.id, send);
+      const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+      };
+      req.on('close', close);
+
+      const snapshot = await ingestionQueue.snapshot(document.id);
+      if (snapshot) {
+        send(snapshot);
+      } else {
+        // Documents ingested before jobs existed have nothing to stream
+        res.write(`data: ${JSON.stringify({ type: document.status === 'error' ? 'error' : 'done', data: null })}\n\n`);
+        close();
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ error: "Failed to stream document progress" });
+      }
+    }
+  });
+
+  // Original uploaded file, for the document viewer and downloads
+  app.get("/api/documents/:id/file", async (req, res) => {
+    try {
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (!(await uploads.has(document.id))) {
+        return res.status(404).json({ error: "The original file is not stored for this document" });
+      }
+
+      // The type follows the detected format, never the uploader's claim,
+      // so a stored file cannot be served as HTML
+      const job = await storage.getLatestIngestionJob(document.id);
+      const source = (job?.kind === 'file' ? job.source : {}) as ExtractOptions;
+      const contentType = CONTENT_TYPES[document.type] || 'application/octet-stream';
+      const disposition = isInlineType(contentType) ? 'inline' : 'attachment';
+      res.type(contentType);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(source.filename || document.title)}`);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.sendFile(path.resolve(uploads.pathFor(document.id)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to load document file" });
+    }
+  });
+
+  // Text of one indexed chunk, used to highlight a cited passage
+  app.get("/api/documents/:id/chunks/:chunkId", async (req, res) => {
+    try {
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const chunk = await ragService.getChunk(document.id, req.params.chunkId);
+      if (!chunk) {
+        return res.status(404).json({ error: "Chunk not found" });
+      }
+      res.json({ id: chunk.id, text: chunk.text, metadata: chunk.metadata });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch chunk" });
+    }
+  });
+
+  // Cancel a queued or running ingestion
+  app.post("/api/documents/:id/cancel", async (req, res) => {
+    try {
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      if (!(await ingestionQueue.cancel(document.id))) {
+        return res.status(409).json({ error: "Document is not being processed" });
+      }
+      res.json({ cancelled: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel processing" });
+    }
+  });
+
+  // Rename document
+  app.patch("/api/documents/:id", async (req, res) => {
+    try {
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const { title } = z.object({ title: z.string().trim().min(1).max(200) }).parse(req.body);
+      const updatedDocument = await storage.updateDocument(document.id, { title });
+      res.json(updatedDocument);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "A title is required" });
+      }
+      res.status(500).json({ error: "Failed to update document" });
+    }
+  });
+
+  // Delete document: stops its ingestion, then removes the stored file, the
+  // indexed chunks and the row
+  app.delete("/api/documents/:id", async (req, res) => {
+    try {
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      await ingestionQueue.cancel(document.id);
+      await ragService.removeDocument(document.id);
+      await uploads.remove(document.id);
+      await storage.deleteDocument(document.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(`Failed to delete document ${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete document" });
+    }
+  });
+
+  // Re-index document from its original source with the current chunker
+  // and embedding model
+  app.post("/api/documents/:id/reindex", async (req, res) => {
+    try {
+      const document = ownedBy(await storage.getDocument(req.params.id), req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const job = await ingestionQueue.reindex(document);
+      res.json({ documentId: document.id, jobId: job.id });
+    } catch (error) {
+      if (error instanceof IngestionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to re-index document" });
+    }
+  });
+
+  // ==== COLLECTION ROUTES ====
+
+  // Get all collections for user
+  app.get("/api/collections", async (req, res) => {
+    try {
+      const collections = await storage.getCollectionsByUser(req.user!.id);
+      res.json(collections);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch collections" });
+    }
+  });
+
+  // Create collection; documents the caller does not own are dropped
+  app.post("/api/collections", async (req, res) => {
+    try {
+      const validatedData = insertCollectionSchema.parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      const documentIds = validatedData.documentIds?.length
+        ? await resolveDocumentIds(req, validatedData.documentIds)
+        : [];
+      const collection = await storage.createCollection({ ...validatedData, documentIds });
+      res.json(collection);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid collection data" });
+    }
+  });
+
+  // Get collection
+  app.get("/api/collections/:id", async (req, res) => {
+    try {
+      const collection = ownedBy(await storage.getCollection(req.params.id), req);
+      if (!collection) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+      res.json(collection);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch collection" });
+    }
+  });
+
+  // Rename a collection or replace its documents
+  app.patch("/api/collections/:id", async (req, res) => {
+    try {
+      const collection = ownedBy(await storage.getCollection(req.params.id), req);
+      if (!collection) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+
+      const updates = insertCollectionSchema.pick({ name: true, description: true, documentIds: true }).partial().parse(req.body);
+      if (updates.documentIds) {
+        updates.documentIds = updates.documentIds.length ? await resolveDocumentIds(req, updates.documentIds) : [];
+      }
+      const updatedCollection = await storage.updateCollection(collection.id, updates);
+      res.json(updatedCollection);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid collection data" });
+      }
+      res.status(500).json({ error: "Failed to update collection" });
+    }
+  });
+
+  // Delete collection; its documents are kept, and sessions that targeted
+  // it fall back to `metadata.documentIds` (all documents when unset)
+  app.delete("/api/collections/:id", async (req, res) => {
+    try {
+      const collection = ownedBy(await storage.getCollection(req.params.id), req);
+      if (!collection) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+
+      await storage.deleteCollection(collection.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete collection" });
+    }
+  });
+
   // ==== QUIZ ROUTES ====
   
   // Create quiz
@@ -287,7 +999,7 @@ ${context}`
         });
       } else if (source === 'document') {
         // Generate from document context
-        const documentIds = req.body.documentIds || [];
+        const documentIds = await resolveDocumentIds(req, req.body.documentIds);
         const searchResults = await ragService.hybridSearch(topic, documentIds, 10);
         const { context } = ragService.generateContextForLLM(searchResults);
         
@@ -302,7 +1014,7 @@ ${context}`
       }
 
       const quiz = await storage.createQuiz({
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         title: `${subject} - ${topic}`,
         subject,
         topic,
@@ -322,7 +1034,7 @@ ${context}`
   // Get all quizzes for user
   app.get("/api/quizzes", async (req, res) => {
     try {
-      const userId = 'default-user'; // In production, get from session
+      const userId = req.user!.id;
       const quizzes = await storage.getQuizzesByUser(userId);
       res.json(quizzes);
     } catch (error) {
@@ -333,7 +1045,7 @@ ${context}`
   // Get quiz
   app.get("/api/quizzes/:id", async (req, res) => {
     try {
-      const quiz = await storage.getQuiz(req.params.id);
+      const quiz = ownedBy(await storage.getQuiz(req.params.id), req);
       if (!quiz) {
         return res.status(404).json({ error: "Quiz not found" });
       }
@@ -346,7 +1058,7 @@ ${context}`
   // Grade quiz
   app.post("/api/quizzes/:id/grade", async (req, res) => {
     try {
-      const quiz = await storage.getQuiz(req.params.id);
+      const quiz = ownedBy(await storage.getQuiz(req.params.id), req);
       if (!quiz) {
         return res.status(404).json({ error: "Quiz not found" });
       }
@@ -377,7 +1089,7 @@ ${context}`
       // Save attempt
       const attempt = await storage.createQuizAttempt({
         quizId: req.params.id,
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         answers,
         score,
         totalQuestions: questions.length,
@@ -404,7 +1116,7 @@ ${context}`
   // Get all study plans for user
   app.get("/api/study-plans", async (req, res) => {
     try {
-      const userId = 'default-user'; // In production, get from session
+      const userId = req.user!.id;
       const plans = await storage.getStudyPlansByUser(userId);
       res.json(plans);
     } catch (error) {
@@ -428,7 +1140,7 @@ ${context}`
       });
 
       const plan = await storage.createStudyPlan({
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         title: `${exam} Study Plan`,
         exam,
         subjects,
@@ -451,7 +1163,7 @@ ${context}`
   // Get study plan
   app.get("/api/study-plans/:id", async (req, res) => {
     try {
-      const plan = await storage.getStudyPlan(req.params.id);
+      const plan = ownedBy(await storage.getStudyPlan(req.params.id), req);
       if (!plan) {
         return res.status(404).json({ error: "Study plan not found" });
       }
@@ -466,7 +1178,7 @@ ${context}`
   // Get all notes for user
   app.get("/api/notes", async (req, res) => {
     try {
-      const userId = 'default-user'; // In production, get from session
+      const userId = req.user!.id;
       const notes = await storage.getNotesByUser(userId);
       res.json(notes);
     } catch (error) {
@@ -478,7 +1190,7 @@ ${context}`
   app.post("/api/notes", async (req, res) => {
     try {
       const note = await storage.createNote({
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         title: req.body.title || 'Untitled Note',
         content: req.body.content || { cues: '', notes: '', summary: '' },
         sources: req.body.sources || [],
@@ -498,20 +1210,41 @@ ${context}`
       const { content, urls, language = 'en' } = req.body;
       
       let textContent = content || '';
+      const sources: string[] = [];
       
-      // If URLs provided, fetch and extract content (simplified)
-      if (urls && urls.length > 0) {
-        // In production, would implement proper URL content extraction
-        textContent += '\n[URL content extraction not implemented in demo]';
+      // Fetch each URL and append its readable text under its title
+      if (Array.isArray(urls) && urls.length > 0) {
+        if (urls.length > MAX_SUMMARIZE_URLS) {
+          return res.status(400).json({ error: `At most ${MAX_SUMMARIZE_URLS} URLs can be summarized at once` });
+        }
+
+        const pages = await Promise.allSettled(urls.map((url: string) => fetchAndExtract(String(url))));
+        const failures: string[] = [];
+        pages.forEach((result, index) => {
+          if (result.status === 'rejected') {
+            failures.push(`${urls[index]}: ${(result.reason as Error).message}`);
+            return;
+          }
+          const page = result.value;
+          textContent += `\n\n# ${page.title || page.url}\n${page.blocks.map(block => block.text).join('\n\n')}`;
+          sources.push(page.canonicalUrl || page.url);
+        });
+
+        if (failures.length > 0 && !textContent.trim()) {
+          return res.status(422).json({ error: "Could not read any of the URLs", details: failures });
+        }
       }
 
+      // Keep the prompt within a sensible size for very long articles
+      textContent = textContent.slice(0, MAX_SUMMARIZE_CHARS);
+
       const cornellNotes = await geminiService.generateCornellNotes(textContent, language);
       
       const note = await storage.createNote({
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         title: req.body.title || 'Generated Notes',
         content: cornellNotes,
-        sources: urls || [],
+        sources,
         flashcards: cornellNotes.flashcards || [],
         tags: req.body.tags || []
       });
@@ -526,7 +1259,7 @@ ${context}`
   // Get note
   app.get("/api/notes/:id", async (req, res) => {
     try {
-      const note = await storage.getNote(req.params.id);
+      const note = ownedBy(await storage.getNote(req.params.id), req);
       if (!note) {
         return res.status(404).json({ error: "Note not found" });
       }
@@ -539,10 +1272,12 @@ ${context}`
   // Update note
   app.patch("/api/notes/:id", async (req, res) => {
     try {
-      const updatedNote = await storage.updateNote(req.params.id, req.body);
-      if (!updatedNote) {
+      const note = ownedBy(await storage.getNote(req.params.id), req);
+      if (!note) {
         return res.status(404).json({ error: "Note not found" });
       }
+      const { id, userId, createdAt, ...updates } = req.body;
+      const updatedNote = await storage.updateNote(req.params.id, updates);
       res.json(updatedNote);
     } catch (error) {
       res.status(500).json({ error: "Failed to update note" });
@@ -554,7 +1289,7 @@ ${context}`
   // Get all flashcards for user
   app.get("/api/flashcards", async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'default-user';
+      const userId = req.user!.id;
       const flashcards = await storage.getFlashcardsByUser(userId);
       res.json(flashcards);
     } catch (error) {
@@ -565,7 +1300,7 @@ ${context}`
   // Get due flashcards for review (SRS)
   app.get("/api/flashcards/due", async (req, res) => {
     try {
-      const userId = req.query.userId as string || 'default-user';
+      const userId = req.user!.id;
       const allCards = await storage.getFlashcardsByUser(userId);
       const now = new Date();
       const dueCards = allCards.filter(card => 
@@ -580,8 +1315,12 @@ ${context}`
   // Create flashcard
   app.post("/api/flashcards", async (req, res) => {
     try {
+      if (req.body.noteId && !ownedBy(await storage.getNote(req.body.noteId), req)) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+
       const flashcard = await storage.createFlashcard({
-        userId: req.body.userId || 'default-user',
+        userId: req.user!.id,
         noteId: req.body.noteId || null,
         front: req.body.front,
         back: req.body.back,
@@ -599,7 +1338,7 @@ ${context}`
   // Get flashcard
   app.get("/api/flashcards/:id", async (req, res) => {
     try {
-      const flashcard = await storage.getFlashcard(req.params.id);
+      const flashcard = ownedBy(await storage.getFlashcard(req.params.id), req);
       if (!flashcard) {
         return res.status(404).json({ error: "Flashcard not found" });
       }
@@ -612,10 +1351,15 @@ ${context}`
   // Update flashcard (generic update)
   app.put("/api/flashcards/:id", async (req, res) => {
     try {
-      const updated = await storage.updateFlashcard(req.params.id, req.body);
-      if (!updated) {
+      const flashcard = ownedBy(await storage.getFlashcard(req.params.id), req);
+      if (!flashcard) {
         return res.status(404).json({ error: "Flashcard not found" });
       }
+      const { id, userId, createdAt, ...updates } = req.body;
+      if (updates.noteId && !ownedBy(await storage.getNote(updates.noteId), req)) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      const updated = await storage.updateFlashcard(req.params.id, updates);
       res.json(updated);
     } catch (error) {
       res.status(500).json({ error: "Failed to update flashcard" });
@@ -626,7 +1370,7 @@ ${context}`
   app.put("/api/flashcards/:id/review", async (req, res) => {
     try {
       const { rating } = req.body; // 0-5: 0=total blackout, 5=perfect recall
-      const flashcard = await storage.getFlashcard(req.params.id);
+      const flashcard = ownedBy(await storage.getFlashcard(req.params.id), req);
       
       if (!flashcard) {
         return res.status(404).json({ error: "Flashcard not found" });
@@ -635,7 +1379,7 @@ ${context}`
       // SM-2 algorithm with ease factor
       // Use 'difficulty' field to store ease factor (starts at 2.5, min 1.3)
       let easeFactor = flashcard.difficulty || 2.5;
-      let { interval = 1 } = flashcard;
+      let interval = flashcard.interval ?? 1;
       
       // Update ease factor based on rating
       easeFactor = easeFactor + (0.1 - (5 - rating) * (0.08 + (5 - rating) * 0.02));
@@ -717,51 +1461,43 @@ ${context}`
   return httpServer;
 }
 
-// Helper functions for async processing
-async function processDocumentAsync(documentId: string, buffer: Buffer, ragService: RAGService) {
-  try {
-    // In production, would use proper PDF parsing library
-    const text = buffer.toString('utf-8');
-    
-    await ragService.ingestDocument(documentId, text, {
-      title: `Document ${documentId}`,
-      type: 'pdf',
-      source: documentId
-    });
+// Documents marked 'ready' whose chunks are gone (e.g. the vector store was
+// reset) would silently return nothing in DocChat; flag them instead.
+async function verifyDocumentIndex(ragService: RAGService) {
+  const indexed = await ragService.listIndexedDocuments();
+  const readyDocuments = await storage.getDocumentsByStatus('ready');
 
-    await storage.updateDocument(documentId, {
-      status: 'ready',
-      pages: Math.ceil(text.length / 2000), // Rough page estimate
-      tokens: Math.ceil(text.length / 4) // Rough token estimate
-    });
+  for (const document of readyDocuments) {
+    if (indexed.has(document.id)) continue;
 
-    console.log(`Document ${documentId} processed successfully`);
-  } catch (error) {
-    console.error(`Failed to process document ${documentId}:`, error);
-    await storage.updateDocument(documentId, { status: 'error' });
+    await storage.updateDocument(document.id, {
+      status: 'error',
+      metadata: {
+        ...(document.metadata as Record<string, unknown> || {}),
+        error: `Search index is missing for this document. Re-index it to rebuild the index (POST /api/documents/${document.id}/reindex).`
+      }
+    });
+    console.warn(`Document ${document.id} has no indexed chunks; marked as error`);
   }
 }
 
-async function processURLAsync(documentId: string, url: string, ragService: RAGService) {
-  try {
-    // In production, would implement proper URL content extraction
-    const text = `[URL content from ${url} - extraction not implemented in demo]`;
-    
-    await ragService.ingestDocument(documentId, text, {
-      title: url,
-      type: 'url',
-      source: documentId
-    });
-
-    await storage.updateDocument(documentId, {
-      status: 'ready',
-      pages: 1,
-      tokens: Math.ceil(text.length / 4)
-    });
+// Served for stored uploads; browsers often send octet-stream for these
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  epub: 'application/epub+zip',
+  markdown: 'text/markdown; charset=utf-8',
+  text: 'text/plain; charset=utf-8'
+};
+
+// Shown in the browser by the document viewer; anything else is downloaded
+function isInlineType(contentType: string): boolean {
+  return contentType === 'application/pdf' || /^(audio|video)\//.test(contentType);
+}
 
-    console.log(`URL ${url} processed successfully`);
-  } catch (error) {
-    console.error(`Failed to process URL ${url}:`, error);
-    await storage.updateDocument(documentId, { status: 'error' });
-  }
+// Document type recorded for an uploaded file; caption files without a
+// video link are still shown as videos (transcript only)
+function documentTypeFor(format: DocumentFormat): string {
+  return format === 'transcript' ? 'video' : format;
 }
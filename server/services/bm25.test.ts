@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { BM25Index } from './bm25';
+
+function library() {
+  const index = new BM25Index();
+  index.addDocument('physics', [
+    { id: 'p1', text: 'Force equals mass times acceleration. Force is measured in newtons.' },
+    { id: 'p2', text: 'Acceleration is the rate of change of velocity over time, measured in metres per second squared.' },
+    { id: 'p3', text: 'Friction is a force that opposes motion between surfaces.' }
+  ]);
+  index.addDocument('biology', [
+    { id: 'b1', text: 'Plants make glucose by photosynthesis. प्रकाश संश्लेषण पत्तियों में होता है।' }
+  ]);
+  return index;
+}
+
+describe('BM25Index', () => {
+  it('ranks chunks by term frequency and length, scores relative to the best', () => {
+    const results = library().search('force acceleration');
+
+    // p1 has both terms; p3 and p2 one equally rare term each, p3 in fewer words
+    expect(results.map(result => result.chunkId)).toEqual(['p1', 'p3', 'p2']);
+    expect(results[0].score).toBe(1);
+    expect(results[1].score).toBeLessThan(1);
+    expect(results[2].score).toBeLessThan(results[1].score);
+  });
+
+  it('matches Hindi queries in either script', () => {
+    const index = library();
+    expect(index.search('prakash sanshleshan').map(result => result.chunkId)).toEqual(['b1']);
+    expect(index.search('प्रकाश').map(result => result.chunkId)).toEqual(['b1']);
+  });
+
+  it('filters by document and limits results without changing scores', () => {
+    const index = library();
+    const all = index.search('force');
+
+    expect(index.search('force', { limit: 1 })).toEqual(all.slice(0, 1));
+    expect(index.search('force', { documentIds: ['biology'] })).toEqual([]);
+    expect(index.search('photosynthesis', { documentIds: ['biology'] })).toEqual([{ chunkId: 'b1', score: 1 }]);
+  });
+
+  it('replaces and removes documents', () => {
+    const index = library();
+    index.addDocument('physics', [{ id: 'p9', text: 'Momentum is mass times velocity.' }]);
+
+    expect(index.size).toBe(2);
+    expect(index.search('force')).toEqual([]);
+    expect(index.search('momentum').map(result => result.chunkId)).toEqual(['p9']);
+
+    index.removeDocument('physics');
+    index.removeDocument('biology');
+    expect(index.size).toBe(0);
+    expect(index.search('momentum')).toEqual([]);
+  });
+
+  it('returns nothing for queries of stopwords only', () => {
+    expect(library().search('what is the')).toEqual([]);
+  });
+});
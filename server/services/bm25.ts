@@ -0,0 +1,101 @@
+import { tokenize } from './tokenizer';
+
+// Okapi BM25 over an inverted index that is updated as documents are
+// ingested or removed. A query only touches the postings of its own terms,
+// so cost grows with matching chunks rather than with the whole library.
+export class BM25Index {
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> chunkId -> term frequency
+  private chunkLengths: Map<string, number> = new Map();
+  private chunkTerms: Map<string, string[]> = new Map(); // chunkId -> distinct terms, for removal
+  private chunkDocument: Map<string, string> = new Map(); // chunkId -> documentId
+  private documentChunks: Map<string, string[]> = new Map(); // documentId -> chunkIds
+  private totalLength = 0;
+
+  constructor(private k1: number = 1.5, private b: number = 0.75) {}
+
+  get size(): number {
+    return this.chunkLengths.size;
+  }
+
+  // Replaces whatever was indexed for the document before
+  addDocument(documentId: string, chunks: Array<{ id: string; text: string }>) {
+    this.removeDocument(documentId);
+
+    for (const chunk of chunks) {
+      const tokens = tokenize(chunk.text);
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+
+      for (const [term, frequency] of Array.from(frequencies.entries())) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(chunk.id, frequency);
+      }
+
+      this.chunkLengths.set(chunk.id, tokens.length);
+      this.chunkTerms.set(chunk.id, Array.from(frequencies.keys()));
+      this.chunkDocument.set(chunk.id, documentId);
+      this.totalLength += tokens.length;
+    }
+
+    this.documentChunks.set(documentId, chunks.map(chunk => chunk.id));
+  }
+
+  removeDocument(documentId: string) {
+    for (const chunkId of this.documentChunks.get(documentId) || []) {
+      for (const term of this.chunkTerms.get(chunkId) || []) {
+        const posting = this.postings.get(term);
+        posting?.delete(chunkId);
+        if (posting && posting.size === 0) this.postings.delete(term);
+      }
+
+      this.totalLength -= this.chunkLengths.get(chunkId) || 0;
+      this.chunkLengths.delete(chunkId);
+      this.chunkTerms.delete(chunkId);
+      this.chunkDocument.delete(chunkId);
+    }
+    this.documentChunks.delete(documentId);
+  }
+
+  // Scores normalized to [0, 1] by the best match, highest first. Collection
+  // statistics (IDF, average length) are corpus-wide; `documentIds` only
+  // filters which chunks are returned.
+  search(query: string, options: { documentIds?: string[]; limit?: number } = {}): Array<{ chunkId: string; score: number }> {
+    const allowed = options.documentIds ? new Set(options.documentIds) : null;
+    const chunkCount = this.chunkLengths.size;
+    if (chunkCount === 0) return [];
+
+    const averageLength = this.totalLength / chunkCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of Array.from(new Set(tokenize(query)))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      // Lucene's IDF variant, which stays positive for very common terms
+      const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [chunkId, frequency] of Array.from(posting.entries())) {
+        if (allowed && !allowed.has(this.chunkDocument.get(chunkId)!)) continue;
+
+        const length = this.chunkLengths.get(chunkId) || 0;
+        const termScore = idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * (length / averageLength)));
+        scores.set(chunkId, (scores.get(chunkId) || 0) + termScore);
+      }
+    }
+
+    const ranked = Array.from(scores.entries())
+      .map(([chunkId, score]) => ({ chunkId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? scores.size);
+
+    const best = ranked[0]?.score || 1;
+    return ranked.map(result => ({ chunkId: result.chunkId, score: result.score / best }));
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { chunkStructured, splitSentences } from './chunker';
+import { estimateTokens } from './tokens';
+
+describe('splitSentences', () => {
+  it('does not end sentences at units, decimals or formulas', () => {
+    expect(splitSentences('A body falls at 9.8 m/s². After 2 s its speed is $v = 9.8 \\times 2$ m/s. Why? Gravity.')).toEqual([
+      'A body falls at 9.8 m/s².',
+      'After 2 s its speed is $v = 9.8 \\times 2$ m/s.',
+      'Why?',
+      'Gravity.'
+    ]);
+  });
+
+  it('keeps a full stop inside inline and display math', () => {
+    expect(splitSentences('We use $a = 1. B$ here. Then $$x = 2. Y$$ follows. Also \\(t = 3. S\\) holds.')).toEqual([
+      'We use $a = 1. B$ here.',
+      'Then $$x = 2. Y$$ follows.',
+      'Also \\(t = 3. S\\) holds.'
+    ]);
+  });
+
+  it('skips abbreviations and initials', () => {
+    expect(splitSentences('Dr. Raman measured it, e.g. With light. C. V. Raman won in 1930. Next, Fig. 3 shows it.')).toEqual([
+      'Dr. Raman measured it, e.g. With light.',
+      'C. V. Raman won in 1930.',
+      'Next, Fig. 3 shows it.'
+    ]);
+  });
+
+  it('ends Hindi sentences at the danda', () => {
+    expect(splitSentences('बल एक धक्का है। यह न्यूटन में मापा जाता है।')).toEqual(['बल एक धक्का है।', 'यह न्यूटन में मापा जाता है।']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitSentences('  \n ')).toEqual([]);
+  });
+});
+
+describe('chunkStructured', () => {
+  it('keeps small text in one chunk under the given section', () => {
+    expect(chunkStructured('Force is a push.\n\nIt has a direction.', { maxTokens: 100, overlapTokens: 10, section: 'Forces' }))
+      .toEqual([{ text: 'Force is a push.\n\nIt has a direction.', section: 'Forces' }]);
+  });
+
+  it('starts a chunk at every heading and names its section', () => {
+    const chunks = chunkStructured('Intro text.\n\n# Motion\nBodies move.\n\n## Speed ##\nSpeed is distance over time.', { maxTokens: 100, overlapTokens: 10 });
+
+    expect(chunks).toEqual([
+      { text: 'Intro text.', section: undefined },
+      { text: 'Bodies move.', section: 'Motion' },
+      { text: 'Speed is distance over time.', section: 'Speed' }
+    ]);
+  });
+
+  it('cuts long paragraphs between sentences and repeats the last ones', () => {
+    const sentences = ['Force changes motion.', 'Mass resists that change.', 'Acceleration follows from both.', 'Newton wrote this down.'];
+    const chunks = chunkStructured(sentences.join(' '), { maxTokens: 15, overlapTokens: 8 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([
+      'Force changes motion. Mass resists that change.',
+      'Mass resists that change. Acceleration follows from both.',
+      'Acceleration follows from both. Newton wrote this down.'
+    ]);
+    for (const chunk of chunks) expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(15);
+  });
+
+  it('does not overlap when overlapTokens is 0 or a sentence is too long for it', () => {
+    const text = 'Force changes motion. Mass resists that change. Acceleration follows from both.';
+
+    expect(chunkStructured(text, { maxTokens: 15, overlapTokens: 0 }).map(chunk => chunk.text))
+      .toEqual(['Force changes motion. Mass resists that change.', 'Acceleration follows from both.']);
+    expect(chunkStructured(text, { maxTokens: 15, overlapTokens: 6 }).map(chunk => chunk.text))
+      .toEqual(['Force changes motion. Mass resists that change.', 'Acceleration follows from both.']);
+  });
+
+  it('never splits an equation, table or code block, even an oversized one', () => {
+    const equation = '$$\nF = m \\cdot a = 2 \\cdot 9.8 = 19.6\n$$';
+    const table = '| Quantity | Unit |\n|---|---|\n| Force | Newton |\n| Mass | Kilogram |';
+    const code = '```python\nforce = mass * acceleration\nprint(force)\n```';
+    const chunks = chunkStructured(`Newton's law.\n\n${equation}\n\n${table}\n\n${code}`, { maxTokens: 8, overlapTokens: 4 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual(["Newton's law.", equation, table, code]);
+  });
+
+  it('keeps display math with \\[ \\] and environments whole and does not repeat it', () => {
+    const bracket = '\\[\nv^2 = u^2 + 2as\n\\]';
+    const aligned = '\\begin{align}\ns = ut + \\tfrac{1}{2}at^2\n\\end{align}';
+    const chunks = chunkStructured(`${bracket}\n${aligned}\nThe car stops.`, { maxTokens: 45, overlapTokens: 45 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([`${bracket}\n\n${aligned}`, 'The car stops.']);
+  });
+
+  it('cuts a sentence longer than a chunk between words, not inside inline math', () => {
+    const chunks = chunkStructured('The speed is $v = u + at$ under constant acceleration', { maxTokens: 8, overlapTokens: 0 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual(['The speed is', '$v = u + at$', 'under constant acceleration']);
+  });
+
+  it('keeps list items with their continuation lines and joins them line by line', () => {
+    const chunks = chunkStructured('- Force: a push\n  or a pull\n- Mass: inertia\n1. First law', { maxTokens: 100, overlapTokens: 0 });
+
+    expect(chunks).toEqual([{ text: '- Force: a push\n  or a pull\n- Mass: inertia\n1. First law', section: undefined }]);
+  });
+});
@@ -0,0 +1,300 @@
+import { estimateTokens } from './tokens';
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+  section?: string; // heading the text sits under, if the extractor knows it
+}
+
+export interface TextChunk {
+  text: string;
+  section?: string;
+}
+
+type UnitKind = 'heading' | 'paragraph' | 'list' | 'math' | 'table' | 'code';
+
+interface Unit {
+  kind: UnitKind;
+  text: string;
+  tokens: number;
+  continues?: boolean; // a later sentence of the same paragraph as the unit before it
+}
+
+// Prose can be cut between sentences; equations, tables and code cannot
+const SPLITTABLE: ReadonlySet<UnitKind> = new Set<UnitKind>(['paragraph', 'list']);
+
+const LIST_ITEM = /^\s*(?:[-*+\u2022]|\d{1,3}[.)]|[a-z][.)])\s+/;
+const HEADING = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+
+// Math spans and words are the smallest pieces a sentence is cut into, so a
+// formula such as $v = u + at$ is never torn apart
+const MATH_SPAN = /\$\$[\s\S]*?\$\$|\$[^$\n]+\$|\\\([\s\S]*?\\\)|\\\[[\s\S]*?\\\]/g;
+const WORDS = /\$\$[\s\S]*?\$\$|\$[^$\n]+\$|\\\([\s\S]*?\\\)|\\\[[\s\S]*?\\\]|\S+/g;
+
+// A full stop after these is not the end of a sentence
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'viz', 'cf', 'al', 'approx', 'fig', 'figs', 'eq', 'eqs', 'no', 'nos', 'vol',
+  'ch', 'sec', 'pg', 'pp', 'p', 'dr', 'mr', 'mrs', 'ms', 'prof', 'st', 'jr', 'sr', 'ltd', 'inc', 'co', 'ex', 'resp'
+]);
+
+// Splits text along its structure (headings, paragraphs, list items,
+// equations, tables, code) and packs the pieces into chunks of at most
+// `maxTokens`. Paragraphs that do not fit are cut between sentences and
+// consecutive chunks share up to `overlapTokens` of trailing sentences.
+// A heading always starts a new chunk and becomes its section.
+export function chunkStructured(text: string, options: ChunkOptions): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let section = options.section;
+  let current: Unit[] = [];
+  let currentTokens = 0;
+
+  const emit = (withOverlap: boolean) => {
+    if (current.length === 0) return;
+    chunks.push({ text: joinUnits(current), section });
+    current = withOverlap ? overlapTail(current, options.overlapTokens) : [];
+    currentTokens = current.reduce((sum, unit) => sum + unit.tokens, 0);
+  };
+  const add = (unit: Unit) => {
+    if (currentTokens > 0 && currentTokens + unit.tokens > options.maxTokens) {
+      emit(true);
+      // The overlap alone may leave no room for the next piece
+      if (currentTokens + unit.tokens > options.maxTokens) {
+        current = [];
+        currentTokens = 0;
+      }
+    }
+    current.push(unit);
+    currentTokens += unit.tokens;
+  };
+
+  for (const unit of splitIntoUnits(text)) {
+    if (unit.kind === 'heading') {
+      emit(false);
+      section = unit.text;
+      continue;
+    }
+
+    if (unit.tokens <= options.maxTokens || !SPLITTABLE.has(unit.kind)) {
+      add(unit);
+      continue;
+    }
+
+    // An oversized paragraph is packed sentence by sentence, and a sentence
+    // that is still too long word by word
+    splitSentences(unit.text).forEach((sentence, index) => {
+      const tokens = estimateTokens(sentence);
+      if (tokens <= options.maxTokens) {
+        add({ kind: unit.kind, text: sentence, tokens, continues: index > 0 });
+      } else {
+        splitWords(sentence, options.maxTokens).forEach((piece, pieceIndex) => {
+          add({ kind: unit.kind, text: piece, tokens: estimateTokens(piece), continues: index > 0 || pieceIndex > 0 });
+        });
+      }
+    });
+  }
+  emit(false);
+
+  return chunks;
+}
+
+// Sentence boundaries: terminal punctuation (including the Devanagari danda)
+// followed by whitespace and the start of a new sentence, unless the full
+// stop belongs to an abbreviation or an initial, or sits inside a formula
+export function splitSentences(text: string): string[] {
+  const protectedRanges: Array<[number, number]> = [];
+  for (const match of Array.from(text.matchAll(MATH_SPAN))) {
+    protectedRanges.push([match.index!, match.index! + match[0].length]);
+  }
+  const isProtected = (position: number) => protectedRanges.some(([start, end]) => position >= start && position < end);
+
+  const sentences: string[] = [];
+  const boundary = /[.!?\u0964]+["')\]]*(?=\s+(?:["'([$\\]|[A-Z0-9\u00c0-\u00de\u0900-\u097f]))/g;
+  let start = 0;
+
+  for (const match of Array.from(text.matchAll(boundary))) {
+    const end = match.index! + match[0].length;
+    if (isProtected(match.index!)) continue;
+
+    if (match[0].startsWith('.')) {
+      const word = text.slice(start, match.index!).match(/(\S+)$/)?.[1] || '';
+      const bare = word.replace(/^[("'[]+/, '').toLowerCase();
+      if (ABBREVIATIONS.has(bare) || /^[a-z]$/i.test(bare) || /^([a-z]\.)+[a-z]$/i.test(bare)) continue;
+    }
+
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+}
+
+function splitWords(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const word of text.match(WORDS) || []) {
+    const wordTokens = estimateTokens(word);
+    if (tokens > 0 && tokens + wordTokens > maxTokens) {
+      pieces.push(current.join(' '));
+      current = [];
+      tokens = 0;
+    }
+    current.push(word);
+    tokens += wordTokens;
+  }
+  if (current.length > 0) pieces.push(current.join(' '));
+
+  return pieces;
+}
+
+// Trailing whole sentences of the chunk's closing prose, within the overlap
+// budget. Equations, tables and code are never repeated.
+function overlapTail(units: Unit[], overlapTokens: number): Unit[] {
+  const tail: Unit[] = [];
+  let tokens = 0;
+
+  for (let u = units.length - 1; u >= 0 && SPLITTABLE.has(units[u].kind); u--) {
+    const sentences = splitSentences(units[u].text);
+    for (let i = sentences.length - 1; i >= 0; i--) {
+      const sentenceTokens = estimateTokens(sentences[i]);
+      if (tokens + sentenceTokens > overlapTokens) return tail;
+      tail.unshift({
+        kind: units[u].kind,
+        text: sentences[i],
+        tokens: sentenceTokens,
+        continues: i > 0 || !!units[u].continues
+      });
+      tokens += sentenceTokens;
+    }
+  }
+
+  return tail;
+}
+
+// Sentences of one paragraph rejoin with a space, consecutive list items
+// with a line break and everything else with a blank line
+function joinUnits(units: Unit[]): string {
+  return units.map((unit, index) => {
+    if (index === 0) return unit.text;
+    const separator = unit.continues ? ' '
+      : unit.kind === 'list' && units[index - 1].kind === 'list' ? '\n'
+      : '\n\n';
+    return separator + unit.text;
+  }).join('');
+}
+
+// Breaks text into structural units. Multi-line constructs (display math,
+// code fences, tables, list items with continuation lines) are kept whole.
+function splitIntoUnits(text: string): Unit[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const units: Unit[] = [];
+  const push = (kind: UnitKind, unitLines: string[]) => {
+    const unitText = unitLines.join('\n').trim();
+    if (unitText) units.push({ kind, text: unitText, tokens: estimateTokens(unitText) });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    const fence = trimmed.match(/^(`{3,}|~{3,})/);
+    if (fence) {
+      const end = findLine(lines, i + 1, next => next.trim().startsWith(fence[1]));
+      push('code', lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    const mathEnd = displayMathEnd(lines, i);
+    if (mathEnd !== null) {
+      push('math', lines.slice(i, mathEnd + 1));
+      i = mathEnd + 1;
+      continue;
+    }
+
+    const heading = trimmed.match(HEADING);
+    if (heading) {
+      units.push({ kind: 'heading', text: heading[1], tokens: 0 });
+      i++;
+      continue;
+    }
+
+    if (isTableLine(trimmed) && (isTableLine(lines[i + 1]?.trim() || '') || trimmed.startsWith('|'))) {
+      let end = i;
+      while (end + 1 < lines.length && isTableLine(lines[end + 1].trim())) end++;
+      push('table', lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      // Continuation lines belong to the item until a blank line or the next item
+      let end = i;
+      while (end + 1 < lines.length && lines[end + 1].trim() && !LIST_ITEM.test(lines[end + 1]) && !startsConstruct(lines, end + 1)) {
+        end++;
+      }
+      push('list', lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end + 1 < lines.length && lines[end + 1].trim() && !LIST_ITEM.test(lines[end + 1]) && !startsConstruct(lines, end + 1)) {
+      end++;
+    }
+    push('paragraph', lines.slice(i, end + 1));
+    i = end + 1;
+  }
+
+  return units;
+}
+
+function startsConstruct(lines: string[], index: number): boolean {
+  const trimmed = lines[index].trim();
+  return /^(`{3,}|~{3,})/.test(trimmed) || HEADING.test(trimmed) || displayMathEnd(lines, index) !== null ||
+    (trimmed.startsWith('|') && isTableLine(trimmed));
+}
+
+// Index of the line closing a display equation opened on `start`, or null
+// when the line does not open one. Unclosed equations run to the end.
+function displayMathEnd(lines: string[], start: number): number | null {
+  const trimmed = lines[start].trim();
+
+  if (trimmed.startsWith('$$')) {
+    if ((trimmed.match(/\$\$/g) || []).length % 2 === 0) return start;
+    return findLine(lines, start + 1, line => line.includes('$$'));
+  }
+  if (trimmed.startsWith('\\[')) {
+    if (trimmed.includes('\\]')) return start;
+    return findLine(lines, start + 1, line => line.includes('\\]'));
+  }
+  const environment = trimmed.match(/^\\begin\{([a-zA-Z*]+)\}/);
+  if (environment) {
+    const close = `\\end{${environment[1]}}`;
+    if (trimmed.includes(close)) return start;
+    return findLine(lines, start + 1, line => line.includes(close));
+  }
+  return null;
+}
+
+function findLine(lines: string[], from: number, predicate: (line: string) => boolean): number {
+  for (let i = from; i < lines.length; i++) {
+    if (predicate(lines[i])) return i;
+  }
+  return lines.length - 1;
+}
+
+// Markdown pipe tables and the "cell | cell" rows the slide extractor emits
+function isTableLine(line: string): boolean {
+  return (line.match(/\|/g) || []).length >= 2 || /^\|.*\|$/.test(line) || / \| /.test(line);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { formatCitationLocation } from '@shared/citations';
+import { findCitationMarkers, resolveCitations } from './citations';
+import type { ContextCitation } from './rag';
+
+const CONTEXT: ContextCitation[] = [
+  {
+    marker: 1,
+    id: 'doc-1_p4_c0',
+    source: 'doc-1',
+    page: 4,
+    section: 'Friction',
+    text: 'Friction acts between surfaces in contact. It always opposes the relative motion of the surfaces.'
+  },
+  { marker: 2, id: 'doc-2_c3', source: 'doc-2', slide: 7, section: 'Newton', text: 'Force equals mass times acceleration.' },
+  { marker: 3, id: 'doc-3_c0', source: 'doc-3', startTime: 725, endTime: 785, text: 'In this lecture we look at inertia.' }
+];
+
+describe('findCitationMarkers', () => {
+  it('maps each marker to the lines that cite it, skipping Markdown links', () => {
+    const markers = findCitationMarkers('- Friction opposes motion [1].\n- F = ma [1, 2]\n- See [the notes](https://example.com) and [2]');
+
+    expect(Array.from(markers.entries())).toEqual([
+      [1, ['- Friction opposes motion .', '- F = ma']],
+      [2, ['- F = ma', '- See [the notes](https://example.com) and']]
+    ]);
+  });
+});
+
+describe('resolveCitations', () => {
+  it('keeps only cited passages, with their location and the sentence the claim draws on', () => {
+    const citations = resolveCitations('- Friction opposes the relative motion [1]\n- Hallucinated source [9]\n- F = ma [2]', CONTEXT, { 'doc-1': 'Mechanics.pdf' });
+
+    expect(citations).toEqual([
+      {
+        marker: 1,
+        chunkId: 'doc-1_p4_c0',
+        documentId: 'doc-1',
+        title: 'Mechanics.pdf',
+        page: 4,
+        section: 'Friction',
+        quote: 'It always opposes the relative motion of the surfaces.'
+      },
+      // Without a title the document id stands in; nothing overlaps, so the quote is the chunk
+      { marker: 2, chunkId: 'doc-2_c3', documentId: 'doc-2', title: 'doc-2', slide: 7, section: 'Newton', quote: 'Force equals mass times acceleration.' }
+    ]);
+  });
+
+  it('carries video times and shortens long quotes', () => {
+    const long = { ...CONTEXT[2], text: `Inertia ${'is resistance to change '.repeat(20)}` };
+    const [citation] = resolveCitations('Inertia resists change [3]', [long], {});
+
+    expect(citation).toMatchObject({ startTime: 725, endTime: 785 });
+    expect(citation.quote.length).toBeLessThanOrEqual(300);
+    expect(citation.quote.endsWith('…')).toBe(true);
+  });
+});
+
+describe('formatCitationLocation', () => {
+  it('labels pages, slides, chapters and video times', () => {
+    expect(formatCitationLocation({ page: 4, section: 'Friction' })).toBe('p.4 §Friction');
+    expect(formatCitationLocation({ slide: 7, section: 'Newton' })).toBe('slide 7');
+    expect(formatCitationLocation({ chapter: 3, page: 12, section: '3.2 Velocity' })).toBe('ch. 3 §3.2 Velocity');
+    expect(formatCitationLocation({ startTime: 725 })).toBe('12:05');
+    expect(formatCitationLocation({})).toBe('');
+  });
+});
@@ -0,0 +1,76 @@
+// Citation resolution for DocChat answers. The LLM cites context passages
+// by their number ([1], [2, 3]); only passages whose marker appears in the
+// answer are kept, each with the sentence it most likely draws on.
+
+import type { MessageCitation } from '@shared/citations';
+import { splitSentences } from './chunker';
+import { tokenize } from './tokenizer';
+import type { ContextCitation } from './rag';
+
+// [1] or [1, 3]; a bracket followed by "(" is link text, not a citation
+export const MARKER_GROUP = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?!\()/g;
+
+const MAX_QUOTE_CHARS = 300;
+
+// Marker number -> the answer lines that cite it. Answers are bullet lists,
+// so a line is the claim a marker supports.
+export function findCitationMarkers(answer: string): Map<number, string[]> {
+  const claims = new Map<number, string[]>();
+
+  for (const line of answer.split('\n')) {
+    const claim = line.replace(MARKER_GROUP, ' ').replace(/\s+/g, ' ').trim();
+    for (const match of Array.from(line.matchAll(MARKER_GROUP))) {
+      for (const marker of match[1].split(',').map(value => parseInt(value, 10))) {
+        const lines = claims.get(marker) || [];
+        if (!lines.includes(claim)) lines.push(claim);
+        claims.set(marker, lines);
+      }
+    }
+  }
+
+  return claims;
+}
+
+// Citations for the markers the answer uses, in marker order. Markers that
+// do not match a context passage (hallucinated numbers) are dropped.
+export function resolveCitations(
+  answer: string,
+  context: ContextCitation[],
+  titles: Record<string, string>
+): MessageCitation[] {
+  const claims = findCitationMarkers(answer);
+
+  return context
+    .filter(citation => claims.has(citation.marker))
+    .map(citation => ({
+      marker: citation.marker,
+      chunkId: citation.id,
+      documentId: citation.source,
+      title: titles[citation.source] || citation.source,
+      ...(citation.page !== undefined ? { page: citation.page } : {}),
+      ...(citation.slide !== undefined ? { slide: citation.slide } : {}),
+      ...(citation.chapter !== undefined ? { chapter: citation.chapter } : {}),
+      ...(citation.section ? { section: citation.section } : {}),
+      ...(citation.startTime !== undefined ? { startTime: citation.startTime, endTime: citation.endTime } : {}),
+      quote: quoteFor(citation.text, claims.get(citation.marker)!.join(' '))
+    }));
+}
+
+// The chunk sentence sharing the most terms with the claim, or the opening
+// of the chunk when nothing overlaps
+function quoteFor(text: string, claim: string): string {
+  const claimTerms = new Set(tokenize(claim));
+  let best = '';
+  let bestOverlap = 0;
+
+  for (const sentence of splitSentences(text.replace(/\s+/g, ' '))) {
+    const overlap = new Set(tokenize(sentence).filter(term => claimTerms.has(term))).size;
+    if (overlap > bestOverlap) {
+      best = sentence;
+      bestOverlap = overlap;
+    }
+  }
+
+  const quote = best || text.replace(/\s+/g, ' ').trim();
+  return quote.length > MAX_QUOTE_CHARS ? `${quote.slice(0, MAX_QUOTE_CHARS - 1).trimEnd()}…` : quote;
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ChatSession, Message } from '@shared/schema';
+import type { TutorCheckBlock } from '@shared/tutor';
+import { storage } from '../storage';
+import { ConversationContext, type ConversationMemory } from './conversation-context';
+import { FakeLLMProvider, ModelRouter } from './llm';
+
+// Runs before the imports above, which create the storage singleton
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+});
+
+const CHECK: TutorCheckBlock = {
+  kind: 'check',
+  id: 'check-1',
+  question: 'Unit of force?',
+  options: ['Joule', 'Newton'],
+  answerIndex: 1
+};
+
+// Every message costs 16 tokens: a 2-token label, ten 1-token words and
+// the per-message overhead
+function message(id: string, role: 'user' | 'assistant', metadata: unknown = null): Message {
+  return {
+    id,
+    chatSessionId: 'session',
+    parentId: null,
+    role,
+    content: `${id}${' a'.repeat(10)}`,
+    metadata,
+    createdAt: new Date()
+  };
+}
+
+// q1, r1, q2, r2, ... ending with the question qN
+function conversation(turns: number): Message[] {
+  const path: Message[] = [];
+  for (let turn = 1; turn <= turns; turn++) {
+    path.push(message(`q${turn}`, 'user'));
+    if (turn < turns) path.push(message(`r${turn}`, 'assistant'));
+  }
+  return path;
+}
+
+function session(metadata: Record<string, unknown> | null = null): Promise<ChatSession> {
+  return storage.createChatSession({ mode: 'tutor', metadata });
+}
+
+function context(options: ConstructorParameters<typeof ConversationContext>[1], memoryReplies: string[] = []) {
+  const router = new ModelRouter({
+    primary: new FakeLLMProvider({ text: memoryReplies }),
+    secondary: new FakeLLMProvider()
+  });
+  return new ConversationContext(router, options);
+}
+
+const labels = (messages: Array<{ content: string }>) => messages.map(m => m.content.split(' ')[0]);
+
+describe('ConversationContext.build', () => {
+  it('sends everything that fits the budget', async () => {
+    const built = context({ budgetTokens: 1000, keepTurns: 2 }).build(await session(), conversation(4));
+
+    expect(labels(built.messages)).toEqual(['q1', 'r1', 'q2', 'r2', 'q3', 'r3', 'q4']);
+    expect(built).toMatchObject({ tokens: 7 * 16, summarized: 0, omitted: 0 });
+  });
+
+  it('keeps recent turns and backfills earlier ones newest first, opening with a question', async () => {
+    const path = conversation(4);
+    const chat = await session();
+
+    // q3, r3, q4 and r2 fit; a history starting at r2 loses it
+    const tight = context({ budgetTokens: 70, keepTurns: 2 }).build(chat, path);
+    expect(labels(tight.messages)).toEqual(['q3', 'r3', 'q4']);
+    expect(tight).toMatchObject({ tokens: 48, omitted: 4 });
+
+    const roomier = context({ budgetTokens: 90, keepTurns: 2 }).build(chat, path);
+    expect(labels(roomier.messages)).toEqual(['q2', 'r2', 'q3', 'r3', 'q4']);
+    expect(roomier).toMatchObject({ tokens: 80, omitted: 2 });
+  });
+
+  it('drops older recent turns first and always sends the question', async () => {
+    const built = context({ budgetTokens: 20, keepTurns: 3 }).build(await session(), conversation(4));
+
+    expect(built.messages).toEqual([{ role: 'user', content: expect.stringMatching(/^q4 /) }]);
+    expect(built).toMatchObject({ tokens: 16, omitted: 6 });
+  });
+
+  it('pins objectives, the open check question and the last result whatever the budget', async () => {
+    const chat = await session({ objectives: ['State Newton\'s second law'] });
+    const path = conversation(4);
+    path[1] = message('r1', 'assistant', { blocks: [CHECK] });
+    path[5] = message('r3', 'assistant', {
+      blocks: [{ ...CHECK, id: 'check-2', answer: { selected: 0, correct: false, answeredAt: 'now' } }]
+    });
+
+    const built = context({ budgetTokens: 20, keepTurns: 2 }).build(chat, path);
+
+    expect(built.pins.map(pin => pin.label)).toEqual(['Learning objectives', 'Current check question', 'Check question result']);
+    const preamble = built.messages[0];
+    expect(preamble.role).toBe('system');
+    expect(preamble.content).toContain("- State Newton's second law");
+    expect(preamble.content).toContain('Unit of force?\nA) Joule\nB) Newton\nCorrect answer: B');
+    expect(preamble.content).toContain('The student chose A) Joule, which is incorrect. The correct answer is B) Newton.');
+    // The pins take the budget; the result stands in for the reply it is on
+    expect(labels(built.messages.slice(1))).toEqual(['q4']);
+  });
+
+  it('does not pin a check question whose message is sent anyway', async () => {
+    const path = conversation(3);
+    path[1] = message('r1', 'assistant', { blocks: [CHECK] });
+
+    const built = context({ budgetTokens: 1000, keepTurns: 1 }).build(await session(), path);
+
+    expect(built.pins).toEqual([]);
+    expect(labels(built.messages)).toEqual(['q1', 'r1', 'q2', 'r2', 'q3']);
+  });
+
+  it('replaces summarized turns with the memory of this branch only', async () => {
+    const path = conversation(4);
+    const memory: ConversationMemory = { summary: 'Asha learned about forces.', throughMessageId: 'r1', messageCount: 2, updatedAt: 'now' };
+
+    const built = context({ budgetTokens: 1000, keepTurns: 2 }).build(await session({ memory }), path);
+    expect(built.messages[0]).toEqual({ role: 'system', content: 'EARLIER IN THIS CONVERSATION:\nAsha learned about forces.' });
+    expect(labels(built.messages.slice(1))).toEqual(['q2', 'r2', 'q3', 'r3', 'q4']);
+    expect(built).toMatchObject({ summarized: 2, omitted: 0 });
+
+    // Another branch does not pass through r1
+    const otherBranch = [message('q1', 'user'), message('r1-edited', 'assistant'), ...path.slice(2)];
+    const unrelated = context({ budgetTokens: 1000, keepTurns: 2 }).build(await session({ memory }), otherBranch);
+    expect(unrelated.summarized).toBe(0);
+    expect(unrelated.messages[0].role).toBe('user');
+  });
+});
+
+describe('ConversationContext.remember', () => {
+  it('folds turns older than the kept ones into the session memory', async () => {
+    const chat = await session({ objectives: ['Forces'] });
+    const memory = context({ keepTurns: 2 }, ['Asha asked about forces.']);
+    const path = [...conversation(4), message('r4', 'assistant')];
+
+    const saved = await memory.remember(chat, path);
+
+    expect(saved).toMatchObject({ summary: 'Asha asked about forces.', throughMessageId: 'r2', messageCount: 4 });
+    const stored = await storage.getChatSession(chat.id);
+    expect(stored?.metadata).toEqual({ objectives: ['Forces'], memory: saved });
+  });
+
+  it('sends only turns the summary does not cover yet', async () => {
+    const previous: ConversationMemory = { summary: 'Earlier summary.', throughMessageId: 'r1', messageCount: 2, updatedAt: 'now' };
+    const chat = await session({ memory: previous });
+    const provider = new FakeLLMProvider({ text: ['Merged summary.'] });
+    const generateText = vi.spyOn(provider, 'generateText');
+    const memory = new ConversationContext(new ModelRouter({ primary: provider, secondary: new FakeLLMProvider() }), { keepTurns: 2 });
+
+    const saved = await memory.remember(chat, [...conversation(4), message('r4', 'assistant')]);
+
+    const prompt = generateText.mock.calls[0][0][0].content;
+    expect(prompt).toContain('SUMMARY SO FAR:\nEarlier summary.');
+    expect(prompt).toMatch(/Student: q2 .*\nAssistant: r2 /);
+    expect(prompt).not.toContain('r1');
+    expect(saved).toMatchObject({ summary: 'Merged summary.', messageCount: 4 });
+
+    // Nothing new to fold in
+    expect(await memory.remember({ ...chat, metadata: { memory: saved } }, [...conversation(4), message('r4', 'assistant')])).toBe(saved);
+    expect(generateText).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,230 @@
+// Conversation context for chat turns, shared by tutor and DocChat. The
+// model sees the last few turns verbatim, a rolling summary of everything
+// before them (kept on the session as metadata.memory) and pinned items
+// that must not scroll away: the session's learning objectives, the check
+// question the student is working on and how they did on the one they just
+// answered. Older turns that are not summarized yet fill whatever is left of
+// the token budget.
+
+import type { ChatSession, Message } from '@shared/schema';
+import { storage } from '../storage';
+import { checkBlocks, optionLabel, type TutorBlock, type TutorCheckBlock } from '@shared/tutor';
+import type { ChatMessage, ModelRouter } from './llm';
+import { estimateTokens } from './tokens';
+import { describeAnswer } from './tutor-turns';
+
+// Summary of a session's earlier turns, up to and including `throughMessageId`.
+// It only applies while that message is on the branch being answered.
+export interface ConversationMemory {
+  summary: string;
+  throughMessageId: string;
+  messageCount: number; // messages folded into the summary
+  updatedAt: string;
+}
+
+export interface ContextPin {
+  label: string;
+  text: string;
+  messageId?: string; // message the item comes from; not pinned while that message is sent
+}
+
+export interface BuiltContext {
+  messages: ChatMessage[]; // memory message (if any) followed by the kept history
+  tokens: number;
+  pins: ContextPin[];
+  summarized: number;      // earlier messages represented by the summary
+  omitted: number;         // earlier messages neither summarized nor sent
+}
+
+export interface ConversationContextOptions {
+  budgetTokens?: number;  // history, summary and pins together
+  keepTurns?: number;     // recent turns always sent verbatim
+  summaryTokens?: number; // length the rolling summary is kept to
+}
+
+// Per-message overhead of role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MAX_PIN_CHARS = 800;
+
+export class ConversationContext {
+  private budgetTokens: number;
+  private keepTurns: number;
+  private summaryTokens: number;
+
+  constructor(private router: ModelRouter, options: ConversationContextOptions = {}) {
+    this.budgetTokens = options.budgetTokens ?? parseInt(process.env.CONTEXT_BUDGET_TOKENS || '4000', 10);
+    this.keepTurns = Math.max(1, options.keepTurns ?? parseInt(process.env.CONTEXT_KEEP_TURNS || '6', 10));
+    this.summaryTokens = options.summaryTokens ?? parseInt(process.env.CONTEXT_SUMMARY_TOKENS || '400', 10);
+  }
+
+  // Messages to send for answering the last message of `path`, the branch
+  // from the first message to the current question
+  build(session: ChatSession, path: Message[]): BuiltContext {
+    const start = this.recentStart(path);
+    const recent = path.slice(start);
+    const earlier = path.slice(0, start);
+
+    const memory = memoryFor(session, earlier);
+    const candidatePins = this.pinsFor(session, path, earlier);
+    const reserved = preambleTokens(memory?.summary, candidatePins);
+    let tokens = reserved;
+
+    // Recent turns newest first while they fit; the question and the reply
+    // before it are sent whatever their length
+    const kept: Message[] = [];
+    for (let i = recent.length - 1; i >= 0; i--) {
+      const cost = countTokens(recent[i].content);
+      if (i < recent.length - 2 && tokens + cost > this.budgetTokens) break;
+      kept.unshift(recent[i]);
+      tokens += cost;
+    }
+    const droppedRecent = recent.length - kept.length;
+
+    // Earlier messages the summary does not cover yet, newest first, while they fit
+    const unsummarized = droppedRecent > 0 ? [] : earlier.slice(memory ? memory.messageCount : 0);
+    const backfill: Message[] = [];
+    for (let i = unsummarized.length - 1; i >= 0; i--) {
+      const cost = countTokens(unsummarized[i].content);
+      if (tokens + cost > this.budgetTokens) break;
+      backfill.unshift(unsummarized[i]);
+      tokens += cost;
+    }
+
+    // The history opens with a student turn: trimming can leave a reply
+    // first, and Anthropic rejects conversations that start with one
+    const history = [...backfill, ...kept];
+    while (history.length > 1 && history[0].role === 'assistant') {
+      tokens -= countTokens(history.shift()!.content);
+    }
+
+    const sent = new Set(history.map(message => message.id));
+    const pins = candidatePins.filter(pin => !pin.messageId || !sent.has(pin.messageId));
+    const preamble = formatPreamble(memory?.summary, pins);
+    tokens += preambleTokens(memory?.summary, pins) - reserved;
+
+    const summarized = memory ? memory.messageCount : 0;
+    return {
+      messages: [
+        ...(preamble ? [{ role: 'system', content: preamble }] : []),
+        ...history.map(message => ({ role: message.role, content: message.content }))
+      ],
+      tokens,
+      pins,
+      summarized,
+      omitted: path.length - summarized - history.length
+    };
+  }
+
+  // Folds earlier turns of `path` (ending with the latest reply) into the
+  // session's rolling summary. Runs after a reply so the turn does not wait.
+  async remember(session: ChatSession, path: Message[]): Promise<ConversationMemory | undefined> {
+    const earlier = path.slice(0, this.recentStart(path));
+    if (earlier.length === 0) return undefined;
+
+    const memory = memoryFor(session, earlier);
+    const pending = earlier.slice(memory ? memory.messageCount : 0);
+    if (pending.length === 0) return memory;
+
+    const transcript = pending
+      .map(message => {
+        const line = `${message.role === 'user' ? 'Student' : 'Assistant'}: ${message.content.replace(/\s+/g, ' ')}`;
+        const results = checksOf(message).map(describeAnswer).filter(Boolean);
+        return results.length > 0 ? `${line} (${results.join(' ')})` : line;
+      })
+      .join('\n');
+    const { text } = await this.router.generateText(
+      'memory',
+      [{
+        role: 'user',
+        content: `${memory ? `SUMMARY SO FAR:\n${memory.summary}\n\n` : ''}NEW TURNS:\n${transcript}`
+      }],
+      {
+        system: `You keep the running memory of a study conversation. Merge the new turns into the summary so far.
+Keep what the student asked, what was explained, answers they got right or wrong, misconceptions, and open questions. Drop greetings and repetition.
+Write plain sentences in the language of the conversation, at most ${Math.round(this.summaryTokens * 0.75)} words.`,
+        maxTokens: this.summaryTokens * 2
+      }
+    );
+
+    const updated: ConversationMemory = {
+      summary: text.trim(),
+      throughMessageId: earlier[earlier.length - 1].id,
+      messageCount: earlier.length,
+      updatedAt: new Date().toISOString()
+    };
+    // Re-read so metadata written meanwhile (e.g. a collection id) is kept
+    const current = await storage.getChatSession(session.id);
+    await storage.updateChatSession(session.id, {
+      metadata: { ...((current ?? session).metadata as Record<string, unknown> | null), memory: updated }
+    });
+    return updated;
+  }
+
+  // Index where the last `keepTurns` turns begin; a turn starts at a user message
+  private recentStart(path: Message[]): number {
+    let turns = 0;
+    for (let i = path.length - 1; i >= 0; i--) {
+      if (path[i].role === 'user' && ++turns === this.keepTurns) return i;
+    }
+    return 0;
+  }
+
+  private pinsFor(session: ChatSession, path: Message[], earlier: Message[]): ContextPin[] {
+    const pins: ContextPin[] = [];
+    const objectives = (session.metadata as Record<string, unknown> | null)?.objectives;
+    if (Array.isArray(objectives) && objectives.length > 0) {
+      pins.push({ label: 'Learning objectives', text: objectives.map(objective => `- ${objective}`).join('\n') });
+    }
+
+    // An open check question is pinned once it is older than the kept
+    // turns, with its key so the tutor can grade a typed answer
+    const asked = [...earlier].reverse().find(message => checksOf(message).length > 0);
+    const open = asked ? checksOf(asked).filter(check => !check.answer).pop() : undefined;
+    if (asked && open) {
+      pins.push({ label: 'Current check question', text: formatCheck(open).slice(0, MAX_PIN_CHARS), messageId: asked.id });
+    }
+
+    // How the student did on the checks of the reply they are responding to
+    const previous = path[path.length - 2];
+    const results = previous ? checksOf(previous).map(describeAnswer).filter(Boolean) : [];
+    if (results.length > 0) {
+      pins.push({ label: 'Check question result', text: results.join('\n') });
+    }
+    return pins;
+  }
+}
+
+function checksOf(message: Message): TutorCheckBlock[] {
+  if (message.role !== 'assistant') return [];
+  return checkBlocks((message.metadata as Record<string, unknown> | null)?.blocks as TutorBlock[] | undefined);
+}
+
+function formatCheck(check: TutorCheckBlock): string {
+  const options = check.options.map((option, index) => `${optionLabel(index)}) ${option}`).join('\n');
+  const key = check.answerIndex !== undefined ? `\nCorrect answer: ${optionLabel(check.answerIndex)}` : '';
+  return `${check.question}\n${options}${key}`;
+}
+
+// The stored memory, if it summarizes a prefix of `earlier`
+function memoryFor(session: ChatSession, earlier: Message[]): ConversationMemory | undefined {
+  const memory = (session.metadata as Record<string, unknown> | null)?.memory as ConversationMemory | undefined;
+  if (!memory || memory.messageCount > earlier.length) return undefined;
+  return earlier[memory.messageCount - 1]?.id === memory.throughMessageId ? memory : undefined;
+}
+
+function formatPreamble(summary: string | undefined, pins: ContextPin[]): string | null {
+  const sections = [
+    ...(summary ? [`EARLIER IN THIS CONVERSATION:\n${summary}`] : []),
+    ...pins.map(pin => `${pin.label.toUpperCase()}:\n${pin.text}`)
+  ];
+  return sections.length > 0 ? sections.join('\n\n') : null;
+}
+
+function preambleTokens(summary: string | undefined, pins: ContextPin[]): number {
+  const preamble = formatPreamble(summary, pins);
+  return preamble ? countTokens(preamble) : 0;
+}
+
+function countTokens(text: string): number {
+  return estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+}
@@ -0,0 +1,114 @@
+// Embedding backends. Both run on CPU without network access: a local
+// transformers.js/ONNX model when one is configured, and a hashed n-gram
+// embedder that needs nothing at all.
+
+export interface EmbeddingBackend {
+  readonly model: string;     // stored on every chunk to detect stale indexes
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_DIMENSION = 384;
+
+// Feature hashing over word unigrams/bigrams and character trigrams.
+// Deterministic, handles English, Hindi and Hinglish, and good
+// enough to make lexical near-matches close in vector space.
+export class HashedNgramBackend implements EmbeddingBackend {
+  readonly model = 'hashed-ngram-v1';
+
+  constructor(readonly dimension: number = DEFAULT_DIMENSION) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    // Latin (incl. accented) and Devanagari letters, marks and digits
+    const words = text.toLowerCase().normalize('NFC').match(/[0-9a-z\u00c0-\u024f\u0900-\u097f]+/g) || [];
+
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so collisions cancel out instead of piling up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimension] += sign * weight;
+    };
+
+    for (let i = 0; i < words.length; i++) {
+      add(`w:${words[i]}`, 1);
+      if (i + 1 < words.length) add(`b:${words[i]} ${words[i + 1]}`, 0.5);
+
+      const padded = `#${words[i]}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+// Sentence-transformer style model (e.g. bge-small, all-MiniLM) exported to
+// ONNX and loaded from disk through transformers.js. The package is optional
+// and only imported when EMBEDDING_MODEL_PATH is set.
+export class LocalModelBackend implements EmbeddingBackend {
+  private constructor(
+    readonly model: string,
+    readonly dimension: number,
+    private extractor: (texts: string[], options: object) => Promise<{ tolist(): number[][] }>
+  ) {}
+
+  static async load(modelPath: string): Promise<LocalModelBackend> {
+    // Variable specifier keeps bundlers and tsc from requiring the package
+    const packageName = process.env.EMBEDDING_RUNTIME || '@huggingface/transformers';
+    const transformers = await import(packageName);
+    transformers.env.allowRemoteModels = false;
+    transformers.env.allowLocalModels = true;
+
+    const extractor = await transformers.pipeline('feature-extraction', modelPath, { local_files_only: true });
+    const [probe] = (await extractor(['dimension probe'], { pooling: 'mean', normalize: true })).tolist();
+
+    return new LocalModelBackend(`local:${modelPath.split(/[\\/]/).filter(Boolean).pop()}`, probe.length, extractor);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const output = await this.extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+}
+
+// EMBEDDING_MODEL_PATH selects a local model; without it, or if it fails to
+// load, the hashed backend is used with EMBEDDING_DIM dimensions.
+export async function loadEmbeddingBackend(): Promise<EmbeddingBackend> {
+  const configuredDim = process.env.EMBEDDING_DIM ? parseInt(process.env.EMBEDDING_DIM, 10) : undefined;
+  const modelPath = process.env.EMBEDDING_MODEL_PATH;
+
+  if (modelPath) {
+    try {
+      const backend = await LocalModelBackend.load(modelPath);
+      if (configuredDim && configuredDim !== backend.dimension) {
+        throw new Error(`EMBEDDING_DIM=${configuredDim} but ${backend.model} produces ${backend.dimension} dimensions`);
+      }
+      console.log(`Embeddings: ${backend.model} (${backend.dimension}d)`);
+      return backend;
+    } catch (error) {
+      console.warn(`Embeddings: could not load model from ${modelPath}, using hashed n-grams:`, (error as Error).message);
+    }
+  }
+
+  return new HashedNgramBackend(configuredDim || DEFAULT_DIMENSION);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
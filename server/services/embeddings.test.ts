@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HashedNgramBackend, loadEmbeddingBackend, type EmbeddingBackend } from './embedding-backends';
+import { cosineSimilarity, EmbeddingsService } from './embeddings';
+
+const norm = (vector: number[]) => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('HashedNgramBackend', () => {
+  it('embeds deterministically into unit vectors of its dimension', async () => {
+    const backend = new HashedNgramBackend(64);
+    const [first, again, empty] = [...await backend.embed(['Newton\'s second law', 'Newton\'s second law']), ...await backend.embed(['?!'])];
+
+    expect(first).toHaveLength(64);
+    expect(again).toEqual(first);
+    expect(norm(first)).toBeCloseTo(1);
+    // No words to hash: left as zeros rather than divided by zero
+    expect(empty.every(value => value === 0)).toBe(true);
+  });
+
+  it('puts lexical near-matches closer than unrelated text, in Hindi too', async () => {
+    const backend = new HashedNgramBackend();
+    const [query, inflected, unrelated] = await backend.embed([
+      'acceleration due to gravity',
+      'gravitational acceleration of a falling body',
+      'photosynthesis in green leaves'
+    ]);
+    expect(cosineSimilarity(query, inflected)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+
+    const [bal, balKaNiyam, prakash] = await backend.embed(['न्यूटन का बल', 'बल का नियम', 'प्रकाश संश्लेषण']);
+    expect(cosineSimilarity(bal, balKaNiyam)).toBeGreaterThan(cosineSimilarity(bal, prakash));
+  });
+});
+
+describe('loadEmbeddingBackend', () => {
+  it('falls back to hashed n-grams when the configured model cannot load', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('EMBEDDING_MODEL_PATH', '/models/missing');
+    vi.stubEnv('EMBEDDING_RUNTIME', 'not-an-installed-runtime');
+    vi.stubEnv('EMBEDDING_DIM', '128');
+
+    const backend = await loadEmbeddingBackend();
+    expect(backend).toBeInstanceOf(HashedNgramBackend);
+    expect(backend.dimension).toBe(128);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('/models/missing'), expect.any(String));
+  });
+});
+
+describe('EmbeddingsService', () => {
+  it('embeds in batches and serves repeated texts from the cache', async () => {
+    vi.stubEnv('EMBEDDING_BATCH_SIZE', '2');
+    const backend = new HashedNgramBackend(16);
+    const embed = vi.spyOn(backend, 'embed');
+    const service = new EmbeddingsService(backend);
+    const progress: Array<[number, number]> = [];
+
+    const first = await service.generateEmbeddings(['force', 'mass', 'weight'], { onProgress: (done, total) => progress.push([done, total]) });
+    expect(embed.mock.calls.map(([texts]) => texts)).toEqual([['force', 'mass'], ['weight']]);
+    expect(progress).toEqual([[0, 3], [2, 3], [3, 3]]);
+
+    const second = await service.generateEmbeddings(['weight', 'force', 'inertia']);
+    expect(embed).toHaveBeenLastCalledWith(['inertia']);
+    expect(second.slice(0, 2)).toEqual([first[2], first[0]]);
+  });
+
+  it('rejects vectors of the wrong dimension and stops between batches when aborted', async () => {
+    const broken: EmbeddingBackend = { model: 'broken', dimension: 8, embed: async texts => texts.map(() => [1, 0]) };
+    await expect(new EmbeddingsService(broken).generateEmbeddings(['force'])).rejects.toThrow('broken returned 2 dimensions, expected 8');
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(new EmbeddingsService(new HashedNgramBackend(8)).generateEmbeddings(['force'], { signal: controller.signal }))
+      .rejects.toThrow();
+  });
+
+  it('chunks each block separately and labels chunks with its location', async () => {
+    const service = new EmbeddingsService(new HashedNgramBackend(8));
+    const chunks = await service.processDocument({
+      blocks: [
+        { text: 'Force is a push or a pull.', page: 2, section: 'Forces' },
+        { text: 'Slide text.', slide: 3 },
+        { text: 'Today we study motion.', startTime: 65, endTime: 95 }
+      ]
+    }, { source: 'doc-1', title: 'Physics', type: 'pdf' });
+
+    expect(chunks.map(({ id, text, metadata: { timestamp, ...location } }) => ({ id, text, location }))).toEqual([
+      { id: 'doc-1_p2_c0', text: 'Force is a push or a pull.', location: { source: 'doc-1', page: 2, section: 'Forces' } },
+      { id: 'doc-1_c1', text: 'Slide text.', location: { source: 'doc-1', page: undefined, section: undefined, slide: 3 } },
+      { id: 'doc-1_c2', text: 'Today we study motion.', location: { source: 'doc-1', page: undefined, section: undefined, startTime: 65, endTime: 95 } }
+    ]);
+    expect(chunks[0]).toMatchObject({ embeddingModel: 'hashed-ngram-v1', dimension: 8 });
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 0 for vectors of different lengths or without magnitude', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
@@ -1,133 +1,159 @@
-// BGE-M3 Embeddings Service
-// This would typically use HuggingFace Transformers.js or API
-// For now, implementing a placeholder that would be replaced with actual BGE-M3 integration
+// Embeddings Service
+// Chunks documents and embeds them through a local EmbeddingBackend, with a
+// cache keyed by chunk-text hash so re-ingesting unchanged text is free.
+
+import { createHash } from 'crypto';
+import { loadEmbeddingBackend, type EmbeddingBackend } from './embedding-backends';
+import { chunkStructured } from './chunker';
+import type { ExtractedDocument } from './extractors';
 
 export interface EmbeddingChunk {
   id: string;
   text: string;
   embedding: number[];
+  embeddingModel: string;
+  dimension: number;
   metadata: {
     source: string;
     page?: number;
+    slide?: number;
+    chapter?: number;
     section?: string;
+    startTime?: number; // seconds into the video, for transcript chunks
+    endTime?: number;
     timestamp?: number;
   };
 }
 
+// A chunk before it is embedded
+export interface ChunkPiece {
+  text: string;
+  metadata: Omit<EmbeddingChunk['metadata'], 'timestamp'>;
+}
+
+export interface EmbedOptions {
+  onProgress?: (embedded: number, total: number) => void;
+  signal?: AbortSignal; // checked between batches
+}
+
 export class EmbeddingsService {
-  private readonly maxChunkSize = 800;
-  private readonly overlapSize = 80;
+  private readonly maxChunkTokens = parseInt(process.env.CHUNK_MAX_TOKENS || '200', 10);
+  private readonly overlapTokens = parseInt(process.env.CHUNK_OVERLAP_TOKENS || '30', 10);
+  private readonly batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '32', 10);
+  private readonly maxCacheEntries = 20000;
+  private backend: Promise<EmbeddingBackend>;
+  private cache: Map<string, number[]> = new Map();
+
+  constructor(backend?: EmbeddingBackend) {
+    this.backend = backend ? Promise.resolve(backend) : loadEmbeddingBackend();
+  }
+
+  // Model name and dimension new chunks are embedded with
+  async describe(): Promise<{ model: string; dimension: number }> {
+    const { model, dimension } = await this.backend;
+    return { model, dimension };
+  }
 
-  // Text chunking with overlap
-  chunkText(text: string, metadata: { source: string; page?: number }): Array<{
+  // Structure-aware chunking (see chunker.ts); `section` is the heading the
+  // text sits under and is replaced by headings found inside the text
+  chunkText(text: string, metadata: { source: string; page?: number; section?: string }): Array<{
     text: string;
-    metadata: typeof metadata & { section?: string };
+    metadata: typeof metadata;
   }> {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const chunks: Array<{ text: string; metadata: typeof metadata & { section?: string } }> = [];
-    
-    let currentChunk = '';
-    let chunkIndex = 0;
-
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      if (!trimmedSentence) continue;
-
-      // Check if adding this sentence would exceed chunk size
-      if (currentChunk.length + trimmedSentence.length > this.maxChunkSize) {
-        if (currentChunk) {
-          chunks.push({
-            text: currentChunk.trim(),
-            metadata: {
-              ...metadata,
-              section: `chunk_${chunkIndex}`
-            }
-          });
-          
-          // Add overlap from previous chunk
-          const words = currentChunk.split(' ');
-          const overlapWords = words.slice(-this.overlapSize / 10); // Rough word estimate
-          currentChunk = overlapWords.join(' ') + ' ';
-          chunkIndex++;
-        }
+    return chunkStructured(text, {
+      maxTokens: this.maxChunkTokens,
+      overlapTokens: this.overlapTokens,
+      section: metadata.section
+    }).map(chunk => ({
+      text: chunk.text,
+      metadata: { ...metadata, section: chunk.section }
+    }));
+  }
+
+  // Embed texts in batches, serving repeated texts from the cache
+  async generateEmbeddings(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    const backend = await this.backend;
+    const keys = texts.map(text => `${backend.model}:${createHash('sha256').update(text).digest('hex')}`);
+    const results: number[][] = new Array(texts.length);
+
+    const missing: number[] = [];
+    keys.forEach((key, index) => {
+      const cached = this.cache.get(key);
+      if (cached) {
+        results[index] = cached;
+      } else {
+        missing.push(index);
       }
-      
-      currentChunk += trimmedSentence + '. ';
-    }
+    });
 
-    // Add final chunk if any content remains
-    if (currentChunk.trim()) {
-      chunks.push({
-        text: currentChunk.trim(),
-        metadata: {
-          ...metadata,
-          section: `chunk_${chunkIndex}`
+    options.onProgress?.(texts.length - missing.length, texts.length);
+    for (let start = 0; start < missing.length; start += this.batchSize) {
+      options.signal?.throwIfAborted();
+      const batch = missing.slice(start, start + this.batchSize);
+      const embeddings = await backend.embed(batch.map(index => texts[index]));
+
+      batch.forEach((index, i) => {
+        if (embeddings[i].length !== backend.dimension) {
+          throw new Error(`${backend.model} returned ${embeddings[i].length} dimensions, expected ${backend.dimension}`);
         }
+        results[index] = embeddings[i];
+        this.remember(keys[index], embeddings[i]);
       });
+      options.onProgress?.(texts.length - missing.length + start + batch.length, texts.length);
     }
 
-    return chunks;
+    return results;
   }
 
-  // Generate embeddings using BGE-M3 (placeholder implementation)
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    // TODO: Implement actual BGE-M3 embedding generation
-    // This would typically call HuggingFace API or use transformers.js
-    
-    // Placeholder: generate random embeddings with consistent dimensions
-    const embeddingDim = 1024; // BGE-M3 typical dimension
-    
-    return texts.map(() => {
-      return Array.from({ length: embeddingDim }, () => Math.random() - 0.5);
-    });
+  private remember(key: string, embedding: number[]) {
+    if (this.cache.size >= this.maxCacheEntries) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, embedding);
   }
 
   // Process document for vector storage
   async processDocument(
-    text: string, 
-    metadata: { source: string; title: string; type: string }
+    document: ExtractedDocument,
+    metadata: { source: string; title: string; type: string },
+    options: EmbedOptions = {}
   ): Promise<EmbeddingChunk[]> {
-    // Split document into pages or sections
-    const pages = this.splitIntoPages(text);
-    const allChunks: EmbeddingChunk[] = [];
-
-    for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
-      const pageText = pages[pageIndex];
-      const chunks = this.chunkText(pageText, {
-        source: metadata.source,
-        page: pageIndex + 1
-      });
-
-      const texts = chunks.map(chunk => chunk.text);
-      const embeddings = await this.generateEmbeddings(texts);
-
-      for (let i = 0; i < chunks.length; i++) {
-        allChunks.push({
-          id: `${metadata.source}_p${pageIndex + 1}_c${i}`,
-          text: chunks[i].text,
-          embedding: embeddings[i],
-          metadata: {
-            ...chunks[i].metadata,
-            timestamp: Date.now()
-          }
-        });
-      }
-    }
+    return this.embedChunks(metadata.source, this.chunkDocument(document, metadata.source), options);
+  }
 
-    return allChunks;
+  // Chunk each extracted block separately so chunks never straddle a page,
+  // slide, heading or transcript window, and label them with the block's
+  // real location
+  chunkDocument(document: ExtractedDocument, source: string): ChunkPiece[] {
+    return document.blocks.flatMap(block =>
+      this.chunkText(block.text, { source, page: block.page, section: block.section }).map(chunk => ({
+        text: chunk.text,
+        metadata: {
+          ...chunk.metadata,
+          ...(block.slide !== undefined ? { slide: block.slide } : {}),
+          ...(block.chapter !== undefined ? { chapter: block.chapter } : {}),
+          ...(block.startTime !== undefined ? { startTime: block.startTime, endTime: block.endTime } : {})
+        }
+      }))
+    );
   }
 
-  // Split document into pages (simple implementation)
-  private splitIntoPages(text: string): string[] {
-    // Simple page splitting - in reality, this would depend on document type
-    const avgPageSize = 2000; // characters per page
-    const pages: string[] = [];
-    
-    for (let i = 0; i < text.length; i += avgPageSize) {
-      pages.push(text.slice(i, i + avgPageSize));
-    }
-    
-    return pages;
+  async embedChunks(source: string, pieces: ChunkPiece[], options: EmbedOptions = {}): Promise<EmbeddingChunk[]> {
+    const embeddings = await this.generateEmbeddings(pieces.map(piece => piece.text), options);
+    const { model, dimension } = await this.describe();
+
+    return pieces.map((piece, index) => ({
+      id: `${source}_${piece.metadata.page ? `p${piece.metadata.page}_` : ''}c${index}`,
+      text: piece.text,
+      embedding: embeddings[index],
+      embeddingModel: model,
+      dimension,
+      metadata: {
+        ...piece.metadata,
+        timestamp: Date.now()
+      }
+    }));
   }
 
   // Generate query embedding
@@ -138,23 +164,27 @@ export class EmbeddingsService {
 
   // Cosine similarity calculation
   cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    
-    normA = Math.sqrt(normA);
-    normB = Math.sqrt(normB);
-    
-    if (normA === 0 || normB === 0) return 0;
-    
-    return dotProduct / (normA * normB);
+    return cosineSimilarity(a, b);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
   }
+  
+  normA = Math.sqrt(normA);
+  normB = Math.sqrt(normB);
+  
+  if (normA === 0 || normB === 0) return 0;
+  
+  return dotProduct / (normA * normB);
 }
@@ -0,0 +1,133 @@
+import path from 'path';
+import { parse, type HTMLElement } from 'node-html-parser';
+import { strFromU8, Unzip, UnzipInflate, unzipSync } from 'fflate';
+import { UnsupportedFormatError } from './types';
+
+// Office documents and EPUBs are zip packages of XML parts. Only markup
+// parts are inflated; images and fonts are skipped.
+const MARKUP_PART = /\.(xml|rels|xhtml|html?|opf|ncx)$/i;
+
+// Limits on what an archive may expand to, counted on the bytes actually
+// inflated since the sizes in its headers can be forged
+const MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+const MAX_ENTRIES = 10000;
+const MAX_COMPRESSION_RATIO = 200; // inflated bytes per archive byte...
+const RATIO_GRACE_BYTES = 10 * 1024 * 1024; // ...once past this much
+// Compressed bytes fed to the inflater at a time, which bounds how much a
+// single step can expand before the limits are checked again
+const PUSH_BYTES = 16 * 1024;
+
+export class ZipPackage {
+  private constructor(private parts: Record<string, Uint8Array>, readonly names: string[]) {}
+
+  static open(buffer: Buffer): ZipPackage {
+    const names: string[] = [];
+    const parts: Record<string, Uint8Array> = {};
+    let inflated = 0;
+    let failure: Error | undefined;
+
+    const unzip = new Unzip(file => {
+      if (failure) return;
+      names.push(file.name);
+      if (names.length > MAX_ENTRIES) {
+        failure = new UnsupportedFormatError(`Archive has more than ${MAX_ENTRIES} entries`);
+        return;
+      }
+      if (!MARKUP_PART.test(file.name) && file.name !== 'mimetype') return;
+
+      const chunks: Uint8Array[] = [];
+      file.ondata = (error, data, final) => {
+        if (failure) return;
+        if (error) {
+          failure = error;
+          return;
+        }
+        inflated += data.length;
+        if (inflated > MAX_UNCOMPRESSED_BYTES) {
+          failure = new UnsupportedFormatError('Archive expands beyond the supported size');
+        } else if (inflated > RATIO_GRACE_BYTES && inflated > buffer.length * MAX_COMPRESSION_RATIO) {
+          failure = new UnsupportedFormatError('Archive is compressed too heavily to be a document');
+        }
+        if (failure) {
+          file.terminate();
+          return;
+        }
+        chunks.push(data);
+        if (final) parts[file.name] = concat(chunks);
+      };
+      file.start();
+    });
+    unzip.register(UnzipInflate);
+
+    const bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length);
+    for (let offset = 0; offset < bytes.length && !failure; offset += PUSH_BYTES) {
+      unzip.push(bytes.subarray(offset, offset + PUSH_BYTES), offset + PUSH_BYTES >= bytes.length);
+    }
+    if (failure) throw failure;
+    return new ZipPackage(parts, names);
+  }
+
+  // Lists entry names without inflating anything
+  static list(buffer: Buffer): string[] {
+    const names: string[] = [];
+    unzipSync(new Uint8Array(buffer), {
+      filter: file => {
+        if (names.push(file.name) > MAX_ENTRIES) {
+          throw new UnsupportedFormatError(`Archive has more than ${MAX_ENTRIES} entries`);
+        }
+        return false;
+      }
+    });
+    return names;
+  }
+
+  text(name: string): string | undefined {
+    const part = this.parts[name];
+    return part ? strFromU8(part) : undefined;
+  }
+
+  xml(name: string): HTMLElement | undefined {
+    const text = this.text(name);
+    return text === undefined ? undefined : parse(text, { comment: false });
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// Resolves a relationship or manifest href against the part that declares it
+export function resolvePart(from: string, href: string): string {
+  const target = decodeURIComponent(href.split('#')[0]);
+  return target.startsWith('/')
+    ? target.slice(1)
+    : path.posix.normalize(path.posix.join(path.posix.dirname(from), target));
+}
+
+// Relationship id -> target part, from the part's _rels/<name>.rels
+export function readRelationships(pkg: ZipPackage, part: string): Map<string, { target: string; type: string }> {
+  const relsPath = path.posix.join(path.posix.dirname(part), '_rels', `${path.posix.basename(part)}.rels`);
+  const relationships = new Map<string, { target: string; type: string }>();
+
+  for (const rel of pkg.xml(relsPath)?.getElementsByTagName('Relationship') || []) {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      relationships.set(id, { target: resolvePart(part, target), type: rel.getAttribute('Type') || '' });
+    }
+  }
+
+  return relationships;
+}
+
+// dc:title from docProps/core.xml, shared by DOCX and PPTX
+export function coreTitle(pkg: ZipPackage): string | undefined {
+  return pkg.xml('docProps/core.xml')?.getElementsByTagName('dc:title')[0]?.text.trim() || undefined;
+}
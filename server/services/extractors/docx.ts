@@ -0,0 +1,97 @@
+import type { HTMLElement } from 'node-html-parser';
+import { coreTitle, ZipPackage } from './archive';
+import type { ExtractedBlock, ExtractedDocument } from './types';
+
+// Extracts paragraphs from word/document.xml, grouping them under the
+// nearest heading. Headings are recognised by style name ("heading 1",
+// "Title") or outline level, so localised style ids still work.
+export function extractDocx(buffer: Buffer): ExtractedDocument {
+  const pkg = ZipPackage.open(buffer);
+  const body = pkg.xml('word/document.xml')?.getElementsByTagName('w:body')[0];
+  if (!body) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const headingStyles = readHeadingStyles(pkg);
+  const blocks: ExtractedBlock[] = [];
+  let section: string | undefined;
+  let firstHeading: string | undefined;
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    if (paragraphs.length > 0) blocks.push({ text: paragraphs.join('\n\n'), section });
+    paragraphs = [];
+  };
+
+  for (const paragraph of body.getElementsByTagName('w:p')) {
+    // Text boxes nest paragraphs inside paragraphs; the outer one already
+    // includes their text
+    if (hasAncestor(paragraph, 'w:p')) continue;
+
+    const text = paragraphText(paragraph);
+    if (!text) continue;
+
+    const properties = paragraph.getElementsByTagName('w:pPr')[0];
+    const styleId = properties?.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val');
+    const outlineLevel = properties?.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+
+    // Outline level 9 is Word's "body text"
+    if ((styleId && headingStyles.has(styleId)) || (outlineLevel !== undefined && outlineLevel !== '9')) {
+      flush();
+      section = text;
+      firstHeading ??= text;
+      continue;
+    }
+
+    const isListItem = !!properties?.getElementsByTagName('w:numPr')[0];
+    paragraphs.push(isListItem ? `- ${text}` : text);
+  }
+  flush();
+
+  const pages = parseInt(pkg.xml('docProps/app.xml')?.getElementsByTagName('Pages')[0]?.text || '', 10);
+
+  return {
+    title: coreTitle(pkg) || firstHeading,
+    pageCount: pages > 0 ? pages : undefined,
+    blocks
+  };
+}
+
+// Style ids whose style name marks a title or heading
+function readHeadingStyles(pkg: ZipPackage): Set<string> {
+  const ids = new Set(['Title', 'Heading1', 'Heading2', 'Heading3', 'Heading4', 'Heading5', 'Heading6']);
+
+  for (const style of pkg.xml('word/styles.xml')?.getElementsByTagName('w:style') || []) {
+    const id = style.getAttribute('w:styleId');
+    const name = style.getElementsByTagName('w:name')[0]?.getAttribute('w:val') || '';
+    if (id && /^(title|heading [1-6])$/i.test(name)) ids.add(id);
+  }
+
+  return ids;
+}
+
+function paragraphText(paragraph: HTMLElement): string {
+  let text = '';
+  for (const node of paragraph.querySelectorAll('*')) {
+    switch (node.rawTagName) {
+      case 'w:t':
+        text += node.text;
+        break;
+      case 'w:tab':
+        text += ' ';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        text += '\n';
+        break;
+    }
+  }
+  return text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+}
+
+function hasAncestor(element: HTMLElement, tagName: string): boolean {
+  for (let parent = element.parentNode; parent; parent = parent.parentNode) {
+    if (parent.rawTagName === tagName) return true;
+  }
+  return false;
+}
@@ -0,0 +1,122 @@
+import { parse, type HTMLElement } from 'node-html-parser';
+import { resolvePart, ZipPackage } from './archive';
+import { cleanText, collectBlocks } from './html';
+import type { ExtractedBlock, ExtractedDocument } from './types';
+
+interface TocEntry {
+  label: string;
+  depth: number; // 0 for top-level entries
+}
+
+// Reads the spine in reading order. Chapters are numbered from the table of
+// contents: a spine file that a chapter-level TOC entry points to starts a
+// new chapter, other files continue the current one, and anything before
+// the first chapter (cover, title page) is front matter without a chapter.
+export function extractEpub(buffer: Buffer): ExtractedDocument {
+  const pkg = ZipPackage.open(buffer);
+  const rootfile = pkg.xml('META-INF/container.xml')?.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opf = rootfile ? pkg.xml(rootfile) : undefined;
+  if (!rootfile || !opf) {
+    throw new Error('Not an EPUB: the package document is missing');
+  }
+
+  const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+  for (const item of opf.getElementsByTagName('item')) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, {
+        href: resolvePart(rootfile, href),
+        mediaType: item.getAttribute('media-type') || '',
+        properties: item.getAttribute('properties') || ''
+      });
+    }
+  }
+
+  const spine = opf.getElementsByTagName('itemref')
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+    .filter(item => item && /html/.test(item.mediaType))
+    .map(item => item!.href);
+
+  const toc = readTableOfContents(pkg, opf.getElementsByTagName('spine')[0]?.getAttribute('toc'), manifest);
+  const chapterDepth = chapterLevel(Array.from(toc.values()));
+
+  const blocks: ExtractedBlock[] = [];
+  let chapter: number | undefined;
+  let chapterCount = 0;
+
+  for (const part of spine) {
+    const html = pkg.text(part);
+    if (!html) continue;
+
+    const entry = toc.get(part);
+    // Without a usable TOC every spine file is its own chapter
+    if (toc.size === 0 || (entry && entry.depth <= chapterDepth)) {
+      chapter = ++chapterCount;
+    }
+
+    const root = parse(html, { comment: false });
+    root.querySelectorAll('script, style, nav').forEach(element => element.remove());
+    const body = root.querySelector('body') || root;
+
+    for (const block of collectBlocks(body)) {
+      blocks.push({ ...block, chapter, section: block.section ?? entry?.label });
+    }
+  }
+
+  const title = opf.getElementsByTagName('dc:title')[0]?.text.trim();
+  return { title: title || undefined, blocks };
+}
+
+// Books often wrap every chapter in one top-level "Contents" or part entry,
+// so chapters are the shallowest TOC level with more than one entry
+function chapterLevel(entries: TocEntry[]): number {
+  const counts = new Map<number, number>();
+  entries.forEach(entry => counts.set(entry.depth, (counts.get(entry.depth) || 0) + 1));
+  const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+  return levels.find(depth => counts.get(depth)! > 1) ?? 0;
+}
+
+// Spine file -> first TOC entry pointing into it, from the EPUB 3 nav
+// document or the EPUB 2 NCX
+function readTableOfContents(
+  pkg: ZipPackage,
+  ncxId: string | undefined,
+  manifest: Map<string, { href: string; mediaType: string; properties: string }>
+): Map<string, TocEntry> {
+  const entries = new Map<string, TocEntry>();
+  const add = (from: string, href: string | undefined, label: string, depth: number) => {
+    if (!href) return;
+    const part = resolvePart(from, href);
+    if (!entries.has(part)) entries.set(part, { label, depth });
+  };
+  const depthWithin = (element: HTMLElement, container: string, root: HTMLElement) => {
+    let depth = 0;
+    for (let parent = element.parentNode; parent && parent !== root; parent = parent.parentNode) {
+      if (parent.rawTagName === container) depth++;
+    }
+    return depth;
+  };
+
+  const nav = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes('nav'));
+  const tocNav = (nav ? pkg.xml(nav.href) : undefined)?.querySelectorAll('nav')
+    .find(element => (element.getAttribute('epub:type') || '').includes('toc'));
+  if (nav && tocNav) {
+    for (const link of tocNav.querySelectorAll('a')) {
+      // Each level of nesting adds an <ol> around the link
+      add(nav.href, link.getAttribute('href'), cleanText(link.text), depthWithin(link, 'ol', tocNav) - 1);
+    }
+    if (entries.size > 0) return entries;
+  }
+
+  const ncx = manifest.get(ncxId || '')
+    || Array.from(manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml');
+  const navMap = (ncx ? pkg.xml(ncx.href) : undefined)?.getElementsByTagName('navMap')[0];
+  for (const point of navMap?.getElementsByTagName('navPoint') || []) {
+    const label = point.getElementsByTagName('text')[0]?.text || '';
+    add(ncx!.href, point.getElementsByTagName('content')[0]?.getAttribute('src'), cleanText(label), depthWithin(point, 'navPoint', navMap!));
+  }
+
+  return entries;
+}
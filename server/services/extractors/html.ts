@@ -0,0 +1,62 @@
+import type { HTMLElement, Node } from 'node-html-parser';
+import type { ExtractedBlock } from './types';
+
+// Readable-text walker shared by the web page and EPUB extractors
+
+const BLOCK_TAGS = new Set(['P', 'LI', 'PRE', 'BLOCKQUOTE', 'DD', 'DT', 'FIGCAPTION', 'TD', 'TH']);
+const HEADING_TAGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+// Walks the article in document order, grouping paragraphs under headings
+export function collectBlocks(container: HTMLElement): ExtractedBlock[] {
+  const blocks: ExtractedBlock[] = [];
+  let section: string | undefined;
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    if (paragraphs.length > 0) {
+      blocks.push({ text: paragraphs.join('\n\n'), section });
+    }
+    paragraphs = [];
+  };
+
+  const visit = (node: Node) => {
+    if (!isElement(node)) return;
+
+    if (HEADING_TAGS.has(node.tagName)) {
+      const heading = cleanText(node.text);
+      if (heading) {
+        flush();
+        section = heading;
+      }
+      return;
+    }
+
+    if (BLOCK_TAGS.has(node.tagName)) {
+      const text = node.tagName === 'PRE' ? node.text.trim() : cleanText(node.text);
+      if (text) paragraphs.push(node.tagName === 'LI' ? `- ${text}` : text);
+      return;
+    }
+
+    node.childNodes.forEach(visit);
+  };
+
+  visit(container);
+  flush();
+
+  // Pages built from bare <div>s and <br>s have no block elements at all
+  if (blocks.length === 0) {
+    const text = cleanText(container.text);
+    if (text) blocks.push({ text });
+  }
+
+  return blocks;
+}
+
+export function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === 1;
+}
+
+// Element.text is already entity-decoded
+export function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
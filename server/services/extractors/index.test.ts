@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { ZipPackage } from './archive';
+import { detectFormat, extractDocument, UnsupportedFormatError } from './index';
+
+function zip(files: Record<string, string>): Buffer {
+  return Buffer.from(zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)]))));
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const P = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const paragraph = (text: string, style?: string, list = false) =>
+  `<w:p><w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${list ? '<w:numPr><w:numId w:val="1"/></w:numPr>' : ''}</w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const DOCX = zip({
+  'word/document.xml': `<w:document ${W}><w:body>
+    ${paragraph('Laws of Motion', 'Title')}
+    ${paragraph('First law', 'Kop1')}
+    ${paragraph('A body stays at rest.')}
+    ${paragraph('Inertia', undefined, true)}
+    ${paragraph('Second law', 'Heading2')}
+    ${paragraph('F = ma')}
+  </w:body></w:document>`,
+  // A localised style id whose name still says "heading 1"
+  'word/styles.xml': `<w:styles ${W}><w:style w:styleId="Kop1"><w:name w:val="heading 1"/></w:style></w:styles>`,
+  'docProps/app.xml': '<Properties><Pages>2</Pages></Properties>',
+  'word/media/image1.png': 'not inflated'
+});
+
+const shape = (text: string, placeholder?: string) =>
+  `<p:sp><p:nvSpPr><p:nvPr>${placeholder ? `<p:ph type="${placeholder}"/>` : ''}</p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+
+const PPTX = zip({
+  'ppt/presentation.xml': `<p:presentation ${P}><p:sldIdLst><p:sldId r:id="rId2"/><p:sldId r:id="rId3"/><p:sldId r:id="rId4"/></p:sldIdLst></p:presentation>`,
+  'ppt/_rels/presentation.xml.rels': `<Relationships>
+    <Relationship Id="rId2" Type="${REL}/slide" Target="slides/slide1.xml"/>
+    <Relationship Id="rId3" Type="${REL}/slide" Target="slides/slide2.xml"/>
+    <Relationship Id="rId4" Type="${REL}/slide" Target="slides/slide3.xml"/>
+  </Relationships>`,
+  'ppt/slides/slide1.xml': `<p:sld ${P}><p:cSld><p:spTree>${shape('Newton\'s laws', 'ctrTitle')}${shape('Class 9 physics')}</p:spTree></p:cSld></p:sld>`,
+  'ppt/slides/slide2.xml': `<p:sld ${P} show="0"><p:cSld><p:spTree>${shape('Hidden')}</p:spTree></p:cSld></p:sld>`,
+  'ppt/slides/slide3.xml': `<p:sld ${P}><p:cSld><p:spTree>${shape('Second law', 'title')}${shape('F = ma')}</p:spTree></p:cSld></p:sld>`,
+  'ppt/slides/_rels/slide3.xml.rels': `<Relationships><Relationship Id="rId1" Type="${REL}/notesSlide" Target="../notesSlides/notesSlide3.xml"/></Relationships>`,
+  'ppt/notesSlides/notesSlide3.xml': `<p:notes ${P}><p:cSld><p:spTree>${shape('3', 'sldNum')}${shape('Ask for an example.', 'body')}</p:spTree></p:cSld></p:notes>`
+});
+
+const chapter = (heading: string, text: string) =>
+  `<html xmlns="http://www.w3.org/1999/xhtml"><body><h1>${heading}</h1><p>${text}</p></body></html>`;
+
+const EPUB = zip({
+  'mimetype': 'application/epub+zip',
+  'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+  'OEBPS/content.opf': `<package><metadata><dc:title>Physics Reader</dc:title></metadata>
+    <manifest>
+      <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+      <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+      <item id="c1" href="text/motion.xhtml" media-type="application/xhtml+xml"/>
+      <item id="c1b" href="text/motion-2.xhtml" media-type="application/xhtml+xml"/>
+      <item id="c2" href="text/forces.xhtml" media-type="application/xhtml+xml"/>
+    </manifest>
+    <spine><itemref idref="cover"/><itemref idref="c1"/><itemref idref="c1b"/><itemref idref="c2"/></spine></package>`,
+  'OEBPS/nav.xhtml': `<html><body><nav epub:type="toc"><ol>
+    <li><a href="text/motion.xhtml">Motion</a></li>
+    <li><a href="text/forces.xhtml#start">Forces</a></li>
+  </ol></nav></body></html>`,
+  'OEBPS/cover.xhtml': '<html><body><p>A reader for Class 9</p></body></html>',
+  'OEBPS/text/motion.xhtml': chapter('Motion', 'Speed is distance over time.'),
+  'OEBPS/text/motion-2.xhtml': '<html><body><p>Velocity has a direction.</p></body></html>',
+  'OEBPS/text/forces.xhtml': chapter('Forces', 'A force is a push or a pull.')
+});
+
+// A zip whose headers claim every entry is one byte long
+function forgeSizes(archive: Buffer): Buffer {
+  const forged = Buffer.from(archive);
+  for (let i = 0; i < forged.length - 4; i++) {
+    const signature = forged.readUInt32LE(i);
+    if (signature === 0x04034b50) forged.writeUInt32LE(1, i + 22); // local header
+    if (signature === 0x02014b50) forged.writeUInt32LE(1, i + 24); // central directory
+  }
+  return forged;
+}
+
+describe('extractDocument', () => {
+  it('reads DOCX paragraphs under their headings', async () => {
+    expect(detectFormat(DOCX)).toBe('docx');
+    expect(await extractDocument(DOCX)).toEqual({
+      title: 'Laws of Motion',
+      pageCount: 2,
+      blocks: [
+        { text: 'A body stays at rest.\n\n- Inertia', section: 'First law' },
+        { text: 'F = ma', section: 'Second law' }
+      ]
+    });
+  });
+
+  it('reads PPTX slides with their titles and speaker notes, skipping hidden ones', async () => {
+    expect(detectFormat(PPTX)).toBe('pptx');
+    expect(await extractDocument(PPTX)).toEqual({
+      title: "Newton's laws",
+      pageCount: 3,
+      blocks: [
+        { text: "Newton's laws\nClass 9 physics", slide: 1, section: "Newton's laws" },
+        { text: 'Second law\nF = ma\nSpeaker notes: Ask for an example.', slide: 3, section: 'Second law' }
+      ]
+    });
+  });
+
+  it('numbers EPUB chapters from the table of contents', async () => {
+    expect(detectFormat(EPUB)).toBe('epub');
+    const { title, blocks } = await extractDocument(EPUB);
+
+    expect(title).toBe('Physics Reader');
+    expect(blocks.map(({ text, chapter, section }) => ({ text, chapter, section }))).toEqual([
+      { text: 'A reader for Class 9', chapter: undefined, section: undefined }, // front matter
+      { text: 'Speed is distance over time.', chapter: 1, section: 'Motion' },
+      { text: 'Velocity has a direction.', chapter: 1, section: undefined },
+      { text: 'A force is a push or a pull.', chapter: 2, section: 'Forces' }
+    ]);
+  });
+
+  it('splits Markdown at headings, leaving code and front matter alone', async () => {
+    const markdown = [
+      '---',
+      'title: Kinematics',
+      '---',
+      'Intro with a [link](https://example.com).',
+      '',
+      '# Equations',
+      'Use $v = u + at$.',
+      '```python',
+      '# not a heading',
+      '```',
+      'Graphs',
+      '------',
+      '![Velocity-time graph](vt.png)'
+    ].join('\n');
+
+    expect(detectFormat(Buffer.from(markdown), { filename: 'notes.md' })).toBe('markdown');
+    expect(await extractDocument(Buffer.from(markdown), { filename: 'notes.md' })).toEqual({
+      title: 'Kinematics',
+      blocks: [
+        { text: 'Intro with a link.', section: undefined },
+        { text: 'Use $v = u + at$.\n```python\n# not a heading\n```', section: 'Equations' },
+        { text: 'Velocity-time graph', section: 'Graphs' }
+      ]
+    });
+  });
+
+  it('refuses archives that expand too far, whatever their headers say', async () => {
+    const bomb = forgeSizes(zip({
+      'word/document.xml': `<w:document ${W}><w:body>${'<w:p/>'.repeat(2 * 1024 * 1024)}</w:body></w:document>`
+    }));
+    expect(bomb.length).toBeLessThan(100 * 1024);
+
+    await expect(extractDocument(bomb)).rejects.toThrow(UnsupportedFormatError);
+    await expect(extractDocument(bomb)).rejects.toThrow('compressed too heavily');
+  });
+
+  it('refuses archives with too many entries', () => {
+    const files: Record<string, string> = { 'word/document.xml': `<w:document ${W}><w:body/></w:document>` };
+    for (let i = 0; i < 10001; i++) files[`word/part${i}.xml`] = '';
+
+    expect(() => ZipPackage.open(zip(files))).toThrow('more than 10000 entries');
+    expect(() => detectFormat(zip(files))).toThrow(UnsupportedFormatError);
+  });
+});
@@ -0,0 +1,94 @@
+import path from 'path';
+import { ZipPackage } from './archive';
+import { extractDocx } from './docx';
+import { extractEpub } from './epub';
+import { extractMarkdown } from './markdown';
+import { extractPdf } from './pdf';
+import { extractPptx } from './pptx';
+import { detectTranscriptFormat, extractTranscript } from './transcript';
+import { UnsupportedFormatError, type DocumentFormat, type ExtractedDocument, type ExtractOptions } from './types';
+
+export * from './types';
+export { extractPdf } from './pdf';
+export { extractDocx } from './docx';
+export { extractPptx } from './pptx';
+export { extractEpub } from './epub';
+export { extractMarkdown } from './markdown';
+export { fetchAndExtract, fetchUrl, extractHtml, UrlFetchError, type WebDocument, type FetchOptions } from './web';
+export {
+  extractTranscript,
+  parseTranscript,
+  detectTranscriptFormat,
+  type TranscriptCue,
+  type TranscriptFormat,
+  type TranscriptOptions
+} from './transcript';
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown', '.mdown']);
+const MARKDOWN_TYPES = new Set(['text/markdown', 'text/x-markdown']);
+
+// Wraps plain text that carries no page or heading structure
+export function textDocument(text: string, title?: string): ExtractedDocument {
+  return { title, blocks: text.trim() ? [{ text: text.trim() }] : [] };
+}
+
+// Decides the format from magic bytes first: PDFs by their header, DOCX,
+// PPTX and EPUB by the parts inside the zip package, caption files by their
+// first cue. The file name and MIME type only separate Markdown from plain
+// text, since browsers report them inconsistently.
+export function detectFormat(buffer: Buffer, options: ExtractOptions = {}): DocumentFormat {
+  const magic = buffer.subarray(0, 8);
+
+  if (magic.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+
+  if (magic.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    let names: string[];
+    try {
+      names = ZipPackage.list(buffer);
+    } catch {
+      throw new UnsupportedFormatError('The file looks like a zip archive but could not be opened');
+    }
+    if (names.includes('word/document.xml')) return 'docx';
+    if (names.includes('ppt/presentation.xml')) return 'pptx';
+    if (names.includes('META-INF/container.xml')) return 'epub';
+    throw new UnsupportedFormatError('Unsupported archive: expected a DOCX, PPTX or EPUB file');
+  }
+
+  if (magic.equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))) {
+    throw new UnsupportedFormatError('Legacy .doc and .ppt files are not supported; save the file as .docx or .pptx');
+  }
+
+  // Text never contains NUL bytes; images, audio and other binaries do
+  if (buffer.subarray(0, 8192).includes(0)) {
+    throw new UnsupportedFormatError('Unsupported file type');
+  }
+
+  const text = buffer.toString('utf-8');
+  if (detectTranscriptFormat(text)) return 'transcript';
+
+  const extension = path.extname(options.filename || '').toLowerCase();
+  const mimeType = (options.mimeType || '').split(';')[0].trim().toLowerCase();
+  if (MARKDOWN_EXTENSIONS.has(extension) || MARKDOWN_TYPES.has(mimeType) || /^#{1,6}\s+\S/m.test(text)) {
+    return 'markdown';
+  }
+  return 'text';
+}
+
+export async function extractDocument(buffer: Buffer, options: ExtractOptions = {}): Promise<ExtractedDocument> {
+  switch (detectFormat(buffer, options)) {
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'docx':
+      return extractDocx(buffer);
+    case 'pptx':
+      return extractPptx(buffer);
+    case 'epub':
+      return extractEpub(buffer);
+    case 'transcript':
+      return extractTranscript(buffer.toString('utf-8'));
+    case 'markdown':
+      return extractMarkdown(buffer.toString('utf-8'));
+    case 'text':
+      return textDocument(buffer.toString('utf-8'));
+  }
+}
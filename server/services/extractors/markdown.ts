@@ -0,0 +1,76 @@
+import type { ExtractedBlock, ExtractedDocument } from './types';
+
+// Splits Markdown into blocks at ATX (#) and setext (===/---) headings.
+// Fenced code is kept verbatim so a "#" comment is never taken for a
+// heading; links and images are reduced to their visible text.
+export function extractMarkdown(text: string): ExtractedDocument {
+  const { body: content, title: frontMatterTitle } = stripFrontMatter(text.replace(/\r\n?/g, '\n'));
+  const lines = content.split('\n');
+
+  const blocks: ExtractedBlock[] = [];
+  let section: string | undefined;
+  let firstHeading: string | undefined;
+  let buffer: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const body = buffer.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (body) blocks.push({ text: body, section });
+    buffer = [];
+  };
+  const startSection = (heading: string) => {
+    flush();
+    section = inlineText(heading);
+    firstHeading ??= section;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = null;
+      buffer.push(line);
+      continue;
+    }
+    if (fence) {
+      buffer.push(line);
+      continue;
+    }
+
+    const atx = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (atx) {
+      startSection(atx[1]);
+      continue;
+    }
+
+    // A setext underline turns the preceding paragraph line into a heading
+    const next = lines[i + 1];
+    if (line.trim() && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s*[-*+]\s/.test(line)) {
+      startSection(line.trim());
+      i++;
+      continue;
+    }
+
+    buffer.push(inlineText(line));
+  }
+  flush();
+
+  return { title: frontMatterTitle || firstHeading, blocks };
+}
+
+// YAML front matter is metadata, not content; its title is kept
+function stripFrontMatter(text: string): { body: string; title?: string } {
+  const match = text.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/);
+  if (!match) return { body: text };
+  const title = match[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1];
+  return { body: text.slice(match[0].length), title: title || undefined };
+}
+
+function inlineText(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, ''); // inline HTML tags, not "a < b" comparisons
+}
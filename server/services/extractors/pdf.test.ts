@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { extractPdf } from './pdf';
+
+type Line = [size: number, y: number, text: string];
+
+// A PDF with one text line per entry in Helvetica, one page per array
+function pdf(pages: Line[][], title?: string): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+  const escape = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(`<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  for (const [index, lines] of pages.entries()) {
+    const content = lines.map(([size, y, text]) => `BT /F1 ${size} Tf 72 ${y} Td (${escape(text)}) Tj ET`).join('\n');
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`);
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  }
+  if (title) add(`<< /Title (${escape(title)}) >>`);
+
+  let file = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = file.length;
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${title ? ` /Info ${objects.length} 0 R` : ''} >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(file, 'latin1');
+}
+
+describe('extractPdf', () => {
+  it('splits pages into paragraphs under the headings found from font size', async () => {
+    const document = await extractPdf(pdf([
+      [
+        [20, 720, 'Laws of Motion'],
+        [11, 690, 'A body stays at rest or in uniform'],
+        [11, 676, 'motion unless a force acts on it.'],
+        [11, 640, 'This is the law of inertia.']
+      ],
+      [
+        [11, 720, 'The heading carries over to this page and its accel-'],
+        [11, 706, 'eration is re-joined.'],
+        [16, 670, 'Second Law'],
+        [11, 640, 'F = ma']
+      ]
+    ]));
+
+    expect(document).toEqual({
+      title: 'Laws of Motion',
+      pageCount: 2,
+      blocks: [
+        {
+          text: 'A body stays at rest or in uniform motion unless a force acts on it.\n\nThis is the law of inertia.',
+          page: 1,
+          section: 'Laws of Motion'
+        },
+        { text: 'The heading carries over to this page and its acceleration is re-joined.', page: 2, section: 'Laws of Motion' },
+        { text: 'F = ma', page: 2, section: 'Second Law' }
+      ]
+    });
+  });
+
+  it('joins headings wrapped over lines and prefers the document title', async () => {
+    const document = await extractPdf(pdf([[
+      [18, 720, 'Chapter 3: Gravitation and'],
+      [18, 700, 'Planetary Motion'],
+      [11, 670, 'Every mass attracts every other mass.'],
+      [11, 656, 'The force falls with the square of the distance.']
+    ]], 'Microsoft Word - gravitation.docx'));
+
+    expect(document.title).toBe('gravitation.docx');
+    expect(document.blocks).toEqual([{
+      text: 'Every mass attracts every other mass. The force falls with the square of the distance.',
+      page: 1,
+      section: 'Chapter 3: Gravitation and Planetary Motion'
+    }]);
+  });
+
+  it('returns no blocks for pages without text', async () => {
+    expect(await extractPdf(pdf([[], []]))).toEqual({ title: undefined, pageCount: 2, blocks: [] });
+  });
+
+  it('rejects a file that is not a PDF', async () => {
+    await expect(extractPdf(Buffer.from('%PDF-1.4\nnot really'))).rejects.toThrow();
+  });
+});
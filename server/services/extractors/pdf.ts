@@ -0,0 +1,171 @@
+import { createRequire } from 'module';
+import path from 'path';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { ExtractedBlock, ExtractedDocument } from './types';
+
+interface Line {
+  text: string;
+  size: number; // dominant font size of the line
+  y: number;
+}
+
+// Lines set noticeably larger than body text are treated as headings
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+
+// Metrics for the 14 standard PDF fonts, which pdf.js cannot fetch by itself in Node
+const STANDARD_FONT_DATA_URL = path.join(
+  path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json')),
+  'standard_fonts/'
+);
+
+// Extracts text page by page with pdf.js. Headings are detected from font
+// size relative to the document's body text, and every block keeps the page
+// it came from and the heading it sits under.
+export async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL
+  }).promise;
+
+  try {
+    const pages: Line[][] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(groupIntoLines(content.items.filter((item): item is TextItem => 'str' in item)));
+      page.cleanup();
+    }
+
+    const bodySize = dominantFontSize(pages.flat());
+    const isHeading = (line: Line) =>
+      line.size >= bodySize * HEADING_SIZE_RATIO &&
+      line.text.length <= MAX_HEADING_LENGTH &&
+      /[a-zA-Z\u00c0-\u024f\u0900-\u097f]/.test(line.text);
+
+    const blocks: ExtractedBlock[] = [];
+    let section: string | undefined;
+    let firstHeading: string | undefined;
+
+    pages.forEach((lines, index) => {
+      const page = index + 1;
+      let paragraphs: string[] = [];
+      let current = '';
+      let previous: Line | undefined;
+
+      const flush = () => {
+        if (current) paragraphs.push(current);
+        current = '';
+        const text = paragraphs.join('\n\n').trim();
+        if (text) blocks.push({ text, page, section });
+        paragraphs = [];
+      };
+
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (isHeading(line)) {
+          flush();
+          // Headings wrapped over several lines are joined back together
+          let heading = line.text;
+          while (i + 1 < lines.length && isHeading(lines[i + 1]) && Math.abs(lines[i + 1].size - line.size) < 0.5) {
+            heading += ` ${lines[++i].text}`;
+          }
+          section = heading;
+          firstHeading ??= heading;
+          previous = undefined;
+          continue;
+        }
+
+        // A vertical gap well beyond normal line spacing starts a new paragraph
+        if (previous && Math.abs(previous.y - line.y) > previous.size * 1.8) {
+          if (current) paragraphs.push(current);
+          current = '';
+        }
+
+        if (!current) {
+          current = line.text;
+        } else if (/[a-zA-Z]-$/.test(current) && /^[a-z]/.test(line.text)) {
+          // Re-join words hyphenated across a line break
+          current = current.slice(0, -1) + line.text;
+        } else {
+          current += ` ${line.text}`;
+        }
+        previous = line;
+      }
+
+      flush();
+    });
+
+    const info = (await pdf.getMetadata().catch(() => null))?.info as { Title?: string } | undefined;
+    const metadataTitle = info?.Title?.replace(/^Microsoft Word - /, '').trim();
+
+    return {
+      title: metadataTitle || firstHeading,
+      pageCount: pdf.numPages,
+      blocks
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function groupIntoLines(items: TextItem[]): Line[] {
+  const lines: Line[] = [];
+  let text = '';
+  let sizes: Map<number, number> = new Map(); // font size -> characters
+  let y: number | undefined;
+  let lastX: number | undefined;
+
+  const flush = () => {
+    const trimmed = text.replace(/\s+/g, ' ').trim();
+    if (trimmed && y !== undefined) {
+      const size = Array.from(sizes.entries()).sort((a, b) => b[1] - a[1])[0][0];
+      lines.push({ text: trimmed, size, y });
+    }
+    text = '';
+    sizes = new Map();
+    y = undefined;
+    lastX = undefined;
+  };
+
+  for (const item of items) {
+    const size = Math.round(Math.hypot(item.transform[2], item.transform[3]) * 10) / 10;
+    const itemX = item.transform[4];
+    const itemY = item.transform[5];
+
+    if (y !== undefined && Math.abs(itemY - y) > Math.max(size, 1) * 0.5) {
+      flush();
+    }
+
+    if (item.str) {
+      // pdf.js often omits the space between separately positioned runs
+      if (lastX !== undefined && itemX - lastX > size * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) {
+        text += ' ';
+      }
+      text += item.str;
+      sizes.set(size, (sizes.get(size) || 0) + item.str.length);
+      y ??= itemY;
+      lastX = itemX + item.width;
+    }
+
+    if (item.hasEOL) flush();
+  }
+  flush();
+
+  return lines;
+}
+
+// Font size covering the most characters, i.e. the body text size
+function dominantFontSize(lines: Line[]): number {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    totals.set(line.size, (totals.get(line.size) || 0) + line.text.length);
+  }
+  const [best] = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+  return best ? best[0] : 0;
+}
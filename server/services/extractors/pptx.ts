@@ -0,0 +1,82 @@
+import type { HTMLElement } from 'node-html-parser';
+import { coreTitle, readRelationships, ZipPackage } from './archive';
+import type { ExtractedBlock, ExtractedDocument } from './types';
+
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+
+// One block per slide in presentation order, carrying the slide number and
+// the slide title as its section. Speaker notes are appended to the slide
+// they belong to, since teachers often put the explanation there.
+export function extractPptx(buffer: Buffer): ExtractedDocument {
+  const pkg = ZipPackage.open(buffer);
+  const presentation = pkg.xml('ppt/presentation.xml');
+  if (!presentation) {
+    throw new Error('Not a PowerPoint file: ppt/presentation.xml is missing');
+  }
+
+  const relationships = readRelationships(pkg, 'ppt/presentation.xml');
+  const slideParts = presentation.getElementsByTagName('p:sldId')
+    .map(slideId => relationships.get(slideId.getAttribute('r:id') || '')?.target)
+    .filter((part): part is string => !!part);
+
+  const blocks: ExtractedBlock[] = [];
+  let firstTitle: string | undefined;
+
+  slideParts.forEach((part, index) => {
+    const slide = pkg.xml(part);
+    const root = slide?.getElementsByTagName('p:sld')[0];
+    if (!root || root.getAttribute('show') === '0') return; // hidden slide
+
+    let title: string | undefined;
+    const lines: string[] = [];
+    for (const shape of root.getElementsByTagName('p:sp')) {
+      const placeholder = shape.getElementsByTagName('p:ph')[0]?.getAttribute('type');
+      const text = shapeLines(shape);
+      if (placeholder && TITLE_PLACEHOLDERS.has(placeholder) && !title) {
+        title = text.join(' ');
+      } else {
+        lines.push(...text);
+      }
+    }
+    // Tables sit in graphic frames rather than shapes
+    for (const table of root.getElementsByTagName('a:tbl')) {
+      for (const row of table.getElementsByTagName('a:tr')) {
+        lines.push(row.getElementsByTagName('a:tc').map(cell => shapeLines(cell).join(' ')).join(' | '));
+      }
+    }
+
+    const notes = speakerNotes(pkg, part);
+    const text = [title, ...lines, ...(notes ? [`Speaker notes: ${notes}`] : [])]
+      .filter(Boolean)
+      .join('\n');
+
+    firstTitle ??= title;
+    if (text) blocks.push({ text, slide: index + 1, section: title || undefined });
+  });
+
+  return {
+    title: coreTitle(pkg) || firstTitle,
+    pageCount: slideParts.length,
+    blocks
+  };
+}
+
+function speakerNotes(pkg: ZipPackage, slidePart: string): string | undefined {
+  const notesPart = Array.from(readRelationships(pkg, slidePart).values())
+    .find(rel => rel.type.endsWith('/notesSlide'))?.target;
+  const notes = notesPart ? pkg.xml(notesPart) : undefined;
+  if (!notes) return undefined;
+
+  // The notes page also holds the slide thumbnail and a slide-number field
+  const text = notes.getElementsByTagName('p:sp')
+    .filter(shape => shape.getElementsByTagName('p:ph')[0]?.getAttribute('type') === 'body')
+    .flatMap(shapeLines)
+    .join(' ');
+  return text || undefined;
+}
+
+function shapeLines(shape: HTMLElement): string[] {
+  return shape.getElementsByTagName('a:p')
+    .map(paragraph => paragraph.getElementsByTagName('a:t').map(run => run.text).join('').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
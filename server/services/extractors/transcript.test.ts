@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { detectTranscriptFormat, extractTranscript, parseTranscript } from './transcript';
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE recorded in class
+
+00:00:01.000 --> 00:00:04.500 align:start
+<v Teacher>Today we study <i>friction</i>.</v>
+
+00:00:04.500 --> 00:00:09.000
+It opposes motion &amp; acts along the surface.
+
+01:02.000 --> 01:05.250
+Now some examples.`;
+
+const SRT = `1
+00:00:00,500 --> 00:00:03,000
+{\\an8}Force is a push
+
+2
+00:00:03,000 --> 00:00:06,000
+or a pull.
+`;
+
+// Auto-generated captions repeat the previous line before adding one
+const ROLLING = `WEBVTT
+
+00:00:00.000 --> 00:00:02.000
+the force on the block is
+
+00:00:02.000 --> 00:00:04.000
+the force on the block is equal to mass
+
+00:00:04.000 --> 00:00:06.000
+equal to mass times acceleration
+
+00:00:06.000 --> 00:00:08.000
+so so`;
+
+describe('transcripts', () => {
+  it('detects WebVTT, SRT and YouTube timedtext', () => {
+    expect(detectTranscriptFormat(`\ufeff${VTT}`)).toBe('vtt');
+    expect(detectTranscriptFormat(SRT)).toBe('srt');
+    expect(detectTranscriptFormat('{"wireMagic": "pb3", "events": []}')).toBe('timedtext');
+    expect(detectTranscriptFormat('Just some notes about 00:01 friction')).toBeNull();
+  });
+
+  it('reads cue times and strips markup', () => {
+    expect(parseTranscript(VTT, 'vtt')).toEqual([
+      { start: 1, end: 4.5, text: 'Today we study friction.' },
+      { start: 4.5, end: 9, text: 'It opposes motion & acts along the surface.' },
+      { start: 62, end: 65.25, text: 'Now some examples.' }
+    ]);
+    expect(parseTranscript(SRT, 'srt')).toEqual([
+      { start: 0.5, end: 3, text: 'Force is a push' },
+      { start: 3, end: 6, text: 'or a pull.' }
+    ]);
+  });
+
+  it('reads timedtext events with text only', () => {
+    const json = JSON.stringify({
+      events: [
+        { tStartMs: 0, dDurationMs: 1500 },
+        { tStartMs: 1500, dDurationMs: 2000, segs: [{ utf8: 'Energy is' }, { utf8: ' conserved' }] },
+        { tStartMs: 3500, dDurationMs: 500, segs: [{ utf8: '\n' }] }
+      ]
+    });
+    expect(parseTranscript(json, 'timedtext')).toEqual([{ start: 1.5, end: 3.5, text: 'Energy is conserved' }]);
+    expect(() => parseTranscript('{"events": [', 'timedtext')).toThrow('not valid JSON');
+  });
+
+  it('drops words that scrolling captions repeat, but not short repeats', () => {
+    expect(parseTranscript(ROLLING, 'vtt').map(cue => cue.text)).toEqual([
+      'the force on the block is',
+      'equal to mass',
+      'times acceleration',
+      'so so'
+    ]);
+  });
+
+  it('groups cues into time windows with their start and end', () => {
+    expect(extractTranscript(VTT, { title: 'Friction', windowSeconds: 30 })).toEqual({
+      title: 'Friction',
+      duration: 65.25,
+      blocks: [
+        { text: 'Today we study friction. It opposes motion & acts along the surface.', startTime: 1, endTime: 9 },
+        { text: 'Now some examples.', startTime: 62, endTime: 65.25 }
+      ]
+    });
+  });
+
+  it('closes a window early at the token cap', () => {
+    const blocks = extractTranscript(SRT, { windowSeconds: 60, maxTokens: 5 }).blocks;
+    expect(blocks).toEqual([
+      { text: 'Force is a push', startTime: 0.5, endTime: 3 },
+      { text: 'or a pull.', startTime: 3, endTime: 6 }
+    ]);
+  });
+
+  it('rejects text that is not a transcript', () => {
+    expect(() => extractTranscript('Lecture notes on friction')).toThrow('Not a WebVTT, SRT or YouTube timedtext transcript');
+    expect(extractTranscript('WEBVTT\n\n')).toEqual({ title: undefined, duration: undefined, blocks: [] });
+  });
+});
@@ -0,0 +1,165 @@
+import { estimateTokens } from '../tokens';
+import type { ExtractedBlock, ExtractedDocument } from './types';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'timedtext';
+
+export interface TranscriptCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface TranscriptOptions {
+  title?: string;
+  windowSeconds?: number;
+  maxTokens?: number;
+}
+
+// A window is closed at whichever limit is hit first. The token cap sits
+// below the embedding chunk size so a window is never split further and every
+// chunk keeps an exact start and end time.
+const DEFAULT_WINDOW_SECONDS = parseInt(process.env.TRANSCRIPT_WINDOW_SECONDS || '60', 10);
+const DEFAULT_MAX_TOKENS = 160;
+
+const TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+export function detectTranscriptFormat(text: string): TranscriptFormat | null {
+  const head = text.replace(/^\ufeff/, '').trimStart().slice(0, 2000);
+  if (/^WEBVTT(\s|$)/.test(head)) return 'vtt';
+  if (head.startsWith('{') && /"events"\s*:/.test(head)) return 'timedtext';
+  if (/^(\d+\s*\r?\n)?(?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3}\s+-->/.test(head)) return 'srt';
+  return null;
+}
+
+export function parseTranscript(text: string, format: TranscriptFormat): TranscriptCue[] {
+  const cues = format === 'timedtext' ? parseTimedText(text) : parseCueBlocks(text);
+  return dropRollingRepeats(cues.filter(cue => cue.text));
+}
+
+// Groups cues into time windows, one block per window
+export function extractTranscript(text: string, options: TranscriptOptions = {}): ExtractedDocument {
+  const format = detectTranscriptFormat(text);
+  if (!format) {
+    throw new Error('Not a WebVTT, SRT or YouTube timedtext transcript');
+  }
+
+  const windowSeconds = options.windowSeconds ?? DEFAULT_WINDOW_SECONDS;
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const cues = parseTranscript(text, format);
+
+  const blocks: ExtractedBlock[] = [];
+  let window: TranscriptCue[] = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (window.length > 0) {
+      blocks.push({
+        text: window.map(cue => cue.text).join(' '),
+        startTime: window[0].start,
+        endTime: window[window.length - 1].end
+      });
+    }
+    window = [];
+    tokens = 0;
+  };
+
+  for (const cue of cues) {
+    const cueTokens = estimateTokens(cue.text);
+    if (window.length > 0 && (cue.end - window[0].start > windowSeconds || tokens + cueTokens > maxTokens)) {
+      flush();
+    }
+    window.push(cue);
+    tokens += cueTokens;
+  }
+  flush();
+
+  return {
+    title: options.title,
+    duration: cues.length > 0 ? Math.max(...cues.map(cue => cue.end)) : undefined,
+    blocks
+  };
+}
+
+// WebVTT and SRT share the same shape: blank-line separated blocks with a
+// "start --> end" timing line followed by the cue text
+function parseCueBlocks(text: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+
+  for (const block of text.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING.test(line.trim()));
+    // Header, NOTE, STYLE and REGION blocks carry no timing line
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].trim().match(TIMING)!;
+    cues.push({
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      text: cleanCueText(lines.slice(timingIndex + 1).join(' '))
+    });
+  }
+
+  return cues;
+}
+
+// YouTube's json3 caption format
+function parseTimedText(text: string): TranscriptCue[] {
+  let data: { events?: Array<{ tStartMs?: number; dDurationMs?: number; segs?: Array<{ utf8?: string }> }> };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Timedtext transcript is not valid JSON');
+  }
+
+  return (data.events || [])
+    .filter(event => event.segs)
+    .map(event => ({
+      start: (event.tStartMs || 0) / 1000,
+      end: ((event.tStartMs || 0) + (event.dDurationMs || 0)) / 1000,
+      text: cleanCueText(event.segs!.map(seg => seg.utf8 || '').join(''))
+    }));
+}
+
+// Auto-generated captions scroll: a cue repeats the line shown before it
+// (sometimes as a cue of its own) and adds one more, so words overlapping the
+// end of the previous cue are dropped. Short overlaps are left alone unless
+// they make up the whole cue, since a phrase may legitimately be repeated.
+function dropRollingRepeats(cues: TranscriptCue[]): TranscriptCue[] {
+  const result: TranscriptCue[] = [];
+  let previous: string[] = [];
+
+  for (const cue of cues) {
+    const words = cue.text.split(' ');
+    let overlap = 0;
+    for (let size = Math.min(words.length, previous.length); size > 0; size--) {
+      if (words.slice(0, size).join(' ') === previous.slice(previous.length - size).join(' ')) {
+        overlap = size;
+        break;
+      }
+    }
+    if (overlap < 3 && overlap < words.length) overlap = 0;
+
+    previous = words;
+    const text = words.slice(overlap).join(' ');
+    if (text) result.push({ ...cue, text });
+  }
+
+  return result;
+}
+
+function parseTimestamp(value: string): number {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')      // <v Speaker>, <c.colour>, <i>, karaoke <00:00:01.000> tags
+    .replace(/\{\\[^}]*\}/g, '')   // SRT positioning such as {\an8}
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,31 @@
+// A unit of extracted text with the location it should be cited by
+export interface ExtractedBlock {
+  text: string;
+  page?: number;    // 1-based page number in the original file
+  slide?: number;   // 1-based slide number in a presentation
+  chapter?: number; // 1-based chapter number in an ebook
+  section?: string; // nearest heading above the block (slide title for slides)
+  startTime?: number; // seconds into the video, for transcript blocks
+  endTime?: number;
+}
+
+export interface ExtractedDocument {
+  title?: string;
+  pageCount?: number;
+  duration?: number; // seconds, for transcripts
+  blocks: ExtractedBlock[];
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'epub' | 'markdown' | 'transcript' | 'text';
+
+export interface ExtractOptions {
+  filename?: string; // original upload name, used as a hint next to the magic bytes
+  mimeType?: string;
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedFormatError';
+  }
+}
@@ -0,0 +1,184 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { fetchAndExtract, fetchUrl, UrlFetchError } from './web';
+
+// fixture.test resolves to the fixture server, like a public name whose DNS
+// record points at an internal address
+vi.mock('dns', async importOriginal => {
+  const dns = await importOriginal<typeof import('dns')>();
+  const lookup = (hostname: string, options: object, callback: (...args: unknown[]) => void) => {
+    if (hostname === 'fixture.test') return callback(null, [{ address: '127.0.0.1', family: 4 }]);
+    return dns.lookup(hostname, options, callback);
+  };
+  return { ...dns, lookup };
+});
+
+const ARTICLE = `<html><head><title>Newton's laws</title></head><body>
+<nav class="menu">Home | About</nav>
+<article><h1>Newton's laws</h1><p>A body stays at rest unless a force acts on it.</p></article>
+</body></html>`;
+
+let server: Server;
+let origin: string;
+let port: number;
+const requested: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requested.push(req.url!);
+    switch (req.url) {
+      case '/article':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        return res.end(ARTICLE);
+      case '/moved':
+        res.writeHead(301, { Location: '/article' });
+        return res.end();
+      case '/loop':
+        res.writeHead(302, { Location: '/loop' });
+        return res.end();
+      case '/plain':
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        return res.end('  F = ma  ');
+      case '/latin1':
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=ISO-8859-1' });
+        return res.end(Buffer.from('café', 'latin1'));
+      case '/untyped':
+        return res.end('<p>No content type</p>');
+      case '/image':
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        return res.end(Buffer.alloc(16));
+      case '/declared-large':
+        res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Length': 4096 });
+        return res.end('x'.repeat(4096));
+      case '/streamed-large':
+        // Chunked, so the size is only known while reading
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.write('x'.repeat(1024));
+        res.write('x'.repeat(1024));
+        return res.end('x'.repeat(1024));
+      case '/slow':
+        return setTimeout(() => res.end('late'), 1000);
+      default:
+        res.writeHead(404);
+        return res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+  origin = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  delete process.env.URL_FETCH_ALLOW_PRIVATE;
+  requested.length = 0;
+});
+
+// The fixture server is on loopback, which is refused unless allowed
+function allowPrivate() {
+  process.env.URL_FETCH_ALLOW_PRIVATE = 'true';
+}
+
+describe('fetchUrl', () => {
+  it('follows redirects and reports the final URL', async () => {
+    allowPrivate();
+    const response = await fetchUrl(`${origin}/moved`);
+
+    expect(response.url).toBe(`${origin}/article`);
+    expect(response.contentType).toBe('text/html');
+    expect(requested).toEqual(['/moved', '/article']);
+  });
+
+  it('gives up after too many redirects', async () => {
+    allowPrivate();
+    await expect(fetchUrl(`${origin}/loop`, { maxRedirects: 2 })).rejects.toThrow('Too many redirects');
+    expect(requested).toHaveLength(3);
+  });
+
+  it('refuses bodies over the size limit, declared or streamed', async () => {
+    allowPrivate();
+    await expect(fetchUrl(`${origin}/declared-large`, { maxBytes: 2048 })).rejects.toThrow(/larger than/);
+    await expect(fetchUrl(`${origin}/streamed-large`, { maxBytes: 2048 })).rejects.toThrow(/larger than/);
+    expect((await fetchUrl(`${origin}/streamed-large`, { maxBytes: 4096 })).body).toHaveLength(3072);
+  });
+
+  it('accepts HTML, plain text and PDF and refuses other content types', async () => {
+    allowPrivate();
+    expect((await fetchUrl(`${origin}/plain`)).contentType).toBe('text/plain');
+    expect((await fetchUrl(`${origin}/untyped`)).contentType).toBe('text/html');
+    expect((await fetchUrl(`${origin}/latin1`)).charset).toBe('latin1');
+    await expect(fetchUrl(`${origin}/image`)).rejects.toThrow('Unsupported content type image/png');
+  });
+
+  it('reports HTTP errors and timeouts', async () => {
+    allowPrivate();
+    await expect(fetchUrl(`${origin}/missing`)).rejects.toMatchObject({ status: 404, transient: false });
+    await expect(fetchUrl(`${origin}/slow`, { timeoutMs: 100 })).rejects.toMatchObject({
+      message: expect.stringContaining('timed out'),
+      transient: true
+    });
+  });
+
+  it('refuses private addresses without connecting to them', async () => {
+    await expect(fetchUrl(`${origin}/article`)).rejects.toThrow('Refusing to fetch private network address');
+    await expect(fetchUrl(`http://[::1]:${port}/article`)).rejects.toThrow('Refusing to fetch private network address');
+    await expect(fetchUrl(`http://localhost:${port}/article`)).rejects.toThrow('Refusing to fetch private network address');
+    await expect(fetchUrl('file:///etc/passwd')).rejects.toThrow(UrlFetchError);
+    expect(requested).toEqual([]);
+  });
+
+  it('refuses IPv4-mapped, NAT64 and other special-purpose addresses', async () => {
+    const refused = [
+      `http://[::ffff:127.0.0.1]:${port}/article`, // rewritten by URL to [::ffff:7f00:1]
+      `http://[::ffff:7f00:1]:${port}/article`,
+      `http://[0:0:0:0:0:ffff:7f00:1]:${port}/article`,
+      'http://[::ffff:a9fe:a9fe]/latest/meta-data/', // 169.254.169.254, cloud metadata
+      'http://[64:ff9b::a9fe:a9fe]/latest/meta-data/',
+      'http://[::127.0.0.1]/',
+      'http://[fd00::1]/',
+      'http://[ff02::1]/',
+      'http://198.18.0.1/',
+      'http://224.0.0.1/',
+      'http://255.255.255.255/'
+    ];
+    for (const url of refused) {
+      await expect(fetchUrl(url)).rejects.toThrow('Refusing to fetch private network address');
+    }
+    expect(requested).toEqual([]);
+  });
+
+  it('connects to the address its own lookup checked', async () => {
+    await expect(fetchUrl(`http://fixture.test:${port}/article`)).rejects.toThrow('Refusing to fetch private network address');
+    expect(requested).toEqual([]);
+
+    // Only the checked lookup knows fixture.test, so reaching the server
+    // shows the connection used its answer
+    allowPrivate();
+    expect((await fetchUrl(`http://fixture.test:${port}/article`)).url).toBe(`http://fixture.test:${port}/article`);
+    expect(requested).toEqual(['/article']);
+  });
+});
+
+describe('fetchAndExtract', () => {
+  it('extracts the article of an HTML page', async () => {
+    allowPrivate();
+    const page = await fetchAndExtract(`${origin}/moved`);
+
+    expect(page.url).toBe(`${origin}/article`);
+    expect(page.title).toBe("Newton's laws");
+    const text = page.blocks.map(block => block.text).join('\n');
+    expect(text).toContain('A body stays at rest');
+    expect(text).not.toContain('Home | About');
+  });
+
+  it('takes plain text as is', async () => {
+    allowPrivate();
+    expect((await fetchAndExtract(`${origin}/plain`)).blocks).toEqual([{ text: 'F = ma' }]);
+    expect((await fetchAndExtract(`${origin}/latin1`)).blocks).toEqual([{ text: 'café' }]);
+  });
+});
@@ -0,0 +1,325 @@
+import { lookup } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { parse, type HTMLElement } from 'node-html-parser';
+import { Agent, fetch, type Response } from 'undici';
+import { cleanText, collectBlocks, isElement } from './html';
+import { extractPdf } from './pdf';
+import type { ExtractedDocument } from './types';
+
+export interface WebDocument extends ExtractedDocument {
+  url: string;           // final URL after redirects
+  canonicalUrl?: string; // <link rel="canonical">, when the page declares one
+}
+
+export interface FetchOptions {
+  maxBytes?: number;
+  maxRedirects?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal; // stops the download, e.g. when its ingestion job is cancelled
+}
+
+export class UrlFetchError extends Error {
+  // Transient failures (network errors, 5xx, rate limiting) may succeed on retry
+  constructor(
+    message: string,
+    public status?: number,
+    public transient = status !== undefined && (status >= 500 || status === 408 || status === 429)
+  ) {
+    super(message);
+    this.name = 'UrlFetchError';
+  }
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const SUPPORTED_TYPES = [...HTML_TYPES, 'text/plain', 'application/pdf'];
+
+// Never part of the readable article
+const REMOVED_TAGS = 'script, style, noscript, template, svg, canvas, iframe, form, button, nav, header, footer, aside';
+const BOILERPLATE = /comment|sidebar|footer|header|nav|menu|breadcrumb|share|social|promo|advert|sponsor|cookie|banner|related|subscribe|newsletter|popup|modal/i;
+
+// Hostnames are resolved and checked while connecting, so the address that
+// passed the check is the one the request goes to
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Downloads a page and extracts its readable text. HTML pages go through a
+// readability-style extractor, PDFs through the PDF extractor and plain text
+// is taken as is.
+export async function fetchAndExtract(url: string, options: FetchOptions = {}): Promise<WebDocument> {
+  const response = await fetchUrl(url, options);
+
+  if (response.contentType === 'application/pdf') {
+    return { ...(await extractPdf(response.body)), url: response.url };
+  }
+
+  const text = response.body.toString(response.charset);
+  if (response.contentType === 'text/plain') {
+    return { url: response.url, blocks: text.trim() ? [{ text: text.trim() }] : [] };
+  }
+
+  return extractHtml(text, response.url);
+}
+
+export async function fetchUrl(url: string, options: FetchOptions = {}): Promise<{
+  url: string;
+  contentType: string;
+  charset: BufferEncoding;
+  body: Buffer;
+}> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+  let current = parseHttpUrl(url);
+  for (let redirects = 0; ; redirects++) {
+    assertPublicAddress(current.hostname);
+
+    let response: Response;
+    try {
+      response = await fetch(current, {
+        dispatcher: publicAgent,
+        redirect: 'manual', // each hop is validated before it is followed
+        signal,
+        headers: {
+          'User-Agent': 'VaktaAI/1.0 (+study-material importer)',
+          'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,application/pdf;q=0.8'
+        }
+      });
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      const cause = (error as Error).cause;
+      if (cause instanceof UrlFetchError) throw cause;
+      const reason = (error as Error).name === 'TimeoutError' ? 'timed out' : (error as Error).message;
+      throw new UrlFetchError(`Could not fetch ${current.href}: ${reason}`, undefined, true);
+    }
+
+    if (response.status >= 300 && response.status < 400 && response.headers.get('location')) {
+      if (redirects >= maxRedirects) {
+        throw new UrlFetchError(`Too many redirects fetching ${url}`);
+      }
+      current = parseHttpUrl(new URL(response.headers.get('location')!, current).href);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new UrlFetchError(`${current.href} responded with HTTP ${response.status}`, response.status);
+    }
+
+    const [mimeType, ...params] = (response.headers.get('content-type') || 'text/html').split(';');
+    const contentType = mimeType.trim().toLowerCase();
+    if (!SUPPORTED_TYPES.includes(contentType)) {
+      throw new UrlFetchError(`Unsupported content type ${contentType}`);
+    }
+
+    const declaredLength = parseInt(response.headers.get('content-length') || '0', 10);
+    if (declaredLength > maxBytes) {
+      throw new UrlFetchError(`Page is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+    }
+
+    const charsetParam = params.map(param => param.trim().toLowerCase()).find(param => param.startsWith('charset='));
+    const charset: BufferEncoding = /latin-?1|iso-8859-1|windows-1252/.test(charsetParam || '') ? 'latin1' : 'utf-8';
+
+    return { url: current.href, contentType, charset, body: await readLimited(response, maxBytes) };
+  }
+}
+
+export function extractHtml(html: string, url: string): WebDocument {
+  const root = parse(html, { comment: false });
+
+  const meta = (selector: string) => root.querySelector(selector)?.getAttribute('content')?.trim();
+  const canonicalHref = root.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  let canonicalUrl: string | undefined;
+  try {
+    canonicalUrl = canonicalHref ? new URL(canonicalHref, url).href : undefined;
+  } catch {
+    canonicalUrl = undefined;
+  }
+
+  const title = meta('meta[property="og:title"]')
+    || cleanText(root.querySelector('title')?.text || '')
+    || cleanText(root.querySelector('h1')?.text || '')
+    || undefined;
+
+  root.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove());
+  root.querySelectorAll('[class], [id]').forEach(element => {
+    const label = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+    // Keep the document skeleton even if a theme labels it "main-header-wrapper"
+    if (BOILERPLATE.test(label) && !['HTML', 'BODY', 'MAIN', 'ARTICLE'].includes(element.tagName)) {
+      element.remove();
+    }
+  });
+
+  const container = root.querySelector('article')
+    || root.querySelector('main')
+    || root.querySelector('[role="main"]')
+    || bestContentCandidate(root)
+    || root.querySelector('body')
+    || root;
+
+  return { title, url, canonicalUrl, blocks: collectBlocks(container) };
+}
+
+// Picks the element whose direct paragraphs carry the most non-link text
+function bestContentCandidate(root: HTMLElement): HTMLElement | undefined {
+  let best: HTMLElement | undefined;
+  let bestScore = 0;
+
+  for (const candidate of root.querySelectorAll('div, section, td')) {
+    const paragraphs = candidate.childNodes.filter(
+      (node): node is HTMLElement => isElement(node) && node.tagName === 'P'
+    );
+    if (paragraphs.length === 0) continue;
+
+    const textLength = paragraphs.reduce((sum, p) => sum + cleanText(p.text).length, 0);
+    const linkLength = candidate.querySelectorAll('a').reduce((sum, a) => sum + cleanText(a.text).length, 0);
+    const totalLength = Math.max(cleanText(candidate.text).length, 1);
+    const score = textLength * (1 - Math.min(linkLength / totalLength, 1)) + paragraphs.length * 25;
+
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function parseHttpUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UrlFetchError(`Invalid URL: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlFetchError(`Only http and https URLs are supported`);
+  }
+  return url;
+}
+
+// Loopback, link-local and private-network targets are refused so that
+// user-supplied URLs cannot reach internal services.
+// URL_FETCH_ALLOW_PRIVATE=true lifts this for local development.
+function allowPrivate(): boolean {
+  return process.env.URL_FETCH_ALLOW_PRIVATE === 'true';
+}
+
+// IP literals are connected to without a lookup, so they are checked here
+function assertPublicAddress(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !allowPrivate() && isPrivateAddress(host)) {
+    throw new UrlFetchError(`Refusing to fetch private network address ${hostname}`);
+  }
+}
+
+// DNS lookup for outgoing connections that fails rather than return a
+// private address
+function publicLookup(...[hostname, options, callback]: Parameters<LookupFunction>) {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(new UrlFetchError(`Could not resolve ${hostname}`, undefined, true), '');
+    }
+    if (!allowPrivate() && addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new UrlFetchError(`Refusing to fetch private network address ${hostname}`), '');
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+// Special-purpose IPv4 ranges: "this network", private, carrier-grade NAT,
+// loopback, link-local, IETF protocol assignments, documentation,
+// benchmarking (198.18/15), multicast and reserved
+const PRIVATE_V4 = blockList('ipv4', [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4]
+]);
+
+// IPv6 ranges: unspecified, loopback and IPv4-compatible (::/96), discard,
+// local-use NAT64, documentation, unique local, link-local, site-local and
+// multicast. Mapped and well-known NAT64 addresses are checked by the IPv4
+// address they carry.
+const PRIVATE_V6 = blockList('ipv6', [
+  ['::', 96], ['100::', 64], ['64:ff9b:1::', 48], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+]);
+
+function blockList(type: 'ipv4' | 'ipv6', subnets: [string, number][]): BlockList {
+  const list = new BlockList();
+  for (const [network, prefix] of subnets) list.addSubnet(network, prefix, type);
+  return list;
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_V4.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  const words = ipv6Words(address);
+  // Anything that cannot be decoded is refused rather than guessed at
+  if (!words) return true;
+
+  const embedsIpv4 =
+    words.slice(0, 5).every(word => word === 0) && words[5] === 0xffff || // ::ffff:0:0/96
+    words[0] === 0x64 && words[1] === 0xff9b && words.slice(2, 6).every(word => word === 0); // 64:ff9b::/96
+  if (embedsIpv4) {
+    const ipv4 = [words[6] >> 8, words[6] & 0xff, words[7] >> 8, words[7] & 0xff].join('.');
+    return PRIVATE_V4.check(ipv4, 'ipv4');
+  }
+
+  return PRIVATE_V6.check(address, 'ipv6');
+}
+
+// Expands an IPv6 address, "::" and a dotted IPv4 tail included, into its
+// eight 16-bit words
+function ipv6Words(address: string): number[] | null {
+  let rest = address.toLowerCase().replace(/%.*$/, '');
+
+  const dotted = rest.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (isIP(dotted[2]) !== 4) return null;
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    rest = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = rest.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new UrlFetchError(`Page is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -1,18 +1,4 @@
-import { GoogleGenAI } from "@google/genai";
-
-// DON'T DELETE THIS COMMENT
-// Follow these instructions when using this blueprint:
-// - Note that the newest Gemini model series is "gemini-2.5-flash" or gemini-2.5-pro"
-//   - do not change this unless explicitly requested by the user
-
-// <important_do_not_delete>
-const DEFAULT_MODEL_STR = "gemini-2.5-flash";
-const REASONING_MODEL_STR = "gemini-2.5-pro";
-// </important_do_not_delete>
-
-const ai = new GoogleGenAI({ 
-  apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY || ""
-});
+import type { JSONSchema, LLMTask, ModelRouter, RoutedStream } from "./llm";
 
 export interface TutorSessionConfig {
   subject: string;
@@ -42,34 +28,44 @@ export interface StudyPlanConfig {
   sessionDuration: number;
 }
 
+// Prompt layer for tutoring and content generation. Originally tuned for
+// Gemini; the ModelRouter picks the provider and model for each task.
 export class GeminiService {
-  
+  constructor(private router: ModelRouter) {}
+
   // AI Tutor - Streaming chat with system prompt
-  async* streamTutorResponse(
+  streamTutorResponse(
     messages: Array<{ role: string; content: string }>,
-    config: TutorSessionConfig
-  ) {
+    config: TutorSessionConfig,
+    task: LLMTask = 'tutor',
+    signal?: AbortSignal
+  ): RoutedStream {
     const systemPrompt = this.buildTutorSystemPrompt(config);
     
-    const response = await ai.models.generateContentStream({
-      model: DEFAULT_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-      },
-      contents: messages.map(msg => ({
-        role: msg.role === 'assistant' ? 'model' : 'user',
-        parts: [{ text: msg.content }]
-      }))
-    });
-
-    for await (const chunk of response) {
-      if (chunk.candidates?.[0]?.content?.parts?.[0]?.text) {
-        yield chunk.candidates[0].content.parts[0].text;
-      }
-    }
+    return this.router.streamText(task, messages, { system: systemPrompt, signal });
+  }
+
+  // DocChat - Streaming answers grounded in retrieved passages. Plain
+  // Markdown: the tutor's tagged blocks would end up in the answer, its
+  // citations and the grounding check.
+  streamDocChatResponse(
+    messages: Array<{ role: string; content: string }>,
+    context: string,
+    language: string,
+    signal?: AbortSignal
+  ): RoutedStream {
+    const systemPrompt = `You are VaktaAI, answering a student's questions about their study material.
+Answer ONLY from CONTEXT. If insufficient, say what else is needed.
+Return crisp bullets. End every bullet with the numbers of the CONTEXT passages it is based on, like [1] or [2, 3]. Cite only passages you used.
+Use LaTeX for formulas ($...$).
+Language: ${language}.
+CONTEXT:
+${context}`;
+
+    return this.router.streamText('docchat', messages, { system: systemPrompt, signal });
   }
 
-  private buildTutorSystemPrompt(config: TutorSessionConfig): string {
+  buildTutorSystemPrompt(config: TutorSessionConfig): string {
     return `You are VaktaAI, a patient, rigorous conversational tutor for Indian students.
 Exam context: ${config.board}. Class/Grade: ${config.level}. Subject: ${config.subject}. Topic: ${config.topic}.
 Language: ${config.language}. Use Indian examples and units (₹, km, °C).
@@ -77,9 +73,18 @@ Language: ${config.language}. Use Indian examples and units (₹, km, °C).
 Teaching loop each turn:
 1) TEACH one micro-concept (≤120 words) with a tiny example.
 2) ASK one check question (MCQ, 4 options) aligned to ${config.board}.
-3) If incorrect, EXPLAIN misconception, RE-TEACH simply.
-
-Every 3 turns: a 3-bullet RECAP.
+3) If the CHECK QUESTION RESULT says the student was incorrect, EXPLAIN the misconception and RE-TEACH simply; if correct, move on.
+
+Every 3 turns: a 3-bullet RECAP. Give a HINT only when the student asks for one or is stuck.
+
+Write every reply as tagged blocks and nothing outside them, in this order, leaving out blocks that do not apply:
+<teach>Markdown explanation</teach>
+<check>{"question": "...", "options": ["...", "...", "...", "..."], "answer": "B", "explanation": "why B is right and the others are not"}</check>
+<recap>- bullet
+- bullet
+- bullet</recap>
+<hint>a nudge, not the answer</hint>
+The check block is JSON only (escape LaTeX backslashes: \\\\frac): options without letters, "answer" is the letter of the correct option. The student sees the answer and explanation only after choosing an option.
 Use LaTeX for formulas ($...$). If using documents, cite them inline [Doc p.{page} §{heading}].
 Tone: warm, encouraging. Keep pace adaptive.
 
@@ -104,40 +109,34 @@ For each, return JSON:
 Constraints: single unambiguous key, plausible distractors, mix Bloom levels, match JEE/NEET pattern where applicable.
 ${config.context ? `\nContext: ${config.context}` : ''}`;
 
-    const response = await ai.models.generateContent({
-      model: REASONING_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            questions: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  type: { type: "string" },
-                  stem: { type: "string" },
-                  options: { type: "array", items: { type: "string" } },
-                  answer: { type: "array", items: { type: "string" } },
-                  rationale: { type: "string" },
-                  source_ref: { type: "string" }
-                },
-                required: ["type", "stem", "options", "answer", "rationale"]
-              }
-            }
-          },
-          required: ["questions"]
+    const schema: JSONSchema = {
+      type: "object",
+      properties: {
+        questions: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string" },
+              stem: { type: "string" },
+              options: { type: "array", items: { type: "string" } },
+              answer: { type: "array", items: { type: "string" } },
+              rationale: { type: "string" },
+              source_ref: { type: "string" }
+            },
+            required: ["type", "stem", "options", "answer", "rationale"]
+          }
         }
       },
-      contents: [{
-        role: "user",
-        parts: [{ text: `Generate ${config.count} questions on ${config.topic}` }]
-      }]
-    });
-
-    const result = JSON.parse(response.candidates?.[0]?.content?.parts?.[0]?.text || '{"questions":[]}');
+      required: ["questions"]
+    };
+
+    const { data: result } = await this.router.generateJSON<{ questions?: unknown[] }>(
+      'quiz',
+      [{ role: "user", content: `Generate ${config.count} questions on ${config.topic}` }],
+      schema,
+      { system: systemPrompt }
+    );
     return result.questions || [];
   }
 
@@ -154,38 +153,32 @@ Each session ${config.sessionDuration} min. Mix tasks:
 Return JSON array of {date, type, duration, title, description, refs}.
 Keep realistic loads for Indian school schedules.`;
 
-    const response = await ai.models.generateContent({
-      model: REASONING_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            schedule: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  date: { type: "string" },
-                  type: { type: "string" },
-                  duration: { type: "number" },
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  refs: { type: "string" }
-                }
-              }
+    const schema: JSONSchema = {
+      type: "object",
+      properties: {
+        schedule: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              date: { type: "string" },
+              type: { type: "string" },
+              duration: { type: "number" },
+              title: { type: "string" },
+              description: { type: "string" },
+              refs: { type: "string" }
             }
           }
         }
-      },
-      contents: [{
-        role: "user",
-        parts: [{ text: `Generate study plan for ${config.subjects.join(', ')}` }]
-      }]
-    });
-
-    const result = JSON.parse(response.candidates?.[0]?.content?.parts?.[0]?.text || '{"schedule":[]}');
+      }
+    };
+
+    const { data: result } = await this.router.generateJSON<{ schedule?: unknown[] }>(
+      'study_plan',
+      [{ role: "user", content: `Generate study plan for ${config.subjects.join(', ')}` }],
+      schema,
+      { system: systemPrompt }
+    );
     return result.schedule || [];
   }
 
@@ -201,56 +194,50 @@ Sections:
 
 Include source breadcrumbs if applicable.`;
 
-    const response = await ai.models.generateContent({
-      model: REASONING_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            bigIdea: { type: "string" },
-            keyTerms: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  term: { type: "string" },
-                  definition: { type: "string" }
-                }
-              }
-            },
-            summary: { type: "string" },
-            sections: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  heading: { type: "string" },
-                  content: { type: "string" }
-                }
-              }
-            },
-            flashcards: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  front: { type: "string" },
-                  back: { type: "string" }
-                }
-              }
+    const schema: JSONSchema = {
+      type: "object",
+      properties: {
+        bigIdea: { type: "string" },
+        keyTerms: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              term: { type: "string" },
+              definition: { type: "string" }
+            }
+          }
+        },
+        summary: { type: "string" },
+        sections: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              heading: { type: "string" },
+              content: { type: "string" }
+            }
+          }
+        },
+        flashcards: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              front: { type: "string" },
+              back: { type: "string" }
             }
           }
         }
-      },
-      contents: [{
-        role: "user",
-        parts: [{ text: content }]
-      }]
-    });
-
-    const result = JSON.parse(response.candidates?.[0]?.content?.parts?.[0]?.text || '{}');
+      }
+    };
+
+    const { data: result } = await this.router.generateJSON(
+      'notes',
+      [{ role: "user", content }],
+      schema,
+      { system: systemPrompt }
+    );
     return result;
   }
 
@@ -263,18 +250,12 @@ ${depth === 'quick' ? 'Brief explanation (50-80 words)' :
 Use LaTeX for formulas ($...$). Include Indian examples where relevant.
 ${context ? `\nContext: ${context}` : ''}`;
 
-    const response = await ai.models.generateContent({
-      model: DEFAULT_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-      },
-      contents: [{
-        role: "user",
-        parts: [{ text: `Explain: ${concept}` }]
-      }]
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    const { text } = await this.router.generateText(
+      'tools',
+      [{ role: "user", content: `Explain: ${concept}` }],
+      { system: systemPrompt }
+    );
+    return text;
   }
 
   async generateHint(question: string, context?: string): Promise<string> {
@@ -282,18 +263,12 @@ ${context ? `\nContext: ${context}` : ''}`;
 Guide the student towards the solution with a leading question or clue.
 Keep it brief (1-2 sentences).`;
 
-    const response = await ai.models.generateContent({
-      model: DEFAULT_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-      },
-      contents: [{
-        role: "user",
-        parts: [{ text: `Question: ${question}\n${context ? `Context: ${context}` : ''}` }]
-      }]
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    const { text } = await this.router.generateText(
+      'tools',
+      [{ role: "user", content: `Question: ${question}\n${context ? `Context: ${context}` : ''}` }],
+      { system: systemPrompt }
+    );
+    return text;
   }
 
   async generateExample(topic: string, difficulty: 'jee' | 'neet' | 'standard' = 'standard'): Promise<string> {
@@ -306,18 +281,12 @@ Include:
 
 Use LaTeX for formulas ($...$). Make it relevant to Indian exams.`;
 
-    const response = await ai.models.generateContent({
-      model: REASONING_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-      },
-      contents: [{
-        role: "user",
-        parts: [{ text: `Generate example for: ${topic}` }]
-      }]
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    const { text } = await this.router.generateText(
+      'tools',
+      [{ role: "user", content: `Generate example for: ${topic}` }],
+      { system: systemPrompt }
+    );
+    return text;
   }
 
   async generateSummary(messages: string[], context?: string): Promise<string> {
@@ -325,17 +294,11 @@ Use LaTeX for formulas ($...$). Make it relevant to Indian exams.`;
 Focus on key concepts learned, problems solved, and important insights.
 ${context ? `Context: ${context}` : ''}`;
 
-    const response = await ai.models.generateContent({
-      model: DEFAULT_MODEL_STR,
-      config: {
-        systemInstruction: systemPrompt,
-      },
-      contents: [{
-        role: "user",
-        parts: [{ text: messages.join('\n\n') }]
-      }]
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    const { text } = await this.router.generateText(
+      'tools',
+      [{ role: "user", content: messages.join('\n\n') }],
+      { system: systemPrompt }
+    );
+    return text;
   }
 }
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HashedNgramBackend } from './embedding-backends';
+import { extractClaims, GroundingVerifier } from './grounding';
+import { FakeLLMProvider, ModelRouter } from './llm';
+import type { ContextCitation } from './rag';
+
+const CONTEXT: ContextCitation[] = [
+  { marker: 1, id: 'c1', source: 'doc-1', text: 'Friction acts between surfaces in contact and opposes their relative motion.' },
+  { marker: 2, id: 'c2', source: 'doc-1', text: 'The coefficient of kinetic friction is usually smaller than the coefficient of static friction.' }
+];
+
+const ANSWER = [
+  '## Friction',
+  '- Friction opposes the relative motion of surfaces in contact [1].',
+  '- Kinetic friction is usually smaller than static friction [2].',
+  '- Friction was discovered by Leonardo da Vinci in 1493.',
+  '- So yes.'
+].join('\n');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function verifier(options: ConstructorParameters<typeof GroundingVerifier>[2] = {}, judge: unknown[] = []) {
+  const backend = new HashedNgramBackend();
+  const router = new ModelRouter({ primary: new FakeLLMProvider(), secondary: new FakeLLMProvider({ json: judge }) });
+  return new GroundingVerifier(texts => backend.embed(texts), router, options);
+}
+
+describe('extractClaims', () => {
+  it('takes the factual sentences of an answer with the markers of their line', () => {
+    expect(extractClaims(`${ANSWER}\n\n| Surface | Coefficient of friction |`)).toEqual([
+      { sentence: 'Friction opposes the relative motion of surfaces in contact.', markers: [1] },
+      { sentence: 'Kinetic friction is usually smaller than static friction.', markers: [2] },
+      { sentence: 'Friction was discovered by Leonardo da Vinci in 1493.', markers: [] }
+    ]);
+  });
+});
+
+describe('GroundingVerifier', () => {
+  it('supports claims the passages state and rejects ones they do not', async () => {
+    const report = await verifier().verify(ANSWER, CONTEXT);
+
+    expect(report.method).toBe('overlap');
+    expect(report.sentences.map(({ supported, bestMarker }) => ({ supported, bestMarker }))).toEqual([
+      { supported: true, bestMarker: 1 },
+      { supported: true, bestMarker: 2 },
+      { supported: false, bestMarker: expect.any(Number) }
+    ]);
+    expect(report.unsupportedCount).toBe(1);
+  });
+
+  it('scores a sentence against only the passages it cites', async () => {
+    const miscited = await verifier().verify('- Kinetic friction is usually smaller than static friction [1].', CONTEXT);
+    const cited = await verifier().verify('- Kinetic friction is usually smaller than static friction [2].', CONTEXT);
+
+    expect(miscited.sentences[0].score).toBeLessThan(cited.sentences[0].score);
+    expect(miscited.sentences[0].bestMarker).toBe(1);
+  });
+
+  it('supports nothing when nothing was retrieved', async () => {
+    const report = await verifier().verify(ANSWER, []);
+    expect(report.unsupportedCount).toBe(3);
+    expect(report.sentences.every(sentence => sentence.score === 0)).toBe(true);
+  });
+
+  it('lets the judge overrule the overlap score and falls back when it fails', async () => {
+    const judged = await verifier({ useJudge: true }, [{ verdicts: [{ claim: 1, supported: false }, { claim: 3, supported: true }] }])
+      .verify(ANSWER, CONTEXT);
+    expect(judged.method).toBe('judge');
+    expect(judged.sentences.map(({ supported, judged }) => ({ supported, judged }))).toEqual([
+      { supported: false, judged: true },
+      { supported: true, judged: undefined },
+      { supported: true, judged: true }
+    ]);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = verifier({ useJudge: true });
+    vi.spyOn(ModelRouter.prototype, 'generateJSON').mockRejectedValueOnce(new Error('judge is down'));
+    const fallback = await broken.verify(ANSWER, CONTEXT);
+    expect(fallback.method).toBe('overlap');
+    expect(fallback.unsupportedCount).toBe(1);
+    expect(warn).toHaveBeenCalledWith('Grounding judge failed, using overlap scores:', 'judge is down');
+  });
+});
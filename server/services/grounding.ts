@@ -0,0 +1,167 @@
+// Grounding verification for DocChat answers. Every sentence of the answer
+// is compared with the passages it cites (or with all retrieved passages
+// when it cites none) by term overlap and embedding similarity; an LLM judge
+// can make the final call when enabled.
+
+import type { GroundingReport, SentenceSupport } from '@shared/citations';
+import { splitSentences } from './chunker';
+import { MARKER_GROUP } from './citations';
+import { cosineSimilarity } from './embeddings';
+import { tokenize } from './tokenizer';
+import type { ModelRouter } from './llm';
+import type { ContextCitation } from './rag';
+
+// Sentences with fewer content terms are connectives or headings, not claims
+const MIN_CLAIM_TERMS = 3;
+
+const LEXICAL_WEIGHT = 0.6;
+const SEMANTIC_WEIGHT = 0.4;
+
+export interface Claim {
+  sentence: string;
+  markers: number[];
+}
+
+export interface GroundingOptions {
+  minScore?: number;  // overlap score a sentence needs to count as supported
+  useJudge?: boolean; // ask the 'judge' model route for a verdict per sentence
+}
+
+// The factual sentences of an answer with the markers of the line they sit
+// on. Bullets end with their markers, so every sentence of a bullet shares them.
+export function extractClaims(answer: string): Claim[] {
+  const claims: Claim[] = [];
+
+  for (const line of answer.split('\n')) {
+    if (/^\s*(#|```|\|)/.test(line)) continue;
+
+    const markers = Array.from(line.matchAll(MARKER_GROUP))
+      .flatMap(match => match[1].split(',').map(value => parseInt(value, 10)));
+    const text = line
+      .replace(MARKER_GROUP, ' ')
+      .replace(/^\s*(?:[-*+\u2022]|\d+[.)])\s+/, '')
+      .replace(/[*_`]+/g, '')
+      .replace(/\s+/g, ' ')
+      .replace(/ ([.,;:!?])/g, '$1')
+      .trim();
+
+    for (const sentence of splitSentences(text)) {
+      if (tokenize(sentence).length >= MIN_CLAIM_TERMS) {
+        claims.push({ sentence, markers: Array.from(new Set(markers)) });
+      }
+    }
+  }
+
+  return claims;
+}
+
+export class GroundingVerifier {
+  private minScore: number;
+  private useJudge: boolean;
+
+  constructor(
+    private embed: (texts: string[]) => Promise<number[][]>,
+    private router: ModelRouter,
+    options: GroundingOptions = {}
+  ) {
+    this.minScore = options.minScore ?? parseFloat(process.env.GROUNDING_MIN_SCORE || '0.5');
+    this.useJudge = options.useJudge ?? process.env.GROUNDING_JUDGE === 'true';
+  }
+
+  async verify(answer: string, context: ContextCitation[]): Promise<GroundingReport> {
+    const claims = extractClaims(answer);
+    if (claims.length === 0 || context.length === 0) {
+      // Nothing was retrieved, so no sentence can be backed by the documents
+      return this.report(claims.map(claim => ({ ...claim, score: 0, supported: false })), 'overlap');
+    }
+
+    const embeddings = await this.embed([...claims.map(claim => claim.sentence), ...context.map(passage => passage.text)]);
+    const claimEmbeddings = embeddings.slice(0, claims.length);
+    const passageEmbeddings = new Map(context.map((passage, index) => [passage.marker, embeddings[claims.length + index]]));
+    const passageTerms = new Map(context.map(passage => [passage.marker, new Set(tokenize(passage.text))]));
+
+    let sentences: SentenceSupport[] = claims.map((claim, index) => {
+      const terms = Array.from(new Set(tokenize(claim.sentence)));
+      const cited = context.filter(passage => claim.markers.includes(passage.marker));
+      const candidates = cited.length > 0 ? cited : context;
+
+      let score = 0;
+      let bestMarker: number | undefined;
+      for (const passage of candidates) {
+        const known = passageTerms.get(passage.marker)!;
+        const lexical = terms.filter(term => known.has(term)).length / terms.length;
+        const semantic = Math.max(0, cosineSimilarity(claimEmbeddings[index], passageEmbeddings.get(passage.marker)!));
+        const combined = LEXICAL_WEIGHT * lexical + SEMANTIC_WEIGHT * semantic;
+        if (combined > score || bestMarker === undefined) {
+          score = combined;
+          bestMarker = passage.marker;
+        }
+      }
+
+      return {
+        sentence: claim.sentence,
+        score: Math.round(score * 100) / 100,
+        supported: score >= this.minScore,
+        markers: claim.markers,
+        bestMarker
+      };
+    });
+
+    if (this.useJudge) {
+      try {
+        sentences = await this.judge(sentences, context);
+        return this.report(sentences, 'judge');
+      } catch (error) {
+        console.warn('Grounding judge failed, using overlap scores:', (error as Error).message);
+      }
+    }
+    return this.report(sentences, 'overlap');
+  }
+
+  // One call for the whole answer; sentences the judge skips keep their
+  // overlap verdict
+  private async judge(sentences: SentenceSupport[], context: ContextCitation[]): Promise<SentenceSupport[]> {
+    const passages = context.map(passage => `[${passage.marker}] ${passage.text}`).join('\n\n');
+    const claims = sentences.map((sentence, index) => `${index + 1}. ${sentence.sentence}`).join('\n');
+
+    const { data } = await this.router.generateJSON<{ verdicts: Array<{ claim: number; supported: boolean }> }>(
+      'judge',
+      [{ role: 'user', content: `PASSAGES:\n${passages}\n\nCLAIMS:\n${claims}` }],
+      {
+        type: 'object',
+        properties: {
+          verdicts: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                claim: { type: 'integer', description: 'Claim number' },
+                supported: { type: 'boolean', description: 'Whether the passages state or directly imply the claim' }
+              },
+              required: ['claim', 'supported']
+            }
+          }
+        },
+        required: ['verdicts']
+      },
+      {
+        system: 'You check whether each numbered claim is supported by the passages. ' +
+          'A claim is supported only if the passages state it or directly imply it; background knowledge does not count.'
+      }
+    );
+
+    const verdicts = new Map(data.verdicts.map(verdict => [verdict.claim, verdict.supported]));
+    return sentences.map((sentence, index) => {
+      const verdict = verdicts.get(index + 1);
+      return verdict === undefined ? sentence : { ...sentence, supported: verdict, judged: true };
+    });
+  }
+
+  private report(sentences: SentenceSupport[], method: GroundingReport['method']): GroundingReport {
+    return {
+      sentences,
+      unsupportedCount: sentences.filter(sentence => !sentence.supported).length,
+      method
+    };
+  }
+}
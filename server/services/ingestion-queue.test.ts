@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import type { IngestionProgress, IngestionStatus } from '@shared/ingestion';
+import { storage } from '../storage';
+import { IngestionQueue } from './ingestion-queue';
+import { RAGService } from './rag';
+import { HeuristicReranker } from './rerankers';
+import { UploadStore } from './uploads';
+import { FileVectorStore } from './vector-store';
+
+// Runs before the imports above, which create the storage singleton
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  // The pages are served from loopback
+  process.env.URL_FETCH_ALLOW_PRIVATE = 'true';
+});
+
+const ARTICLE = `<html><head><title>Photosynthesis</title></head><body><article>
+<p>Plants turn light, water and carbon dioxide into glucose and oxygen.</p>
+<p>Chlorophyll in the chloroplasts absorbs the light.</p>
+</article></body></html>`;
+
+let server: Server;
+let origin: string;
+let articleStatus = 200;
+let dataDir: string;
+let rag: RAGService;
+let queue: IngestionQueue;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/slow') return; // never answers
+    res.writeHead(articleStatus, { 'Content-Type': 'text/html' });
+    res.end(articleStatus === 200 ? ARTICLE : '');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  dataDir = mkdtempSync(path.join(os.tmpdir(), 'vakta-ingestion-'));
+  rag = new RAGService(new FileVectorStore(path.join(dataDir, 'vectors')), new HeuristicReranker());
+  queue = new IngestionQueue(rag, new UploadStore(path.join(dataDir, 'uploads')), { maxAttempts: 1 });
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  articleStatus = 200;
+});
+
+// Resolves with the first progress update of the document in one of `statuses`
+function waitFor(documentId: string, statuses: IngestionStatus[]): Promise<IngestionProgress> {
+  return new Promise(resolve => {
+    const unsubscribe = queue.subscribe(documentId, progress => {
+      if (!statuses.includes(progress.status)) return;
+      unsubscribe();
+      resolve(progress);
+    });
+  });
+}
+
+async function ingestArticle() {
+  const url = `${origin}/article`;
+  const document = await storage.createDocument({ userId: 'user-1', title: url, type: 'url', sourceUrl: url });
+  const completed = waitFor(document.id, ['completed', 'failed']);
+  await queue.enqueueUrl(document, url);
+  expect((await completed).status).toBe('completed');
+  return (await storage.getDocument(document.id))!;
+}
+
+describe('IngestionQueue', () => {
+  it('fetches, indexes and titles a URL document', async () => {
+    const document = await ingestArticle();
+
+    expect(document.status).toBe('ready');
+    expect(document.title).toBe('Photosynthesis');
+    expect((await rag.getDocumentStatus(document.id)).chunkCount).toBeGreaterThan(0);
+  });
+
+  it('keeps a ready document and its index when re-indexing fails', async () => {
+    const document = await ingestArticle();
+    const { chunkCount } = await rag.getDocumentStatus(document.id);
+
+    articleStatus = 404;
+    const failed = waitFor(document.id, ['completed', 'failed']);
+    await queue.reindex(document);
+    const reindexing = (await storage.getDocument(document.id))!;
+    expect(reindexing.status).toBe('ready');
+    expect(reindexing.metadata).toMatchObject({ reindexing: true });
+
+    expect((await failed).status).toBe('failed');
+    const after = (await storage.getDocument(document.id))!;
+    expect(after.status).toBe('ready');
+    expect(after.metadata).toMatchObject({ reindexError: expect.stringContaining('HTTP 404') });
+    expect((after.metadata as Record<string, unknown>).reindexing).toBeUndefined();
+    expect((await rag.getDocumentStatus(document.id)).chunkCount).toBe(chunkCount);
+
+    // A later successful re-index clears the failure
+    articleStatus = 200;
+    const completed = waitFor(document.id, ['completed', 'failed']);
+    await queue.reindex(after);
+    expect((await completed).status).toBe('completed');
+    expect(((await storage.getDocument(document.id))!.metadata as Record<string, unknown>).reindexError).toBeUndefined();
+  });
+
+  it('aborts a download in progress when the job is cancelled', async () => {
+    const url = `${origin}/slow`;
+    const document = await storage.createDocument({ userId: 'user-1', title: url, type: 'url', sourceUrl: url });
+    const running = waitFor(document.id, ['running']);
+    await queue.enqueueUrl(document, url);
+    await running;
+
+    const started = Date.now();
+    const cancelled = waitFor(document.id, ['cancelled']);
+    expect(await queue.cancel(document.id)).toBe(true);
+    expect((await cancelled).status).toBe('cancelled');
+    // Well before the 15 s fetch timeout
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect((await storage.getDocument(document.id))!.status).toBe('error');
+  });
+
+  it('does not cancel a job that starts while the cancel reads it', async () => {
+    const document = await storage.createDocument({ userId: 'user-1', title: 'Notes', type: 'pdf' });
+    const job = await storage.createIngestionJob({ documentId: document.id, kind: 'file', source: {} });
+    // Another worker claims the job right after it is read as queued
+    const read = vi.spyOn(storage, 'getLatestIngestionJob').mockImplementationOnce(async () => {
+      await storage.updateIngestionJob(job.id, { status: 'running' });
+      return job;
+    });
+
+    expect(await queue.cancel(document.id)).toBe(false);
+    expect((await storage.getIngestionJob(job.id))!.status).toBe('running');
+    read.mockRestore();
+    await storage.updateIngestionJob(job.id, { status: 'failed' });
+  });
+});
@@ -0,0 +1,449 @@
+// Ingestion Queue
+// Runs document ingestion (extract -> chunk -> embed -> index) as persistent
+// jobs. Jobs survive restarts, failed attempts are retried with exponential
+// backoff, a limited number run at once, and progress is published as
+// events for the SSE endpoint.
+
+import { EventEmitter } from 'events';
+import { storage } from '../storage';
+import { estimateTokens } from './tokens';
+import { extractDocument, fetchAndExtract, UnsupportedFormatError, UrlFetchError, type ExtractedDocument, type ExtractOptions, type WebDocument } from './extractors';
+import type { RAGService } from './rag';
+import type { UploadStore } from './uploads';
+import type { Document, IngestionJob } from '@shared/schema';
+import type { IngestionProgress, IngestionStage, IngestionStatus } from '@shared/ingestion';
+
+// A failure that retrying cannot fix, e.g. a file without any text
+export class IngestionError extends Error {
+  constructor(message: string, public permanent = true) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
+
+export interface IngestionQueueOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  retryDelayMs?: number; // first retry delay, doubled for every later attempt
+}
+
+type FileSource = ExtractOptions;
+type UrlSource = { url: string };
+
+interface ActiveJob {
+  job: IngestionJob;
+  controller: AbortController;
+  progress: IngestionProgress;
+  persistedAt: number;
+  done: Promise<void>; // settles once the run has stopped, whatever the outcome
+}
+
+const TERMINAL_STATUSES: IngestionStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Progress within a stage is written to storage at most this often; every
+// update is still emitted to listeners
+const PERSIST_INTERVAL_MS = 1000;
+
+export class IngestionQueue extends EventEmitter {
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private active: Map<string, ActiveJob> = new Map(); // by document id
+  private pumping: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private ragService: RAGService, private uploads: UploadStore, options: IngestionQueueOptions = {}) {
+    super();
+    this.concurrency = Math.max(1, options.concurrency ?? parseInt(process.env.INGESTION_CONCURRENCY || '2', 10));
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? parseInt(process.env.INGESTION_MAX_ATTEMPTS || '3', 10));
+    this.retryDelayMs = options.retryDelayMs ?? parseInt(process.env.INGESTION_RETRY_DELAY_MS || '2000', 10);
+  }
+
+  // Stores the uploaded file so the job can be retried or resumed, then queues it
+  async enqueueFile(document: Document, buffer: Buffer, source: FileSource): Promise<IngestionJob> {
+    await this.uploads.save(document.id, buffer);
+    return this.enqueue(document, 'file', source);
+  }
+
+  async enqueueUrl(document: Document, url: string): Promise<IngestionJob> {
+    return this.enqueue(document, 'url', { url } satisfies UrlSource);
+  }
+
+  // Re-runs ingestion from the document's original file or URL, picking up
+  // the current chunker and embedding model
+  async reindex(document: Document): Promise<IngestionJob> {
+    const previous = await storage.getLatestIngestionJob(document.id);
+    if (this.active.has(document.id) || previous?.status === 'queued') {
+      throw new IngestionError('Document is already being processed');
+    }
+
+    let job: IngestionJob;
+    if (previous?.kind === 'url' || (!previous && document.type === 'url')) {
+      const url = previous ? (previous.source as UrlSource).url
+        : (document.metadata as { fetchedUrl?: string } | null)?.fetchedUrl || document.sourceUrl;
+      if (!url) {
+        throw new IngestionError('The document has no source URL to fetch again');
+      }
+      await this.markReindexing(document);
+      job = await this.enqueue(document, 'url', { url });
+    } else {
+      // Files uploaded before jobs existed were never stored
+      if (!previous || !(await this.uploads.has(document.id))) {
+        throw new IngestionError('The original file is not stored. Upload the document again.');
+      }
+      await this.markReindexing(document);
+      job = await this.enqueue(document, 'file', previous.source as FileSource);
+    }
+    return job;
+  }
+
+  // Cancels the document's queued or running job. A running job stops at the
+  // next stage or embedding batch; the returned promise waits for that.
+  async cancel(documentId: string): Promise<boolean> {
+    const running = this.active.get(documentId);
+    if (running) {
+      running.controller.abort();
+      await running.done;
+      return true;
+    }
+
+    const job = await storage.getLatestIngestionJob(documentId);
+    if (!job || job.status !== 'queued') return false;
+
+    const cancelled = await storage.transitionIngestionJob(job.id, 'queued', { status: 'cancelled', finishedAt: new Date() });
+    if (!cancelled) {
+      // Started since it was read: once the pump has registered the run,
+      // stop that instead
+      await this.pumping;
+      return this.active.has(documentId) ? this.cancel(documentId) : false;
+    }
+    await this.markDocumentFailed(documentId, 'Processing was cancelled');
+    this.publish(toProgress(cancelled));
+    return true;
+  }
+
+  // Latest known progress for a document: live while running, otherwise
+  // whatever its newest job recorded
+  async snapshot(documentId: string): Promise<IngestionProgress | undefined> {
+    const running = this.active.get(documentId);
+    if (running) return running.progress;
+
+    const job = await storage.getLatestIngestionJob(documentId);
+    return job ? toProgress(job) : undefined;
+  }
+
+  // Calls `listener` with every progress update for the document; returns
+  // the unsubscribe function
+  subscribe(documentId: string, listener: (progress: IngestionProgress) => void): () => void {
+    const event = `progress:${documentId}`;
+    this.on(event, listener);
+    return () => {
+      this.off(event, listener);
+    };
+  }
+
+  // On server start: jobs that were running when the process stopped are
+  // queued again, and documents stuck in 'processing' without any job
+  // (ingested before the queue existed) are marked as failed
+  async recover(): Promise<void> {
+    const interrupted = await storage.getIngestionJobsByStatus(['running']);
+    for (const job of interrupted) {
+      if (job.attempts >= job.maxAttempts) {
+        await this.fail(job, 'Processing was interrupted too many times');
+      } else {
+        await storage.updateIngestionJob(job.id, { status: 'queued', runAfter: new Date() });
+      }
+    }
+    if (interrupted.length > 0) {
+      console.log(`Resuming ${interrupted.length} interrupted ingestion job(s)`);
+    }
+
+    for (const document of await storage.getDocumentsByStatus('processing')) {
+      const job = await storage.getLatestIngestionJob(document.id);
+      if (!job || TERMINAL_STATUSES.includes(job.status as IngestionStatus)) {
+        await this.markDocumentFailed(document.id, 'Processing was interrupted. Upload the document again.');
+      }
+    }
+
+    this.pump();
+  }
+
+  private async enqueue(document: Document, kind: 'file' | 'url', source: FileSource | UrlSource): Promise<IngestionJob> {
+    const job = await storage.createIngestionJob({
+      documentId: document.id,
+      userId: document.userId,
+      kind,
+      source,
+      maxAttempts: this.maxAttempts
+    });
+    this.publish(toProgress(job));
+    this.pump();
+    return job;
+  }
+
+  // Starts due jobs while there are free slots. Runs are serialized through
+  // `pumping` so two pumps never claim the same job.
+  private pump() {
+    this.pumping = this.pumping
+      .then(() => this.fillSlots())
+      .catch(error => console.error('Ingestion queue error:', error));
+  }
+
+  private async fillSlots() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    const queued = (await storage.getIngestionJobsByStatus(['queued']))
+      .filter(job => !this.active.has(job.documentId))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+    const isDue = (job: IngestionJob) => !job.runAfter || job.runAfter.getTime() <= now;
+
+    for (const job of queued.filter(isDue)) {
+      if (this.active.size >= this.concurrency) break;
+      if (this.active.has(job.documentId)) continue;
+      await this.start(job);
+    }
+
+    // Wake up for the next retry that is waiting out its backoff
+    const nextRun = Math.min(...queued.filter(job => !isDue(job)).map(job => job.runAfter!.getTime()));
+    if (Number.isFinite(nextRun)) {
+      this.timer = setTimeout(() => this.pump(), Math.max(nextRun - now, 0));
+      this.timer.unref();
+    }
+  }
+
+  private async start(queuedJob: IngestionJob) {
+    // Not if it was cancelled since the queue was read
+    const job = await storage.transitionIngestionJob(queuedJob.id, 'queued', {
+      status: 'running',
+      stage: 'extract',
+      progress: 0,
+      attempts: queuedJob.attempts + 1
+    });
+    if (!job) return;
+
+    const active: ActiveJob = {
+      job,
+      controller: new AbortController(),
+      progress: toProgress(job),
+      persistedAt: Date.now(),
+      done: Promise.resolve()
+    };
+    this.active.set(job.documentId, active);
+    this.publish(active.progress);
+
+    active.done = this.run(active).finally(() => {
+      this.active.delete(job.documentId);
+      this.pump();
+    });
+  }
+
+  private async run(active: ActiveJob) {
+    const { job, controller } = active;
+    try {
+      await this.process(active);
+      const completed = await storage.updateIngestionJob(job.id, {
+        status: 'completed',
+        stage: 'index',
+        progress: 1,
+        error: null,
+        finishedAt: new Date()
+      });
+      this.publish(toProgress(completed ?? job));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log(`Ingestion of document ${job.documentId} cancelled`);
+        const cancelled = await storage.updateIngestionJob(job.id, { status: 'cancelled', finishedAt: new Date() });
+        await this.markDocumentFailed(job.documentId, 'Processing was cancelled');
+        this.publish(toProgress(cancelled ?? job));
+        return;
+      }
+
+      const message = (error as Error).message;
+      if (isPermanent(error) || job.attempts >= job.maxAttempts) {
+        console.error(`Failed to process document ${job.documentId}:`, error);
+        await this.fail(job, message);
+        return;
+      }
+
+      const delay = this.retryDelayMs * 2 ** (job.attempts - 1);
+      console.warn(`Ingestion of document ${job.documentId} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms:`, message);
+      const retry = await storage.updateIngestionJob(job.id, {
+        status: 'queued',
+        error: message,
+        runAfter: new Date(Date.now() + delay)
+      });
+      this.publish(toProgress(retry ?? job));
+    }
+  }
+
+  private async process(active: ActiveJob) {
+    const { job, controller: { signal } } = active;
+    const document = await storage.getDocument(job.documentId);
+    if (!document) {
+      throw new IngestionError('Document no longer exists');
+    }
+
+    let page: WebDocument | undefined;
+    let extracted: ExtractedDocument;
+    if (job.kind === 'url') {
+      extracted = page = await this.extractUrl((job.source as UrlSource).url, signal);
+    } else {
+      extracted = await this.extractFile(document, job.source as FileSource);
+    }
+    await this.report(active, 'extract', 1);
+
+    signal.throwIfAborted();
+    await this.ragService.ingestDocument(document.id, extracted, {
+      title: extracted.title || page?.url || `Document ${document.id}`,
+      type: document.type,
+      source: document.id
+    }, {
+      signal,
+      onProgress: (stage, fraction) => {
+        this.report(active, stage, fraction).catch(error => console.error('Failed to record ingestion progress:', error));
+      }
+    });
+
+    // Re-read: the document may have been edited while the job ran
+    const current = await storage.getDocument(document.id);
+    const tokens = extracted.blocks.reduce((sum, block) => sum + estimateTokens(block.text), 0);
+    const metadata = {
+      ...(current?.metadata as Record<string, unknown> || {}),
+      error: undefined,
+      reindexing: undefined,
+      reindexError: undefined,
+      ...(extracted.title ? { extractedTitle: extracted.title } : {}),
+      ...(extracted.duration !== undefined ? { duration: Math.round(extracted.duration) } : {})
+    };
+
+    if (page) {
+      const { url } = job.source as UrlSource;
+      await storage.updateDocument(document.id, {
+        status: 'ready',
+        // Replace the URL placeholder title unless the user named the document
+        title: current && current.title !== url ? current.title : page.title || url,
+        sourceUrl: page.canonicalUrl || page.url,
+        pages: page.pageCount ?? 1,
+        tokens,
+        metadata: { ...metadata, fetchedUrl: page.url }
+      });
+    } else {
+      await storage.updateDocument(document.id, {
+        status: 'ready',
+        pages: extracted.pageCount ?? null,
+        tokens,
+        metadata
+      });
+    }
+
+    console.log(`Document ${document.id} processed successfully`);
+  }
+
+  private async extractFile(document: Document, source: FileSource): Promise<ExtractedDocument> {
+    const buffer = await this.uploads.read(document.id);
+    if (!buffer) {
+      throw new IngestionError('The uploaded file is missing. Upload the document again.');
+    }
+
+    // Parsing a stored file gives the same result every time, so extraction
+    // failures are not retried
+    let extracted: ExtractedDocument;
+    try {
+      extracted = await extractDocument(buffer, source);
+    } catch (error) {
+      throw new IngestionError((error as Error).message);
+    }
+    const textLength = extracted.blocks.reduce((sum, block) => sum + block.text.length, 0);
+    if (textLength === 0) {
+      throw new IngestionError(extracted.duration !== undefined ? 'The caption file contains no cues'
+        : document.type === 'pdf' ? 'No extractable text (scanned PDFs need OCR first)'
+        : 'No extractable text in the file');
+    }
+    if ((document.type === 'youtube' || document.type === 'video') && extracted.duration === undefined) {
+      throw new IngestionError('Videos are added from their caption file (WebVTT, SRT or YouTube timedtext JSON)');
+    }
+    return extracted;
+  }
+
+  private async extractUrl(url: string, signal: AbortSignal): Promise<WebDocument> {
+    const page = await fetchAndExtract(url, { signal });
+    const textLength = page.blocks.reduce((sum, block) => sum + block.text.length, 0);
+    if (textLength === 0) {
+      throw new IngestionError('No readable text found on the page');
+    }
+    return page;
+  }
+
+  private async report(active: ActiveJob, stage: IngestionStage, progress: number) {
+    const stageChanged = active.progress.stage !== stage;
+    active.progress = { ...active.progress, stage, progress };
+    this.publish(active.progress);
+
+    if (stageChanged || progress >= 1 || Date.now() - active.persistedAt >= PERSIST_INTERVAL_MS) {
+      active.persistedAt = Date.now();
+      await storage.updateIngestionJob(active.job.id, { stage, progress });
+    }
+  }
+
+  private async fail(job: IngestionJob, message: string) {
+    const failed = await storage.updateIngestionJob(job.id, { status: 'failed', error: message, finishedAt: new Date() });
+    await this.markDocumentFailed(job.documentId, message);
+    this.publish(toProgress(failed ?? { ...job, status: 'failed', error: message }));
+  }
+
+  // A ready document keeps its status, and answers from its current index,
+  // until a new index replaces it; `reindexing` marks the job in progress
+  private async markReindexing(document: Document) {
+    const metadata = document.metadata as Record<string, unknown> || {};
+    await storage.updateDocument(document.id, document.status === 'ready'
+      ? { metadata: { ...metadata, reindexing: true, reindexError: undefined } }
+      : { status: 'processing' });
+  }
+
+  private async markDocumentFailed(documentId: string, message: string) {
+    const document = await storage.getDocument(documentId);
+    if (!document) return;
+    const metadata = document.metadata as Record<string, unknown> || {};
+
+    // A failed or cancelled re-index leaves the previous index in place
+    if (document.status === 'ready') {
+      await storage.updateDocument(documentId, {
+        metadata: { ...metadata, reindexing: undefined, reindexError: message }
+      });
+      return;
+    }
+
+    await storage.updateDocument(documentId, {
+      status: 'error',
+      metadata: { ...metadata, error: message }
+    });
+  }
+
+  private publish(progress: IngestionProgress) {
+    this.emit(`progress:${progress.documentId}`, progress);
+  }
+}
+
+function toProgress(job: IngestionJob): IngestionProgress {
+  return {
+    documentId: job.documentId,
+    jobId: job.id,
+    status: job.status as IngestionStatus,
+    stage: job.stage as IngestionStage | null,
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    ...(job.error ? { error: job.error } : {}),
+    ...(job.status === 'queued' && job.error && job.runAfter ? { retryAt: job.runAfter.toISOString() } : {})
+  };
+}
+
+function isPermanent(error: unknown): boolean {
+  if (error instanceof IngestionError) return error.permanent;
+  if (error instanceof UrlFetchError) return !error.transient;
+  return error instanceof UnsupportedFormatError;
+}
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import type { ChatMessage, GenerateOptions, JSONSchema, LLMProvider } from './types';
+
+export interface FakeLLMScript {
+  text?: string[]; // replies for streamText/generateText, consumed in order
+  json?: unknown[]; // replies for generateJSON, consumed in order
+  chunkDelayMs?: number; // pause between streamed chunks, to exercise cancellation
+}
+
+// Deterministic offline provider. Scripted replies are served first; after
+// that text replies echo the prompt and JSON replies are synthesised from
+// the requested schema, so every route works without network access.
+export class FakeLLMProvider implements LLMProvider {
+  readonly name: string;
+  private textQueue: string[];
+  private jsonQueue: unknown[];
+  private chunkDelayMs: number;
+
+  constructor(script: FakeLLMScript = {}, name: string = 'fake') {
+    this.name = name;
+    this.textQueue = [...(script.text || [])];
+    this.jsonQueue = [...(script.json || [])];
+    this.chunkDelayMs = script.chunkDelayMs ?? 0;
+  }
+
+  static fromFile(path: string, name?: string): FakeLLMProvider {
+    return new FakeLLMProvider(JSON.parse(readFileSync(path, 'utf-8')), name);
+  }
+
+  modelFor(options?: GenerateOptions): string {
+    return options?.model || `${this.name}-${options?.tier || 'fast'}`;
+  }
+
+  async* streamText(messages: ChatMessage[], options?: GenerateOptions): AsyncGenerator<string> {
+    const text = await this.generateText(messages, options);
+    // Emit word-sized chunks like a real stream would
+    for (const piece of text.match(/\S+\s*/g) || []) {
+      if (this.chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      options?.signal?.throwIfAborted();
+      yield piece;
+    }
+  }
+
+  async generateText(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+    const scripted = this.textQueue.shift();
+    if (scripted !== undefined) return scripted;
+
+    const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+    const prompt = (lastUserMessage?.content || '').replace(/\s+/g, ' ').trim().slice(0, 200);
+    return `[${this.modelFor(options)}] You asked: "${prompt}". This is an offline response.`;
+  }
+
+  async generateJSON<T = unknown>(messages: ChatMessage[], schema: JSONSchema, _options?: GenerateOptions): Promise<T> {
+    if (this.jsonQueue.length > 0) {
+      return this.jsonQueue.shift() as T;
+    }
+    return sampleFromSchema(schema, 'value') as T;
+  }
+}
+
+// Smallest value that satisfies the schema, labelled by its property path
+export function sampleFromSchema(schema: JSONSchema, path: string): unknown {
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        result[key] = sampleFromSchema(propertySchema, key);
+      }
+      return result;
+    }
+    case 'array':
+      return schema.items
+        ? [1, 2].map(index => sampleFromSchema(schema.items!, `${path} ${index}`))
+        : [];
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+    case 'string':
+    default:
+      return `Sample ${path}`;
+  }
+}
@@ -0,0 +1,107 @@
+import { GoogleGenAI, Type, type Schema } from "@google/genai";
+import type { ChatMessage, GenerateOptions, JSONSchema, LLMProvider } from "./types";
+
+// DON'T DELETE THIS COMMENT
+// Follow these instructions when using this blueprint:
+// - Note that the newest Gemini model series is "gemini-2.5-flash" or gemini-2.5-pro"
+//   - do not change this unless explicitly requested by the user
+
+// <important_do_not_delete>
+const DEFAULT_MODEL_STR = "gemini-2.5-flash";
+const REASONING_MODEL_STR = "gemini-2.5-pro";
+// </important_do_not_delete>
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY || "") {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  modelFor(options?: GenerateOptions): string {
+    if (options?.model) return options.model;
+    return options?.tier === 'reasoning' ? REASONING_MODEL_STR : DEFAULT_MODEL_STR;
+  }
+
+  async* streamText(messages: ChatMessage[], options?: GenerateOptions): AsyncGenerator<string> {
+    const response = await this.ai.models.generateContentStream({
+      model: this.modelFor(options),
+      config: {
+        systemInstruction: options?.system,
+        maxOutputTokens: options?.maxTokens,
+        abortSignal: options?.signal,
+      },
+      contents: this.toContents(messages)
+    });
+
+    for await (const chunk of response) {
+      if (chunk.candidates?.[0]?.content?.parts?.[0]?.text) {
+        yield chunk.candidates[0].content.parts[0].text;
+      }
+    }
+  }
+
+  async generateText(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelFor(options),
+      config: {
+        systemInstruction: options?.system,
+        maxOutputTokens: options?.maxTokens,
+        abortSignal: options?.signal,
+      },
+      contents: this.toContents(messages)
+    });
+
+    return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  }
+
+  async generateJSON<T = unknown>(messages: ChatMessage[], schema: JSONSchema, options?: GenerateOptions): Promise<T> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelFor(options),
+      config: {
+        systemInstruction: options?.system,
+        maxOutputTokens: options?.maxTokens,
+        abortSignal: options?.signal,
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(schema)
+      },
+      contents: this.toContents(messages)
+    });
+
+    return JSON.parse(response.candidates?.[0]?.content?.parts?.[0]?.text || '{}');
+  }
+
+  // Gemini only knows 'user' and 'model'; system turns are sent as user turns
+  private toContents(messages: ChatMessage[]) {
+    return messages.map(msg => ({
+      role: msg.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: msg.content }]
+    }));
+  }
+}
+
+const GEMINI_TYPES: Record<JSONSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+// Gemini's OpenAPI schema spells types as upper-case enum values
+function toGeminiSchema(schema: JSONSchema): Schema {
+  return {
+    type: GEMINI_TYPES[schema.type],
+    ...(schema.properties ? {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, property]) => [key, toGeminiSchema(property)])
+      )
+    } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+  };
+}
@@ -0,0 +1,27 @@
+import { GeminiProvider } from './gemini';
+import { AnthropicProvider } from './anthropic';
+import { FakeLLMProvider } from './fake';
+import type { LLMProviders } from './types';
+
+export * from './types';
+export { GeminiProvider } from './gemini';
+export { AnthropicProvider } from './anthropic';
+export { FakeLLMProvider, sampleFromSchema, type FakeLLMScript } from './fake';
+export * from './router';
+
+// LLM_PROVIDER=fake runs everything offline; FAKE_LLM_SCRIPT optionally
+// points at a JSON file of scripted replies ({ "text": [...], "json": [...] }).
+export function createLLMProviders(): LLMProviders {
+  if (process.env.LLM_PROVIDER === 'fake') {
+    const script = process.env.FAKE_LLM_SCRIPT;
+    return {
+      primary: script ? FakeLLMProvider.fromFile(script, 'fake-primary') : new FakeLLMProvider({}, 'fake-primary'),
+      secondary: new FakeLLMProvider({}, 'fake-secondary')
+    };
+  }
+
+  return {
+    primary: new GeminiProvider(),
+    secondary: new AnthropicProvider()
+  };
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnthropicService } from '../anthropic';
+import { FakeLLMProvider } from './fake';
+import { classifyFailure, isNumericallyHeavy, LLMRouteError, ModelRouter } from './router';
+import type { GenerateOptions } from './types';
+
+// Fails every call with `error`, or after streaming `chunks` first
+class FailingProvider extends FakeLLMProvider {
+  constructor(private error: unknown, private chunks: string[] = [], name = 'failing') {
+    super({}, name);
+  }
+
+  async* streamText(): AsyncGenerator<string> {
+    yield* this.chunks;
+    throw this.error;
+  }
+
+  async generateText(): Promise<string> {
+    throw this.error;
+  }
+}
+
+const quiet = () => vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe('ModelRouter', () => {
+  it('sends each task to its preferred provider and tier', async () => {
+    const router = new ModelRouter({
+      primary: new FakeLLMProvider({ text: ['tutor reply'] }, 'gemini'),
+      secondary: new FakeLLMProvider({ text: ['numeric reply', 'judge reply'] }, 'claude')
+    });
+
+    expect(await router.generateText('tutor', [])).toEqual({
+      text: 'tutor reply',
+      model: { task: 'tutor', provider: 'gemini', model: 'gemini-fast' }
+    });
+    expect((await router.generateText('numeric', [])).model).toEqual({ task: 'numeric', provider: 'claude', model: 'claude-reasoning' });
+    expect((await router.generateText('judge', [])).model).toMatchObject({ provider: 'claude', model: 'claude-fast' });
+  });
+
+  it('takes route overrides and explicit models', async () => {
+    const router = new ModelRouter(
+      { primary: new FakeLLMProvider({}, 'gemini'), secondary: new FakeLLMProvider({}, 'claude') },
+      { routes: { tutor: [{ provider: 'secondary', tier: 'reasoning' }] } }
+    );
+
+    expect((await router.generateText('tutor', [])).model).toMatchObject({ provider: 'claude', model: 'claude-reasoning' });
+    expect((await router.generateText('quiz', [], { model: 'pinned' })).model.model).toBe('pinned');
+  });
+
+  it('fails over to the next route on outages, rate limits and timeouts', async () => {
+    const warn = quiet();
+    const secondary = new FakeLLMProvider({ text: ['from claude', 'from claude', 'from claude'] }, 'claude');
+
+    for (const [error, reason] of [
+      [Object.assign(new Error('Service Unavailable'), { status: 503 }), 'unavailable'],
+      [Object.assign(new Error('Too many requests'), { status: 429 }), 'rate_limit'],
+      [new LLMRouteError('timeout', 'No response'), 'timeout']
+    ] as const) {
+      const router = new ModelRouter({ primary: new FailingProvider(error, [], 'gemini'), secondary });
+      expect(await router.generateText('tutor', [])).toEqual({
+        text: 'from claude',
+        model: {
+          task: 'tutor',
+          provider: 'claude',
+          model: 'claude-fast',
+          fallbackFrom: [{ provider: 'gemini', model: 'gemini-fast', reason }]
+        }
+      });
+    }
+    expect(warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out a provider that does not answer', async () => {
+    quiet();
+    const hanging = new FakeLLMProvider({}, 'gemini');
+    vi.spyOn(hanging, 'generateText').mockImplementation(() => new Promise(() => {}));
+    const router = new ModelRouter({ primary: hanging, secondary: new FakeLLMProvider({ text: ['late but here'] }) }, { timeoutMs: 20 });
+
+    const { text, model } = await router.generateText('tutor', []);
+    expect(text).toBe('late but here');
+    expect(model.fallbackFrom).toEqual([{ provider: 'gemini', model: 'gemini-fast', reason: 'timeout' }]);
+  });
+
+  it('fails over when JSON does not match the schema', async () => {
+    quiet();
+    const router = new ModelRouter({
+      primary: new FakeLLMProvider({ json: [{ safe: 'yes' }] }),
+      secondary: new FakeLLMProvider({ json: [{ safe: true }] })
+    });
+
+    const { data, model } = await router.generateJSON('quiz', [], {
+      type: 'object',
+      properties: { safe: { type: 'boolean' } },
+      required: ['safe']
+    });
+    expect(data).toEqual({ safe: true });
+    expect(model.fallbackFrom?.[0].reason).toBe('malformed_json');
+  });
+
+  it('moderates on the secondary fast model and fails over to the primary', async () => {
+    quiet();
+    const moderate = async (secondaryReplies: unknown[], content: string) => {
+      const router = new ModelRouter({
+        primary: new FakeLLMProvider({ json: [{ safe: false, reason: 'Insults another student' }] }, 'gemini'),
+        secondary: new FakeLLMProvider({ json: secondaryReplies }, 'claude')
+      });
+      const generateJSON = vi.spyOn(router, 'generateJSON');
+      const result = await new AnthropicService(router).moderateContent(content);
+      return { result, model: (await generateJSON.mock.results[0].value).model };
+    };
+
+    expect(await moderate([{ safe: true }], 'What is inertia?')).toEqual({
+      result: { safe: true, reason: undefined },
+      model: { task: 'moderation', provider: 'claude', model: 'claude-fast' }
+    });
+    expect(await moderate([{ verdict: 'fine' }], 'You are stupid')).toEqual({
+      result: { safe: false, reason: 'Insults another student' },
+      model: {
+        task: 'moderation',
+        provider: 'gemini',
+        model: 'gemini-fast',
+        fallbackFrom: [{ provider: 'claude', model: 'claude-fast', reason: 'malformed_json' }]
+      }
+    });
+  });
+
+  it('passes on errors that another provider would not fix, and the last route failing', async () => {
+    const badRequest = Object.assign(new Error('Invalid argument'), { status: 400 });
+    const secondary = new FakeLLMProvider({ text: ['unused'] });
+    const generateText = vi.spyOn(secondary, 'generateText');
+
+    await expect(new ModelRouter({ primary: new FailingProvider(badRequest), secondary }).generateText('tutor', []))
+      .rejects.toBe(badRequest);
+    expect(generateText).not.toHaveBeenCalled();
+
+    quiet();
+    const outage = Object.assign(new Error('Service Unavailable'), { status: 503 });
+    await expect(new ModelRouter({ primary: new FailingProvider(outage), secondary: new FailingProvider(outage) }).generateText('tutor', []))
+      .rejects.toBe(outage);
+  });
+
+  it('fails a stream over only before its first chunk', async () => {
+    quiet();
+    const outage = Object.assign(new Error('overloaded'), { status: 529 });
+    const secondary = new FakeLLMProvider({ text: ['Force is mass times acceleration'] }, 'claude');
+
+    const before = new ModelRouter({ primary: new FailingProvider(outage, [], 'gemini'), secondary }).streamText('tutor', []);
+    expect(await collect(before)).toBe('Force is mass times acceleration');
+    expect(before.model).toMatchObject({ provider: 'claude', fallbackFrom: [{ provider: 'gemini', reason: 'unavailable' }] });
+
+    const after = new ModelRouter({ primary: new FailingProvider(outage, ['Force is '], 'gemini'), secondary }).streamText('tutor', []);
+    await expect(collect(after)).rejects.toBe(outage);
+    expect(after.model).toMatchObject({ provider: 'gemini' });
+  });
+
+  it('does not retry a cancelled request', async () => {
+    const controller = new AbortController();
+    const aborting = new FakeLLMProvider({}, 'gemini');
+    vi.spyOn(aborting, 'generateText').mockImplementation(async (_messages, options?: GenerateOptions) => {
+      controller.abort();
+      options?.signal?.throwIfAborted();
+      return '';
+    });
+    const secondary = new FakeLLMProvider();
+    const generateText = vi.spyOn(secondary, 'generateText');
+
+    await expect(new ModelRouter({ primary: aborting, secondary }).generateText('tutor', [], { signal: controller.signal }))
+      .rejects.toThrow();
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
+
+describe('classifyFailure', () => {
+  it('tells retryable failures from the rest', () => {
+    expect(classifyFailure({ status: 500, message: 'Internal error' })).toBe('unavailable');
+    expect(classifyFailure(new Error('RESOURCE_EXHAUSTED: quota'))).toBe('rate_limit');
+    expect(classifyFailure(new Error('connect ECONNREFUSED 127.0.0.1:443'))).toBe('unavailable');
+    expect(classifyFailure(new SyntaxError('Unexpected token'))).toBe('malformed_json');
+    expect(classifyFailure({ status: 401, message: 'Invalid API key' })).toBeNull();
+  });
+});
+
+describe('isNumericallyHeavy', () => {
+  it('picks out numerical problems in English and Hinglish', () => {
+    expect(isNumericallyHeavy('A car accelerates from 10 m/s to 30 m/s in 5 s. Calculate its acceleration.')).toBe(true);
+    expect(isNumericallyHeavy('2 kg ki body pe 10 N force lag raha hai, acceleration nikalo')).toBe(true);
+    expect(isNumericallyHeavy('Why do we feel pushed back when a bus starts?')).toBe(false);
+    expect(isNumericallyHeavy('What happened in 1905?')).toBe(false);
+  });
+});
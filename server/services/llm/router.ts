@@ -0,0 +1,273 @@
+import type { ChatMessage, GenerateOptions, JSONSchema, LLMProviders, ModelTier } from './types';
+
+export type LLMTask =
+  | 'tutor'       // conversational tutor turn
+  | 'numeric'     // step-by-step numerical problem solving
+  | 'docchat'     // grounded answers over retrieved document chunks
+  | 'quiz'        // quiz generation
+  | 'study_plan'  // study plan generation
+  | 'notes'       // Cornell notes
+  | 'tools'       // quick tools (explain, hint, example, summary)
+  | 'judge'       // checks DocChat answers against their passages
+  | 'rewrite'     // standalone search queries from DocChat follow-ups
+  | 'titles'      // chat session titles and summaries
+  | 'memory'      // rolling summaries of long conversations
+  | 'moderation'; // content safety checks
+
+export interface ModelRoute {
+  provider: keyof LLMProviders;
+  tier: ModelTier;
+}
+
+// First entry is preferred, the rest are tried in order on failure
+export type RouteTable = Record<LLMTask, ModelRoute[]>;
+
+export const DEFAULT_ROUTES: RouteTable = {
+  tutor: [{ provider: 'primary', tier: 'fast' }, { provider: 'secondary', tier: 'fast' }],
+  numeric: [{ provider: 'secondary', tier: 'reasoning' }, { provider: 'primary', tier: 'reasoning' }],
+  docchat: [{ provider: 'primary', tier: 'fast' }, { provider: 'secondary', tier: 'fast' }],
+  quiz: [{ provider: 'primary', tier: 'reasoning' }, { provider: 'secondary', tier: 'reasoning' }],
+  study_plan: [{ provider: 'primary', tier: 'reasoning' }, { provider: 'secondary', tier: 'reasoning' }],
+  notes: [{ provider: 'primary', tier: 'reasoning' }, { provider: 'secondary', tier: 'reasoning' }],
+  tools: [{ provider: 'primary', tier: 'fast' }, { provider: 'secondary', tier: 'fast' }],
+  judge: [{ provider: 'secondary', tier: 'fast' }, { provider: 'primary', tier: 'fast' }],
+  rewrite: [{ provider: 'primary', tier: 'fast' }, { provider: 'secondary', tier: 'fast' }],
+  titles: [{ provider: 'primary', tier: 'fast' }, { provider: 'secondary', tier: 'fast' }],
+  memory: [{ provider: 'primary', tier: 'fast' }, { provider: 'secondary', tier: 'fast' }],
+  moderation: [{ provider: 'secondary', tier: 'fast' }, { provider: 'primary', tier: 'fast' }],
+};
+
+export type FailureKind = 'timeout' | 'rate_limit' | 'unavailable' | 'malformed_json';
+
+export class LLMRouteError extends Error {
+  constructor(public kind: FailureKind, message: string) {
+    super(message);
+    this.name = 'LLMRouteError';
+  }
+}
+
+// Which model produced an answer; stored in messages.metadata.model
+export interface ModelInfo {
+  task: LLMTask;
+  provider: string;
+  model: string;
+  fallbackFrom?: Array<{ provider: string; model: string; reason: FailureKind }>;
+}
+
+export interface RouterOptions {
+  routes?: Partial<RouteTable>;
+  timeoutMs?: number; // per call, and per chunk while streaming
+}
+
+// Returns the failure kind if the error is worth retrying elsewhere
+export function classifyFailure(error: unknown): FailureKind | null {
+  if (error instanceof LLMRouteError) return error.kind;
+  if (error instanceof SyntaxError) return 'malformed_json';
+
+  const err = error as { status?: number; code?: number | string; name?: string; message?: string };
+  const status = typeof err?.status === 'number' ? err.status : typeof err?.code === 'number' ? err.code : undefined;
+  const message = String(err?.message || '');
+
+  if (status === 429 || /rate.?limit|quota|RESOURCE_EXHAUSTED/i.test(message)) return 'rate_limit';
+  if (err?.name === 'AbortError' || /timed? ?out|ETIMEDOUT|DEADLINE_EXCEEDED/i.test(message)) return 'timeout';
+  if ((status !== undefined && status >= 500) || /overloaded|UNAVAILABLE|ECONNRESET|ECONNREFUSED/i.test(message)) return 'unavailable';
+  return null;
+}
+
+// Units, operators and "solve/calculate"-style prompts (English and Hinglish)
+const NUMERIC_PATTERNS: RegExp[] = [
+  /\d+(\.\d+)?\s*(m\/s²?|m\/s\^2|km\/h|kg|g|m|cm|mm|km|s|ms|N|J|W|V|A|Ω|ohm|Pa|K|°C|mol|L|ml|Hz|eV|%)\b/g,
+  /\d\s*[+\-*/×÷^=]\s*\d/g,
+  /\\(frac|sqrt|int|sum)|\$[^$]+\$/g,
+  /\b(calculate|compute|solve|evaluate|find the (value|magnitude|speed|velocity|acceleration|force|energy|work|current|resistance)|how (much|many|long|far|fast)|numerical|nikalo|kitna|kitni|hal karo)\b/gi,
+];
+
+// Decide whether a tutor question should take the numeric reasoning path
+export function isNumericallyHeavy(text: string): boolean {
+  let score = 0;
+  for (const pattern of NUMERIC_PATTERNS) {
+    score += (text.match(pattern) || []).length;
+  }
+  const numbers = (text.match(/\d+(\.\d+)?/g) || []).length;
+  if (numbers >= 3) score += 1;
+  return score >= 2;
+}
+
+export class RoutedStream implements AsyncIterable<string> {
+  model?: ModelInfo;
+
+  constructor(private source: (stream: RoutedStream) => AsyncGenerator<string>) {}
+
+  [Symbol.asyncIterator](): AsyncIterator<string> {
+    return this.source(this);
+  }
+}
+
+export class ModelRouter {
+  private routes: RouteTable;
+  private timeoutMs: number;
+
+  constructor(private providers: LLMProviders, options: RouterOptions = {}) {
+    this.routes = { ...DEFAULT_ROUTES, ...options.routes };
+    this.timeoutMs = options.timeoutMs ?? parseInt(process.env.LLM_TIMEOUT_MS || '60000', 10);
+  }
+
+  // Streams from the first route that produces a chunk. Once text has been
+  // sent to the client there is no failover, the error propagates instead.
+  streamText(task: LLMTask, messages: ChatMessage[], options: GenerateOptions = {}): RoutedStream {
+    // The generator needs a function expression, which has its own `this`
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const router = this;
+
+    return new RoutedStream(async function* (routed) {
+      const failures: NonNullable<ModelInfo['fallbackFrom']> = [];
+      const candidates = router.routes[task];
+
+      for (let i = 0; i < candidates.length; i++) {
+        const route = candidates[i];
+        const provider = router.providers[route.provider];
+        const routeOptions = { ...options, tier: route.tier };
+        const model = provider.modelFor(routeOptions);
+        const iterator = provider.streamText(messages, routeOptions);
+
+        let first: IteratorResult<string>;
+        try {
+          first = await router.withTimeout(iterator.next(), () => iterator.return(undefined));
+        } catch (error) {
+          // A cancelled request is not retried elsewhere
+          const kind = options.signal?.aborted ? null : classifyFailure(error);
+          if (!kind || i === candidates.length - 1) throw error;
+          console.warn(`[llm] ${task}: ${provider.name}/${model} failed (${kind}), falling back`, (error as Error).message);
+          failures.push({ provider: provider.name, model, reason: kind });
+          continue;
+        }
+
+        routed.model = {
+          task,
+          provider: provider.name,
+          model,
+          ...(failures.length > 0 ? { fallbackFrom: failures } : {})
+        };
+
+        let next = first;
+        while (!next.done) {
+          yield next.value;
+          next = await router.withTimeout(iterator.next(), () => iterator.return(undefined));
+        }
+        return;
+      }
+    });
+  }
+
+  async generateText(
+    task: LLMTask,
+    messages: ChatMessage[],
+    options: GenerateOptions = {}
+  ): Promise<{ text: string; model: ModelInfo }> {
+    const { result, model } = await this.run(task, options, (provider, routeOptions) =>
+      provider.generateText(messages, routeOptions)
+    );
+    return { text: result, model };
+  }
+
+  async generateJSON<T = unknown>(
+    task: LLMTask,
+    messages: ChatMessage[],
+    schema: JSONSchema,
+    options: GenerateOptions = {}
+  ): Promise<{ data: T; model: ModelInfo }> {
+    const { result, model } = await this.run(task, options, async (provider, routeOptions) => {
+      const data = await provider.generateJSON<T>(messages, schema, routeOptions);
+      const problem = findSchemaViolation(data, schema, '$');
+      if (problem) {
+        throw new LLMRouteError('malformed_json', `Response does not match schema: ${problem}`);
+      }
+      return data;
+    });
+    return { data: result, model };
+  }
+
+  private async run<R>(
+    task: LLMTask,
+    options: GenerateOptions,
+    call: (provider: LLMProviders[keyof LLMProviders], options: GenerateOptions) => Promise<R>
+  ): Promise<{ result: R; model: ModelInfo }> {
+    const failures: NonNullable<ModelInfo['fallbackFrom']> = [];
+    const candidates = this.routes[task];
+
+    for (let i = 0; i < candidates.length; i++) {
+      const route = candidates[i];
+      const provider = this.providers[route.provider];
+      const routeOptions = { ...options, tier: route.tier };
+      const model = provider.modelFor(routeOptions);
+
+      try {
+        const result = await this.withTimeout(call(provider, routeOptions));
+        return {
+          result,
+          model: {
+            task,
+            provider: provider.name,
+            model,
+            ...(failures.length > 0 ? { fallbackFrom: failures } : {})
+          }
+        };
+      } catch (error) {
+        const kind = options.signal?.aborted ? null : classifyFailure(error);
+        if (!kind || i === candidates.length - 1) throw error;
+        console.warn(`[llm] ${task}: ${provider.name}/${model} failed (${kind}), falling back`, (error as Error).message);
+        failures.push({ provider: provider.name, model, reason: kind });
+      }
+    }
+
+    throw new Error(`No model route configured for task "${task}"`);
+  }
+
+  private withTimeout<R>(promise: Promise<R>, onTimeout?: () => unknown): Promise<R> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        Promise.resolve(onTimeout?.()).catch(() => {});
+        reject(new LLMRouteError('timeout', `No response within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+// Checks required properties and primitive types; returns the first problem found
+function findSchemaViolation(value: unknown, schema: JSONSchema, path: string): string | null {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path} is not an object`;
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) return `${path}.${key} is missing`;
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] === undefined) continue;
+        const problem = findSchemaViolation(record[key], propertySchema, `${path}.${key}`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return `${path} is not an array`;
+      if (!schema.items) return null;
+      for (let i = 0; i < value.length; i++) {
+        const problem = findSchemaViolation(value[i], schema.items, `${path}[${i}]`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    case 'number':
+    case 'integer':
+      return typeof value === 'number' ? null : `${path} is not a number`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} is not a boolean`;
+    case 'string':
+      return typeof value === 'string' ? null : `${path} is not a string`;
+    default:
+      return null;
+  }
+}
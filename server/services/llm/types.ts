@@ -0,0 +1,38 @@
+export interface ChatMessage {
+  role: string; // 'user' | 'assistant' | 'system'
+  content: string;
+}
+
+// Subset of OpenAPI/JSON Schema understood by every provider
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JSONSchema>;
+  items?: JSONSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+// 'fast' is the cheap conversational model, 'reasoning' the slower, stronger one
+export type ModelTier = 'fast' | 'reasoning';
+
+export interface GenerateOptions {
+  system?: string;
+  tier?: ModelTier;
+  model?: string; // explicit model id, overrides tier
+  maxTokens?: number;
+  signal?: AbortSignal; // stops the request, e.g. when the client has gone
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  modelFor(options?: GenerateOptions): string;
+  streamText(messages: ChatMessage[], options?: GenerateOptions): AsyncGenerator<string>;
+  generateText(messages: ChatMessage[], options?: GenerateOptions): Promise<string>;
+  generateJSON<T = unknown>(messages: ChatMessage[], schema: JSONSchema, options?: GenerateOptions): Promise<T>;
+}
+
+export interface LLMProviders {
+  primary: LLMProvider;   // Gemini by default
+  secondary: LLMProvider; // Anthropic by default
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FakeLLMProvider, ModelRouter } from './llm';
+import { QueryRewriter } from './query-rewriter';
+
+const HISTORY = [
+  { role: 'user' as const, content: 'What is kinetic energy?' },
+  { role: 'assistant' as const, content: 'Kinetic energy is the energy of motion, ½mv².' }
+];
+
+function rewriter(json: unknown[], options: ConstructorParameters<typeof QueryRewriter>[1] = {}) {
+  const provider = new FakeLLMProvider({ json });
+  const generateJSON = vi.spyOn(provider, 'generateJSON');
+  return { rewriter: new QueryRewriter(new ModelRouter({ primary: provider, secondary: new FakeLLMProvider() }), options), generateJSON };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('QueryRewriter', () => {
+  it('searches the first question as asked without calling the model', async () => {
+    const { rewriter: plain, generateJSON } = rewriter([], { expansions: 0 });
+
+    expect(await plain.rewrite('What is inertia?', [])).toEqual({ query: 'What is inertia?', queries: ['What is inertia?'] });
+    expect(generateJSON).not.toHaveBeenCalled();
+  });
+
+  it('condenses a follow-up using the conversation', async () => {
+    const { rewriter: condensing, generateJSON } = rewriter([{ query: 'SI unit of kinetic energy', alternatives: ['ignored'] }], { expansions: 0 });
+
+    expect(await condensing.rewrite('and its units?', HISTORY)).toEqual({ query: 'SI unit of kinetic energy', queries: ['SI unit of kinetic energy'] });
+    const prompt = generateJSON.mock.calls[0][0][0].content;
+    expect(prompt).toContain('Student: What is kinetic energy?\nAssistant: Kinetic energy is the energy of motion');
+    expect(prompt).toContain('QUESTION: and its units?');
+    expect(prompt).toContain('Leave "alternatives" empty.');
+  });
+
+  it('adds distinct rephrasings up to the number of expansions', async () => {
+    const { rewriter: expanding } = rewriter([{
+      query: 'unit of kinetic energy',
+      alternatives: ['Unit of kinetic energy', '  joule kinetic energy ', '', 'energy of motion measured in', 'one too many']
+    }], { expansions: 2 });
+
+    expect((await expanding.rewrite('and its units?', HISTORY)).queries)
+      .toEqual(['unit of kinetic energy', 'joule kinetic energy', 'energy of motion measured in']);
+  });
+
+  it('falls back to the previous question and the follow-up when the model fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { rewriter: failing, generateJSON } = rewriter([]);
+    generateJSON.mockRejectedValue(Object.assign(new Error('Invalid API key'), { status: 401 }));
+
+    expect(await failing.rewrite('and its units?', HISTORY)).toEqual({
+      query: 'What is kinetic energy? and its units?',
+      queries: ['What is kinetic energy? and its units?']
+    });
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,87 @@
+// Search queries for DocChat turns. A follow-up such as "and what about its
+// units?" is condensed into a standalone question using the conversation so
+// far, and can be expanded into rephrasings that are searched alongside it.
+
+import type { ChatMessage, ModelRouter } from './llm';
+
+export interface RewrittenQuery {
+  query: string;     // standalone form of the question
+  queries: string[]; // `query` first, then any rephrasings
+}
+
+export interface QueryRewriterOptions {
+  expansions?: number;   // rephrasings to search besides the condensed question
+  historyTurns?: number; // previous messages shown to the model
+}
+
+const MAX_MESSAGE_CHARS = 600;
+
+export class QueryRewriter {
+  private expansions: number;
+  private historyTurns: number;
+
+  constructor(private router: ModelRouter, options: QueryRewriterOptions = {}) {
+    this.expansions = options.expansions ?? parseInt(process.env.RAG_QUERY_EXPANSIONS || '0', 10);
+    this.historyTurns = options.historyTurns ?? 6;
+  }
+
+  // `history` is the conversation before `question`. The first question of a
+  // conversation is searched as asked unless expansions are enabled.
+  async rewrite(question: string, history: ChatMessage[]): Promise<RewrittenQuery> {
+    const turns = history
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .slice(-this.historyTurns);
+
+    if (turns.length === 0 && this.expansions === 0) {
+      return { query: question, queries: [question] };
+    }
+
+    try {
+      const { data } = await this.router.generateJSON<{ query: string; alternatives?: string[] }>(
+        'rewrite',
+        [{ role: 'user', content: this.buildPrompt(question, turns) }],
+        {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'The follow-up rewritten as a standalone search query' },
+            alternatives: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Other phrasings of the same query using different terms'
+            }
+          },
+          required: ['query']
+        },
+        {
+          system: 'You turn the last question of a conversation into search queries for a document index. ' +
+            'Resolve pronouns and references from the conversation, keep the language of the question, and do not answer it.'
+        }
+      );
+
+      const query = data.query.trim() || question;
+      const alternatives = (data.alternatives || [])
+        .map(text => text.trim())
+        .filter(text => text && text.toLowerCase() !== query.toLowerCase())
+        .slice(0, this.expansions);
+      return { query, queries: [query, ...alternatives] };
+    } catch (error) {
+      // Without the model, the previous question still supplies the terms a
+      // follow-up refers back to
+      console.warn('Query rewriting failed, searching the question as asked:', (error as Error).message);
+      const previous = [...turns].reverse().find(message => message.role === 'user');
+      const query = previous ? `${previous.content.slice(0, MAX_MESSAGE_CHARS)} ${question}` : question;
+      return { query, queries: [query] };
+    }
+  }
+
+  private buildPrompt(question: string, turns: ChatMessage[]): string {
+    const conversation = turns
+      .map(message => `${message.role === 'user' ? 'Student' : 'Assistant'}: ${message.content.slice(0, MAX_MESSAGE_CHARS)}`)
+      .join('\n');
+    const wanted = this.expansions > 0
+      ? `Also give up to ${this.expansions} alternative phrasings as "alternatives".`
+      : 'Leave "alternatives" empty.';
+
+    return `${conversation ? `CONVERSATION:\n${conversation}\n\n` : ''}QUESTION: ${question}\n\n${wanted}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { EmbeddingChunk } from './embeddings';
+import { maximalMarginalRelevance, reciprocalRankFusion, type VectorSearchResult } from './rag';
+
+function result(id: string, score: number, embedding: number[], text = id, embeddingModel = 'test'): VectorSearchResult {
+  const chunk: EmbeddingChunk = { id, text, embedding, embeddingModel, dimension: embedding.length, metadata: { source: 'doc' } };
+  return { chunk, score };
+}
+
+const ids = (results: VectorSearchResult[]) => results.map(({ chunk }) => chunk.id);
+
+describe('reciprocalRankFusion', () => {
+  it('ranks chunks that several queries agree on first', () => {
+    const fused = reciprocalRankFusion([
+      [result('a', 0.9, [1]), result('b', 0.8, [1]), result('c', 0.7, [1])],
+      [result('c', 0.9, [1]), result('b', 0.5, [1])]
+    ]);
+
+    expect(ids(fused)).toEqual(['c', 'b', 'a']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 63);
+  });
+});
+
+describe('maximalMarginalRelevance', () => {
+  // a and a-copy are near duplicates; b is less relevant but different
+  const pool = [
+    result('a', 1, [1, 0]),
+    result('a-copy', 0.95, [0.99, 0.14]),
+    result('b', 0.7, [0, 1])
+  ];
+
+  it('picks a diverse passage over a near duplicate', () => {
+    expect(ids(maximalMarginalRelevance(pool, 2, 0.5))).toEqual(['a', 'b']);
+  });
+
+  it('ranks by relevance alone with lambda 1 and keeps scores', () => {
+    const picked = maximalMarginalRelevance(pool, 2, 1);
+    expect(ids(picked)).toEqual(['a', 'a-copy']);
+    expect(maximalMarginalRelevance(pool, 3, 0.5).map(({ score }) => score).sort()).toEqual([0.7, 0.95, 1]);
+  });
+
+  it('compares chunks of different embedding models by shared terms', () => {
+    const mixed = [
+      result('friction', 1, [1, 0], 'friction opposes motion between surfaces'),
+      result('friction-again', 0.9, [1, 0, 0], 'friction opposes motion between rough surfaces', 'other-model'),
+      result('inertia', 0.6, [0, 1, 0], 'inertia resists changes in velocity', 'other-model')
+    ];
+    expect(ids(maximalMarginalRelevance(mixed, 2, 0.5))).toEqual(['friction', 'inertia']);
+  });
+});
@@ -1,44 +1,104 @@
-import { EmbeddingsService, EmbeddingChunk } from './embeddings';
+import { formatCitationLocation, type CitationLocation } from '@shared/citations';
+import { EmbeddingsService, EmbeddingChunk, cosineSimilarity } from './embeddings';
+import { BM25Index } from './bm25';
+import { HeuristicReranker, LatencyStats, loadReranker, type Reranker } from './rerankers';
+import { tokenize } from './tokenizer';
+import { estimateTokens } from './tokens';
+import type { ExtractedDocument } from './extractors';
+import type { VectorSearchResult, VectorStore } from './vector-store';
 
-// Simplified in-memory vector store (in production, this would be Qdrant)
-export interface VectorSearchResult {
-  chunk: EmbeddingChunk;
-  score: number;
+export type { VectorSearchResult } from './vector-store';
+
+// A chunk placed in the LLM context under the label [marker]
+export interface ContextCitation extends CitationLocation {
+  marker: number;
+  id: string;
+  source: string; // document id
+  text: string;
+  endTime?: number;
+}
+
+export type IngestStage = 'chunk' | 'embed' | 'index';
+
+export interface IngestOptions {
+  onProgress?: (stage: IngestStage, fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface SearchOptions {
+  mmrLambda?: number; // relevance vs. diversity when picking the top k; 1 ranks by relevance only
+  poolSize?: number;  // candidates per query handed to the reranker
+  keywordWeight?: number; // share of BM25 in the hybrid score, the rest is vector similarity
 }
 
+// Rank offset in reciprocal-rank fusion; 60 is the usual choice and keeps
+// one list's top hit from outweighing agreement across lists
+const RRF_K = 60;
+
 export class RAGService {
+  private readonly mmrLambda = parseFloat(process.env.RAG_MMR_LAMBDA || '0.5');
+  private readonly keywordWeight = parseFloat(process.env.RAG_KEYWORD_WEIGHT || '0.3');
+  private readonly rerankPool = process.env.RERANK_POOL_SIZE ? parseInt(process.env.RERANK_POOL_SIZE, 10) : undefined;
   private embeddingsService: EmbeddingsService;
-  private vectorStore: Map<string, EmbeddingChunk> = new Map();
-  private documentIndex: Map<string, string[]> = new Map(); // documentId -> chunkIds
+  private reranker: Promise<Reranker>;
+  private fallbackReranker = new HeuristicReranker();
+  private rerankLatency = new LatencyStats();
+  private warnedStale: Set<string> = new Set();
+  private keywordIndexReady?: Promise<BM25Index>;
 
-  constructor() {
+  constructor(private vectorStore: VectorStore, reranker?: Reranker) {
     this.embeddingsService = new EmbeddingsService();
+    this.reranker = reranker ? Promise.resolve(reranker) : loadReranker();
+  }
+
+  // The BM25 index lives in memory; it is rebuilt from the vector store on
+  // first use and kept current by ingestDocument/removeDocument afterwards
+  private keywordIndex(): Promise<BM25Index> {
+    this.keywordIndexReady ??= (async () => {
+      const index = new BM25Index();
+      const byDocument = new Map<string, EmbeddingChunk[]>();
+      for (const chunk of await this.vectorStore.getChunks()) {
+        const chunks = byDocument.get(chunk.metadata.source) || [];
+        chunks.push(chunk);
+        byDocument.set(chunk.metadata.source, chunks);
+      }
+      for (const [documentId, chunks] of Array.from(byDocument.entries())) {
+        index.addDocument(documentId, chunks);
+      }
+      return index;
+    })();
+    return this.keywordIndexReady;
   }
 
-  // Ingest document into vector store
+  // Ingest document into vector store, reporting each stage's progress as a
+  // fraction between 0 and 1
   async ingestDocument(
     documentId: string,
-    text: string,
-    metadata: { title: string; type: string; source: string }
+    document: ExtractedDocument,
+    metadata: { title: string; type: string; source: string },
+    options: IngestOptions = {}
   ): Promise<void> {
+    const { onProgress, signal } = options;
     try {
-      // Process document into chunks with embeddings
-      const chunks = await this.embeddingsService.processDocument(text, {
-        source: documentId,
-        title: metadata.title,
-        type: metadata.type
-      });
-
-      const chunkIds: string[] = [];
+      onProgress?.('chunk', 0);
+      const pieces = this.embeddingsService.chunkDocument(document, documentId);
+      onProgress?.('chunk', 1);
 
-      // Store chunks in vector store
-      for (const chunk of chunks) {
-        this.vectorStore.set(chunk.id, chunk);
-        chunkIds.push(chunk.id);
-      }
+      signal?.throwIfAborted();
+      onProgress?.('embed', 0);
+      const chunks = await this.embeddingsService.embedChunks(documentId, pieces, {
+        signal,
+        onProgress: (embedded, total) => onProgress?.('embed', total === 0 ? 1 : embedded / total)
+      });
 
-      // Update document index
-      this.documentIndex.set(documentId, chunkIds);
+      // Past this point the previous index is replaced, so a cancellation
+      // requested now lets the write finish
+      signal?.throwIfAborted();
+      onProgress?.('index', 0);
+      await this.vectorStore.replaceDocument(documentId, chunks);
+      (await this.keywordIndex()).addDocument(documentId, chunks);
+      this.warnedStale.delete(documentId);
+      onProgress?.('index', 1);
       
       console.log(`Ingested ${chunks.length} chunks for document ${documentId}`);
     } catch (error) {
@@ -47,144 +107,180 @@ export class RAGService {
     }
   }
 
-  // Hybrid search: BM25 + Vector similarity
+  // Hybrid search: BM25 + Vector similarity. `documentIds` restricts the
+  // search; an empty list matches nothing, omitting it searches everything.
+  // Several queries (a condensed question and its rephrasings) are ranked
+  // separately and merged by reciprocal-rank fusion; the top k are then
+  // picked by maximal marginal relevance so overlapping chunks do not crowd
+  // out other passages.
   async hybridSearch(
-    query: string, 
-    documentIds?: string[], 
-    k: number = 8
+    query: string | string[],
+    documentIds?: string[],
+    k: number = 8,
+    options: SearchOptions = {}
   ): Promise<VectorSearchResult[]> {
     try {
-      // Generate query embedding
-      const queryEmbedding = await this.embeddingsService.generateQueryEmbedding(query);
-      
-      // Get candidate chunks
-      const candidateChunks = this.getCandidateChunks(documentIds);
-      
-      if (candidateChunks.length === 0) {
+      if (documentIds && documentIds.length === 0) {
         return [];
       }
 
-      // Calculate BM25 scores
-      const bm25Scores = this.calculateBM25Scores(query, candidateChunks);
-      
-      // Calculate vector similarity scores
-      const vectorScores = candidateChunks.map(chunk => ({
-        chunk,
-        score: this.embeddingsService.cosineSimilarity(queryEmbedding, chunk.embedding)
-      }));
+      const queries = (Array.isArray(query) ? query : [query]).filter(text => text.trim());
+      if (queries.length === 0) {
+        return [];
+      }
 
-      // Combine scores (weighted hybrid approach)
-      const hybridResults = candidateChunks.map((chunk, index) => ({
-        chunk,
-        score: 0.3 * bm25Scores[index] + 0.7 * vectorScores[index].score
-      }));
+      // Without a configured size the reranker sees three candidates per result
+      const poolSize = Math.max(options.poolSize ?? this.rerankPool ?? Math.min(k * 3, 24), k);
+      const rankings: VectorSearchResult[][] = [];
+      for (const text of queries) {
+        rankings.push(await this.rankCandidates(text, documentIds, poolSize, options.keywordWeight ?? this.keywordWeight));
+      }
 
-      // Sort by combined score and return top-k
-      const sortedResults = hybridResults
-        .sort((a, b) => b.score - a.score)
-        .slice(0, Math.min(k * 3, 24)); // Get more candidates for reranking
+      const pool = rankings.length === 1 ? rankings[0] : reciprocalRankFusion(rankings).slice(0, poolSize);
+      return maximalMarginalRelevance(pool, k, options.mmrLambda ?? this.mmrLambda);
 
-      // Apply reranking (simplified - in production would use bge-reranker-v2-m3)
-      return this.rerankResults(query, sortedResults).slice(0, k);
-      
     } catch (error) {
       console.error('Hybrid search failed:', error);
       return [];
     }
   }
 
-  // Get candidate chunks for search
-  private getCandidateChunks(documentIds?: string[]): EmbeddingChunk[] {
-    if (!documentIds || documentIds.length === 0) {
-      return Array.from(this.vectorStore.values());
-    }
+  // The best `limit` chunks for one query, by weighted BM25 and vector score
+  private async rankCandidates(
+    query: string,
+    documentIds: string[] | undefined,
+    limit: number,
+    keywordWeight: number
+  ): Promise<VectorSearchResult[]> {
+    // Generate query embedding
+    const queryEmbedding = await this.embeddingsService.generateQueryEmbedding(query);
+    const { model, dimension } = await this.embeddingsService.describe();
+    const candidatePool = Math.max(limit * 4, 50);
+
+    // Keyword candidates from the inverted index, scores normalized to [0, 1]
+    const keywordHits = (await this.keywordIndex()).search(query, { documentIds, limit: candidatePool });
 
-    const chunks: EmbeddingChunk[] = [];
-    for (const docId of documentIds) {
-      const chunkIds = this.documentIndex.get(docId) || [];
-      for (const chunkId of chunkIds) {
-        const chunk = this.vectorStore.get(chunkId);
-        if (chunk) chunks.push(chunk);
+    // Nearest neighbours from the vector store. Chunks embedded by a
+    // different model or dimension are not comparable and get BM25 only.
+    const similar = await this.vectorStore.searchSimilar(queryEmbedding, {
+      documentIds,
+      embeddingModel: model,
+      dimension,
+      limit: candidatePool
+    });
+
+    const candidates = new Map<string, { chunk?: EmbeddingChunk; keyword: number; vector: number }>();
+    for (const result of similar) {
+      candidates.set(result.chunk.id, { chunk: result.chunk, keyword: 0, vector: Math.max(0, result.score) });
+    }
+    for (const hit of keywordHits) {
+      const candidate = candidates.get(hit.chunkId);
+      if (candidate) {
+        candidate.keyword = hit.score;
+      } else {
+        candidates.set(hit.chunkId, { keyword: hit.score, vector: 0 });
       }
     }
-    return chunks;
+
+    const keywordOnlyIds = Array.from(candidates.entries())
+      .filter(([, candidate]) => !candidate.chunk)
+      .map(([chunkId]) => chunkId);
+    for (const chunk of await this.vectorStore.getChunksByIds(keywordOnlyIds)) {
+      this.warnIfStale(chunk, model, dimension);
+      candidates.get(chunk.id)!.chunk = chunk;
+    }
+
+    // Combine scores (weighted hybrid approach)
+    const hybridResults = Array.from(candidates.values())
+      .filter(candidate => candidate.chunk)
+      .map(candidate => ({
+        chunk: candidate.chunk!,
+        score: keywordWeight * candidate.keyword + (1 - keywordWeight) * candidate.vector
+      }));
+
+    // Sort by combined score and keep the pool for reranking
+    const sortedResults = hybridResults
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return this.rerank(query, sortedResults);
   }
 
-  // Simplified BM25 scoring
-  private calculateBM25Scores(query: string, chunks: EmbeddingChunk[]): number[] {
-    const queryTerms = query.toLowerCase().split(/\s+/);
-    const k1 = 1.5;
-    const b = 0.75;
-    
-    // Calculate average document length
-    const avgDocLen = chunks.reduce((sum, chunk) => 
-      sum + chunk.text.split(/\s+/).length, 0) / chunks.length;
+  private warnIfStale(chunk: EmbeddingChunk, model: string, dimension: number) {
+    if (chunk.embeddingModel === model && chunk.dimension === dimension) return;
 
-    return chunks.map(chunk => {
-      const docTerms = chunk.text.toLowerCase().split(/\s+/);
-      const docLength = docTerms.length;
-      
-      let score = 0;
-      
-      for (const term of queryTerms) {
-        // Term frequency in document
-        const tf = docTerms.filter(t => t.includes(term)).length;
-        if (tf === 0) continue;
-        
-        // Inverse document frequency (simplified)
-        const df = chunks.filter(c => 
-          c.text.toLowerCase().includes(term)
-        ).length;
-        const idf = Math.log((chunks.length - df + 0.5) / (df + 0.5));
-        
-        // BM25 formula
-        const bm25Term = idf * (tf * (k1 + 1)) / 
-          (tf + k1 * (1 - b + b * (docLength / avgDocLen)));
-        
-        score += bm25Term;
-      }
-      
-      return Math.max(0, score);
-    });
+    if (!this.warnedStale.has(chunk.metadata.source)) {
+      this.warnedStale.add(chunk.metadata.source);
+      console.warn(
+        `Document ${chunk.metadata.source} was indexed with ${chunk.embeddingModel} (${chunk.dimension}d) ` +
+        `but queries use ${model} (${dimension}d); re-ingest it to restore vector search`
+      );
+    }
   }
 
-  // Simplified reranking (in production would use bge-reranker-v2-m3)
-  private rerankResults(query: string, results: VectorSearchResult[]): VectorSearchResult[] {
-    const queryWords = new Set(query.toLowerCase().split(/\s+/));
-    
-    return results.map(result => {
-      const textWords = new Set(result.chunk.text.toLowerCase().split(/\s+/));
-      const overlap = Array.from(queryWords).filter(word => textWords.has(word)).length;
-      const rerankBoost = overlap / Math.max(queryWords.size, 1);
-      
-      return {
-        ...result,
-        score: result.score * (1 + rerankBoost * 0.2) // Small boost for term overlap
-      };
-    }).sort((a, b) => b.score - a.score);
+  // Reranks with the configured reranker, falling back to term overlap for
+  // this call if it fails, and records how long reranking took
+  private async rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]> {
+    const reranker = await this.reranker;
+    const started = performance.now();
+    try {
+      return await reranker.rerank(query, results);
+    } catch (error) {
+      if (reranker === this.fallbackReranker) throw error;
+      console.warn(`Reranker ${reranker.name} failed, using term overlap:`, (error as Error).message);
+      return this.fallbackReranker.rerank(query, results);
+    } finally {
+      this.rerankLatency.record(performance.now() - started);
+    }
+  }
+
+  // Which reranker is active, the pool it sees and its recent latency
+  async retrievalMetrics(): Promise<{
+    reranker: string;
+    poolSize: number | 'auto';
+    rerankLatency: ReturnType<LatencyStats['summary']>;
+  }> {
+    return {
+      reranker: (await this.reranker).name,
+      poolSize: this.rerankPool ?? 'auto',
+      rerankLatency: this.rerankLatency.summary()
+    };
   }
 
-  // Generate answer with citations from retrieved chunks
+  // Numbered context passages for the LLM, labelled "[1] Title, p.4 §Heading"
+  // so answers can cite them by number. `titles` maps document ids to the
+  // names shown in the labels.
   generateContextForLLM(
     results: VectorSearchResult[],
-    maxTokens: number = 2000
-  ): { context: string; citations: Array<{ id: string; source: string; page?: number }> } {
+    maxTokens: number = 2000,
+    titles: Record<string, string> = {}
+  ): { context: string; citations: ContextCitation[] } {
     let context = '';
-    const citations: Array<{ id: string; source: string; page?: number }> = [];
+    const citations: ContextCitation[] = [];
     let tokenCount = 0;
     
     for (const result of results) {
       const chunk = result.chunk;
-      const chunkTokens = Math.ceil(chunk.text.length / 4); // Rough token estimate
+      const chunkTokens = estimateTokens(chunk.text);
       
       if (tokenCount + chunkTokens > maxTokens) break;
       
-      context += `[Doc ${chunk.metadata.source}${chunk.metadata.page ? `, p.${chunk.metadata.page}` : ''}${chunk.metadata.section ? ` §${chunk.metadata.section}` : ''}]\n${chunk.text}\n\n`;
+      const marker = citations.length + 1;
+      const title = titles[chunk.metadata.source] || `Doc ${chunk.metadata.source}`;
+      const location = formatCitationLocation(chunk.metadata);
+      context += `[${marker}] ${title}${location ? `, ${location}` : ''}\n${chunk.text}\n\n`;
       
       citations.push({
+        marker,
         id: chunk.id,
         source: chunk.metadata.source,
-        page: chunk.metadata.page
+        text: chunk.text,
+        page: chunk.metadata.page,
+        slide: chunk.metadata.slide,
+        chapter: chunk.metadata.chapter,
+        section: chunk.metadata.section,
+        startTime: chunk.metadata.startTime,
+        endTime: chunk.metadata.endTime
       });
       
       tokenCount += chunkTokens;
@@ -194,34 +290,115 @@ export class RAGService {
   }
 
   // Get document status
-  getDocumentStatus(documentId: string): { 
+  async getDocumentStatus(documentId: string): Promise<{ 
     exists: boolean; 
     chunkCount: number; 
-    status: 'processing' | 'ready' | 'error' 
-  } {
-    const chunkIds = this.documentIndex.get(documentId);
+    status: 'processing' | 'ready' | 'error';
+    needsReindex: boolean;
+  }> {
+    const stats = await this.vectorStore.getDocumentStats(documentId);
     
-    if (!chunkIds) {
-      return { exists: false, chunkCount: 0, status: 'error' };
+    if (stats.chunkCount === 0) {
+      return { exists: false, chunkCount: 0, status: 'error', needsReindex: false };
     }
+
+    const { model, dimension } = await this.embeddingsService.describe();
+    const needsReindex = stats.embeddings.some(entry => entry.model !== model || entry.dimension !== dimension);
     
     return { 
       exists: true, 
-      chunkCount: chunkIds.length, 
-      status: 'ready' 
+      chunkCount: stats.chunkCount, 
+      status: 'ready',
+      needsReindex
     };
   }
 
+  // Embeds arbitrary text with the model used for chunks, e.g. to compare
+  // answer sentences against retrieved passages
+  embedTexts(texts: string[]): Promise<number[][]> {
+    return this.embeddingsService.generateEmbeddings(texts);
+  }
+
+  // One indexed chunk of a document, e.g. to highlight a cited passage
+  async getChunk(documentId: string, chunkId: string): Promise<EmbeddingChunk | undefined> {
+    const [chunk] = await this.vectorStore.getChunksByIds([chunkId]);
+    return chunk?.metadata.source === documentId ? chunk : undefined;
+  }
+
+  // Ids of every document that has chunks in the vector store
+  async listIndexedDocuments(): Promise<Set<string>> {
+    return new Set(await this.vectorStore.listDocumentIds());
+  }
+
   // Remove document from vector store
-  removeDocument(documentId: string): boolean {
-    const chunkIds = this.documentIndex.get(documentId);
-    if (!chunkIds) return false;
-    
-    for (const chunkId of chunkIds) {
-      this.vectorStore.delete(chunkId);
+  async removeDocument(documentId: string): Promise<boolean> {
+    (await this.keywordIndex()).removeDocument(documentId);
+    this.warnedStale.delete(documentId);
+    return this.vectorStore.removeDocument(documentId);
+  }
+}
+
+// Merges rankings of the same pool by summing 1 / (RRF_K + rank) per chunk,
+// so chunks that several queries agree on rise to the top
+export function reciprocalRankFusion(rankings: VectorSearchResult[][]): VectorSearchResult[] {
+  const fused = new Map<string, VectorSearchResult>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, rank) => {
+      const score = 1 / (RRF_K + rank + 1);
+      const existing = fused.get(result.chunk.id);
+      fused.set(result.chunk.id, { chunk: result.chunk, score: (existing?.score || 0) + score });
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+// Greedily picks k results, each maximizing
+// lambda * relevance - (1 - lambda) * (similarity to the closest one already picked).
+// Relevance is the result score scaled to [0, 1]; results keep their scores.
+export function maximalMarginalRelevance(results: VectorSearchResult[], k: number, lambda: number): VectorSearchResult[] {
+  if (lambda >= 1 || results.length <= 1) {
+    return results.slice(0, k);
+  }
+
+  const maxScore = Math.max(...results.map(result => result.score), Number.EPSILON);
+  const terms = new Map<string, Set<string>>();
+  const termsOf = (chunk: EmbeddingChunk) => {
+    if (!terms.has(chunk.id)) terms.set(chunk.id, new Set(tokenize(chunk.text)));
+    return terms.get(chunk.id)!;
+  };
+
+  // Embeddings from different models are not comparable; term overlap is
+  const similarity = (a: EmbeddingChunk, b: EmbeddingChunk): number => {
+    if (a.embeddingModel === b.embeddingModel && a.dimension === b.dimension && a.embedding.length > 0) {
+      return cosineSimilarity(a.embedding, b.embedding);
     }
-    
-    this.documentIndex.delete(documentId);
-    return true;
+    const termsA = termsOf(a);
+    const termsB = termsOf(b);
+    const shared = Array.from(termsA).filter(term => termsB.has(term)).length;
+    return shared / Math.max(termsA.size + termsB.size - shared, 1);
+  };
+
+  const remaining = [...results];
+  const selected: VectorSearchResult[] = [];
+  while (selected.length < k && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const redundancy = selected.length === 0
+        ? 0
+        : Math.max(...selected.map(picked => similarity(candidate.chunk, picked.chunk)));
+      const value = lambda * (candidate.score / maxScore) - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
   }
+
+  return selected;
 }
@@ -0,0 +1,133 @@
+// Reply Streams
+// Tracks the assistant replies being generated, at most one per chat
+// session, so a reply can be cancelled and a client that lost its
+// connection can pick it up again. Every event of a reply is numbered and
+// kept until shortly after the reply ends; a reconnecting client passes the
+// last number it saw and gets the rest. A reply nobody is listening to is
+// aborted after a grace period, so closing the tab stops generation.
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+export type ReplyEventType = 'content' | 'block' | 'citations' | 'done' | 'error' | 'interrupted';
+
+export interface ReplyEvent {
+  seq: number;
+  type: ReplyEventType;
+  data?: unknown;
+  message?: string; // for 'error'
+}
+
+export interface ActiveReply {
+  id: string;
+  chatSessionId: string;
+  controller: AbortController;
+  events: ReplyEvent[];
+  listeners: number;
+  finished: boolean;
+  graceTimer?: NodeJS.Timeout;
+}
+
+export interface ReplyStreamsOptions {
+  graceMs?: number;  // how long a reply keeps going without a listener
+  retainMs?: number; // how long a finished reply can still be resumed
+}
+
+export const TERMINAL_EVENTS: ReplyEventType[] = ['done', 'error', 'interrupted'];
+
+export class ReplyStreams extends EventEmitter {
+  private readonly graceMs: number;
+  private readonly retainMs: number;
+  private replies: Map<string, ActiveReply> = new Map(); // by chat session id
+
+  constructor(options: ReplyStreamsOptions = {}) {
+    super();
+    this.graceMs = options.graceMs ?? parseInt(process.env.REPLY_RESUME_GRACE_MS || '15000', 10);
+    this.retainMs = options.retainMs ?? parseInt(process.env.REPLY_RETAIN_MS || '60000', 10);
+  }
+
+  // Whether the session has a reply still being generated
+  isRunning(chatSessionId: string): boolean {
+    const reply = this.replies.get(chatSessionId);
+    return !!reply && !reply.finished;
+  }
+
+  // Registers a new reply for the session, replacing a finished one
+  start(chatSessionId: string): ActiveReply {
+    if (this.isRunning(chatSessionId)) {
+      throw new Error(`A reply is already being generated for chat session ${chatSessionId}`);
+    }
+    const reply: ActiveReply = {
+      id: randomUUID(),
+      chatSessionId,
+      controller: new AbortController(),
+      events: [],
+      listeners: 0,
+      finished: false
+    };
+    this.replies.set(chatSessionId, reply);
+    return reply;
+  }
+
+  // Gives up a reply that was started but never published anything, e.g.
+  // when the question could not be saved
+  release(reply: ActiveReply): void {
+    if (reply.events.length > 0 || this.replies.get(reply.chatSessionId) !== reply) return;
+    reply.finished = true;
+    this.replies.delete(reply.chatSessionId);
+  }
+
+  get(chatSessionId: string, replyId: string): ActiveReply | undefined {
+    const reply = this.replies.get(chatSessionId);
+    return reply && reply.id === replyId ? reply : undefined;
+  }
+
+  publish(reply: ActiveReply, type: ReplyEventType, payload: { data?: unknown; message?: string } = {}): void {
+    if (reply.finished) return;
+
+    const event: ReplyEvent = { seq: reply.events.length + 1, type, ...payload };
+    reply.events.push(event);
+    if (TERMINAL_EVENTS.includes(type)) {
+      reply.finished = true;
+      clearTimeout(reply.graceTimer);
+      setTimeout(() => {
+        if (this.replies.get(reply.chatSessionId) === reply) this.replies.delete(reply.chatSessionId);
+      }, this.retainMs).unref();
+    }
+    this.emit(`event:${reply.id}`, event);
+  }
+
+  // Calls `listener` with every event after `afterSeq`, replayed ones first;
+  // returns the detach function. Detaching the last listener of a running
+  // reply starts the grace period.
+  attach(reply: ActiveReply, afterSeq: number, listener: (event: ReplyEvent) => void): () => void {
+    for (const event of reply.events) {
+      if (event.seq > afterSeq) listener(event);
+    }
+    if (reply.finished) return () => {};
+
+    const name = `event:${reply.id}`;
+    this.on(name, listener);
+    reply.listeners++;
+    clearTimeout(reply.graceTimer);
+
+    let attached = true;
+    return () => {
+      if (!attached) return;
+      attached = false;
+      this.off(name, listener);
+      reply.listeners--;
+      if (reply.listeners === 0 && !reply.finished) {
+        reply.graceTimer = setTimeout(() => reply.controller.abort(), this.graceMs);
+      }
+    };
+  }
+
+  // Stops the session's running reply; what was generated so far is kept
+  cancel(chatSessionId: string): boolean {
+    const reply = this.replies.get(chatSessionId);
+    if (!reply || reply.finished) return false;
+    reply.controller.abort();
+    return true;
+  }
+}
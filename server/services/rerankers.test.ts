@@ -0,0 +1,99 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { EmbeddingChunk } from './embeddings';
+import { CrossEncoderReranker, HeuristicReranker, LatencyStats, loadReranker } from './rerankers';
+import type { VectorSearchResult } from './vector-store';
+
+// Stands in for transformers.js: the logit of a pair is the number of query
+// words found in the passage, minus 2
+const RUNTIME = `
+export const env = {};
+export const AutoTokenizer = {
+  from_pretrained: async () => (queries, { text_pair }) => queries.map((query, i) => [query, text_pair[i]])
+};
+export const AutoModelForSequenceClassification = {
+  from_pretrained: async () => async pairs => {
+    globalThis.crossEncoderBatches = (globalThis.crossEncoderBatches || 0) + 1;
+    const logits = pairs.map(([query, passage]) => [query.split(' ').filter(word => passage.toLowerCase().includes(word)).length - 2]);
+    return { logits: { tolist: () => logits } };
+  }
+};
+`;
+
+let runtimeDir: string;
+
+beforeAll(() => {
+  runtimeDir = mkdtempSync(path.join(os.tmpdir(), 'reranker-runtime-'));
+  writeFileSync(path.join(runtimeDir, 'runtime.mjs'), RUNTIME);
+});
+
+afterAll(() => {
+  rmSync(runtimeDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+function result(id: string, text: string, score: number): VectorSearchResult {
+  const chunk: EmbeddingChunk = { id, text, embedding: [], embeddingModel: 'test', dimension: 0, metadata: { source: 'doc' } };
+  return { chunk, score };
+}
+
+const POOL = [
+  result('unrelated', 'Photosynthesis happens in the leaves.', 0.9),
+  result('partial', 'Kinetic friction is a force.', 0.8),
+  result('answer', 'Static friction is larger than kinetic friction.', 0.7)
+];
+
+describe('HeuristicReranker', () => {
+  it('lifts chunks sharing words with the query by up to a fifth', async () => {
+    const reranked = await new HeuristicReranker().rerank('static friction larger', POOL);
+
+    expect(reranked.map(({ chunk, score }) => [chunk.id, Math.round(score * 1000) / 1000])).toEqual([
+      ['unrelated', 0.9],
+      ['partial', 0.853],
+      ['answer', 0.84]
+    ]);
+  });
+});
+
+describe('CrossEncoderReranker', () => {
+  it('scores each pair with the model in batches and reorders by it', async () => {
+    vi.stubEnv('EMBEDDING_RUNTIME', path.join(runtimeDir, 'runtime.mjs'));
+    const reranker = await CrossEncoderReranker.load('/models/ms-marco-MiniLM/', 2);
+    (globalThis as { crossEncoderBatches?: number }).crossEncoderBatches = 0;
+
+    const reranked = await reranker.rerank('static friction larger', POOL);
+
+    expect(reranker.name).toBe('cross-encoder:ms-marco-MiniLM');
+    expect((globalThis as { crossEncoderBatches?: number }).crossEncoderBatches).toBe(2);
+    expect(reranked.map(({ chunk }) => chunk.id)).toEqual(['answer', 'partial', 'unrelated']);
+    expect(reranked[0].score).toBeCloseTo(1 / (1 + Math.exp(-1)));
+  });
+
+  it('is loaded when configured and replaced by the heuristic when it cannot load', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('RERANKER_MODEL_PATH', '/models/bge-reranker');
+    vi.stubEnv('EMBEDDING_RUNTIME', path.join(runtimeDir, 'runtime.mjs'));
+    expect((await loadReranker()).name).toBe('cross-encoder:bge-reranker');
+
+    vi.stubEnv('EMBEDDING_RUNTIME', 'not-an-installed-runtime');
+    expect(await loadReranker()).toBeInstanceOf(HeuristicReranker);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
+
+describe('LatencyStats', () => {
+  it('summarizes the most recent calls', () => {
+    const stats = new LatencyStats(4);
+    expect(stats.summary()).toEqual({ calls: 0, meanMs: 0, p50Ms: 0, p95Ms: 0, maxMs: 0 });
+
+    for (const ms of [100, 1, 2, 3, 4.04]) stats.record(ms);
+    expect(stats.summary()).toEqual({ calls: 5, meanMs: 2.5, p50Ms: 3, p95Ms: 4, maxMs: 4 });
+  });
+});
@@ -0,0 +1,129 @@
+// Rerankers reorder the hybrid search pool for one query. Both run on CPU
+// without network access: a cross-encoder (e.g. bge-reranker, ms-marco
+// MiniLM) exported to ONNX when one is configured, and a term-overlap
+// heuristic that needs nothing at all.
+
+import type { VectorSearchResult } from './vector-store';
+
+export interface Reranker {
+  readonly name: string;
+  // Returns the same results with new scores, best first
+  rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]>;
+}
+
+// Boosts the hybrid score by the share of query words found in the chunk
+export class HeuristicReranker implements Reranker {
+  readonly name = 'heuristic';
+
+  async rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]> {
+    const queryWords = new Set(query.toLowerCase().split(/\s+/));
+
+    return results.map(result => {
+      const textWords = new Set(result.chunk.text.toLowerCase().split(/\s+/));
+      const overlap = Array.from(queryWords).filter(word => textWords.has(word)).length;
+      const rerankBoost = overlap / Math.max(queryWords.size, 1);
+
+      return {
+        ...result,
+        score: result.score * (1 + rerankBoost * 0.2) // Small boost for term overlap
+      };
+    }).sort((a, b) => b.score - a.score);
+  }
+}
+
+// Scores each (query, chunk) pair jointly with a sequence-classification
+// model loaded from disk through transformers.js. The package is optional and
+// only imported when RERANKER_MODEL_PATH is set.
+export class CrossEncoderReranker implements Reranker {
+  private constructor(
+    readonly name: string,
+    private tokenizer: (texts: string[], options: object) => unknown,
+    private model: (inputs: unknown) => Promise<{ logits: { tolist(): number[][] } }>,
+    private batchSize: number
+  ) {}
+
+  static async load(modelPath: string, batchSize: number = 16): Promise<CrossEncoderReranker> {
+    // Variable specifier keeps bundlers and tsc from requiring the package
+    const packageName = process.env.EMBEDDING_RUNTIME || '@huggingface/transformers';
+    const transformers = await import(packageName);
+    transformers.env.allowRemoteModels = false;
+    transformers.env.allowLocalModels = true;
+
+    const options = { local_files_only: true };
+    const tokenizer = await transformers.AutoTokenizer.from_pretrained(modelPath, options);
+    const model = await transformers.AutoModelForSequenceClassification.from_pretrained(modelPath, options);
+
+    return new CrossEncoderReranker(
+      `cross-encoder:${modelPath.split(/[\\/]/).filter(Boolean).pop()}`,
+      tokenizer,
+      model,
+      batchSize
+    );
+  }
+
+  async rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]> {
+    const scores: number[] = [];
+
+    for (let i = 0; i < results.length; i += this.batchSize) {
+      const batch = results.slice(i, i + this.batchSize);
+      const inputs = this.tokenizer(batch.map(() => query), {
+        text_pair: batch.map(result => result.chunk.text),
+        padding: true,
+        truncation: true
+      });
+      const { logits } = await this.model(inputs);
+      // Single-logit relevance heads; a sigmoid maps them to [0, 1]
+      scores.push(...logits.tolist().map(row => 1 / (1 + Math.exp(-row[row.length - 1]))));
+    }
+
+    return results
+      .map((result, index) => ({ ...result, score: scores[index] }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+// Rolling latency of the last `window` calls, in milliseconds
+export class LatencyStats {
+  private samples: number[] = [];
+  private calls = 0;
+
+  constructor(private window: number = 200) {}
+
+  record(ms: number) {
+    this.calls++;
+    this.samples.push(ms);
+    if (this.samples.length > this.window) this.samples.shift();
+  }
+
+  summary(): { calls: number; meanMs: number; p50Ms: number; p95Ms: number; maxMs: number } {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const at = (quantile: number) => sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(quantile * sorted.length))];
+    const round = (ms: number) => Math.round(ms * 10) / 10;
+
+    return {
+      calls: this.calls,
+      meanMs: round(sorted.length === 0 ? 0 : sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length),
+      p50Ms: round(at(0.5)),
+      p95Ms: round(at(0.95)),
+      maxMs: round(sorted[sorted.length - 1] || 0)
+    };
+  }
+}
+
+// RERANKER_MODEL_PATH selects a local cross-encoder; without it, or if it
+// fails to load, the heuristic reranker is used.
+export async function loadReranker(): Promise<Reranker> {
+  const modelPath = process.env.RERANKER_MODEL_PATH;
+
+  if (modelPath) {
+    try {
+      const reranker = await CrossEncoderReranker.load(modelPath, parseInt(process.env.RERANKER_BATCH_SIZE || '16', 10));
+      console.log(`Reranker: ${reranker.name}`);
+      return reranker;
+    } catch (error) {
+      console.warn(`Reranker: could not load model from ${modelPath}, using term overlap:`, (error as Error).message);
+    }
+  }
+
+  return new HeuristicReranker();
+}
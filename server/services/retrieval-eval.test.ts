@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { RAGService } from './rag';
+import { HeuristicReranker } from './rerankers';
+import { evaluateRetrieval, ingestGoldenSet, loadGoldenSet, type GoldenSet } from './retrieval-eval';
+import { FileVectorStore } from './vector-store';
+
+const GOLDEN_SET = path.resolve(import.meta.dirname, '../../scripts/fixtures/retrieval/golden.json');
+
+let storeDir: string;
+let set: GoldenSet;
+let rag: RAGService;
+
+beforeAll(async () => {
+  storeDir = mkdtempSync(path.join(os.tmpdir(), 'retrieval-eval-'));
+  set = await loadGoldenSet(GOLDEN_SET);
+  // The defaults of `npm run eval:retrieval` without model paths
+  rag = new RAGService(new FileVectorStore(storeDir), new HeuristicReranker());
+  await ingestGoldenSet(rag, set, path.dirname(GOLDEN_SET));
+});
+
+afterAll(() => {
+  rmSync(storeDir, { recursive: true, force: true });
+});
+
+describe('evaluateRetrieval', () => {
+  it('meets the golden set thresholds', async () => {
+    const report = await evaluateRetrieval(rag, set);
+
+    expect(report.questions).toHaveLength(set.questions.length);
+    expect(report.failures).toEqual([]);
+    expect(report.metrics.recall).toBeGreaterThanOrEqual(set.thresholds!.recall!);
+    expect(report.metrics.mrr).toBeGreaterThanOrEqual(set.thresholds!.mrr!);
+    expect(report.metrics.ndcg).toBeGreaterThanOrEqual(set.thresholds!.ndcg!);
+  });
+
+  it('reports metrics below their thresholds', async () => {
+    const report = await evaluateRetrieval(rag, { ...set, thresholds: { recall: 1.01 } });
+
+    expect(report.failures).toEqual([expect.stringMatching(/^recall [\d.]+ is below 1\.01$/)]);
+  });
+});
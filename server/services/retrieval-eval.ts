@@ -0,0 +1,181 @@
+// Retrieval evaluation against golden question sets. Fixture documents are
+// ingested into a RAGService, every question is searched, and the ranking is
+// scored with recall@k, MRR and nDCG@k against the passages it should find.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { formatCitationLocation } from '@shared/citations';
+import type { EmbeddingChunk } from './embeddings';
+import { extractDocument } from './extractors';
+import type { RAGService, SearchOptions } from './rag';
+
+// A passage a question should retrieve. A chunk matches when it comes from
+// `document` and every other field given matches; `contains` is a case- and
+// whitespace-insensitive substring of the chunk text.
+export interface RelevantTarget {
+  document: string;
+  page?: number;
+  slide?: number;
+  chapter?: number;
+  section?: string;
+  contains?: string;
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  relevant: RelevantTarget[];
+}
+
+export type MetricName = 'recall' | 'mrr' | 'ndcg';
+
+export interface GoldenSet {
+  k?: number;
+  thresholds?: Partial<Record<MetricName, number>>; // minimum mean per metric
+  documents: Array<{ id: string; file: string }>;   // files relative to the set file
+  questions: GoldenQuestion[];
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  retrieved: Array<{ chunkId: string; document: string; location: string; relevant: boolean }>;
+  missed: RelevantTarget[];
+}
+
+export interface EvalReport {
+  k: number;
+  metrics: Record<MetricName, number>;
+  questions: QuestionResult[];
+  failures: string[]; // metrics below their threshold
+}
+
+export async function loadGoldenSet(file: string): Promise<GoldenSet> {
+  const set = JSON.parse(await fs.readFile(file, 'utf-8')) as GoldenSet;
+  if (!Array.isArray(set.documents) || !Array.isArray(set.questions)) {
+    throw new Error(`${file}: a golden set needs "documents" and "questions" arrays`);
+  }
+  for (const question of set.questions) {
+    if (!question.id || !question.question || !Array.isArray(question.relevant) || question.relevant.length === 0) {
+      throw new Error(`${file}: question ${question.id || '(no id)'} needs "question" and at least one "relevant" target`);
+    }
+  }
+  return set;
+}
+
+// Extracts and indexes every fixture under its golden-set id
+export async function ingestGoldenSet(rag: RAGService, set: GoldenSet, baseDir: string): Promise<void> {
+  for (const document of set.documents) {
+    const file = path.resolve(baseDir, document.file);
+    const extracted = await extractDocument(await fs.readFile(file), { filename: path.basename(file) });
+    await rag.ingestDocument(document.id, extracted, {
+      title: extracted.title || path.basename(file),
+      type: path.extname(file).slice(1),
+      source: file
+    });
+  }
+}
+
+export function matchesTarget(chunk: EmbeddingChunk, target: RelevantTarget): boolean {
+  const { metadata } = chunk;
+  if (metadata.source !== target.document) return false;
+  if (target.page !== undefined && metadata.page !== target.page) return false;
+  if (target.slide !== undefined && metadata.slide !== target.slide) return false;
+  if (target.chapter !== undefined && metadata.chapter !== target.chapter) return false;
+  if (target.section !== undefined && metadata.section?.toLowerCase() !== target.section.toLowerCase()) return false;
+  if (target.contains !== undefined) {
+    const squash = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+    if (!squash(chunk.text).includes(squash(target.contains))) return false;
+  }
+  return true;
+}
+
+// Scores one ranking. Relevance is binary per target: a target counts once,
+// at the first rank where a chunk matches it, so several chunks of the same
+// passage do not inflate the score.
+//   recall@k: share of targets matched in the top k
+//   reciprocal rank: 1 / rank of the first relevant chunk (0 if none in the top k)
+//   nDCG@k: discounted gain of newly matched targets over the ideal ranking
+export function scoreRanking(
+  chunks: EmbeddingChunk[],
+  targets: RelevantTarget[],
+  k: number
+): { recall: number; reciprocalRank: number; ndcg: number; relevant: boolean[]; missed: RelevantTarget[] } {
+  const found = new Set<number>();
+  const relevant: boolean[] = [];
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  chunks.slice(0, k).forEach((chunk, index) => {
+    const matched = targets
+      .map((target, targetIndex) => (matchesTarget(chunk, target) ? targetIndex : -1))
+      .filter(targetIndex => targetIndex >= 0);
+    relevant.push(matched.length > 0);
+    if (matched.length > 0 && reciprocalRank === 0) reciprocalRank = 1 / (index + 1);
+
+    const fresh = matched.filter(targetIndex => !found.has(targetIndex));
+    if (fresh.length > 0) {
+      fresh.forEach(targetIndex => found.add(targetIndex));
+      dcg += 1 / Math.log2(index + 2);
+    }
+  });
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(targets.length, k); i++) idealDcg += 1 / Math.log2(i + 2);
+
+  return {
+    recall: found.size / targets.length,
+    reciprocalRank,
+    ndcg: idealDcg === 0 ? 0 : dcg / idealDcg,
+    relevant,
+    missed: targets.filter((_, targetIndex) => !found.has(targetIndex))
+  };
+}
+
+// Searches every question over the set's documents and averages the scores
+export async function evaluateRetrieval(
+  rag: RAGService,
+  set: GoldenSet,
+  options: { k?: number; search?: SearchOptions } = {}
+): Promise<EvalReport> {
+  const k = options.k ?? set.k ?? 5;
+  const documentIds = set.documents.map(document => document.id);
+  const questions: QuestionResult[] = [];
+
+  for (const question of set.questions) {
+    const results = await rag.hybridSearch(question.question, documentIds, k, options.search);
+    const chunks = results.map(result => result.chunk);
+    const score = scoreRanking(chunks, question.relevant, k);
+
+    questions.push({
+      id: question.id,
+      question: question.question,
+      recall: score.recall,
+      reciprocalRank: score.reciprocalRank,
+      ndcg: score.ndcg,
+      retrieved: chunks.map((chunk, index) => ({
+        chunkId: chunk.id,
+        document: chunk.metadata.source,
+        location: formatCitationLocation(chunk.metadata),
+        relevant: score.relevant[index] ?? false
+      })),
+      missed: score.missed
+    });
+  }
+
+  const mean = (values: number[]) => values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+  const metrics: Record<MetricName, number> = {
+    recall: mean(questions.map(result => result.recall)),
+    mrr: mean(questions.map(result => result.reciprocalRank)),
+    ndcg: mean(questions.map(result => result.ndcg))
+  };
+
+  const failures = (Object.entries(set.thresholds || {}) as Array<[MetricName, number]>)
+    .filter(([metric, minimum]) => metrics[metric] < minimum)
+    .map(([metric, minimum]) => `${metric} ${metrics[metric].toFixed(3)} is below ${minimum}`);
+
+  return { k, metrics, questions, failures };
+}
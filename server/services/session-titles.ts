@@ -0,0 +1,73 @@
+// Titles and summaries for chat sessions, so history lists show what each
+// session was about. A session is named after its first question straight
+// away; once it has a few turns the model writes a title and summary.
+
+import type { ChatSession, Message } from '@shared/schema';
+import { storage } from '../storage';
+import type { ModelRouter } from './llm';
+
+const MAX_TITLE_CHARS = 80;
+const MAX_SUMMARY_CHARS = 300;
+const MAX_MESSAGE_CHARS = 500;
+
+// The first question cut at a word boundary
+export function fallbackTitle(question: string): string {
+  const text = question.replace(/\s+/g, ' ').trim();
+  if (text.length <= 60) return text;
+  const cut = text.slice(0, 60);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 30 ? cut.lastIndexOf(' ') : 60).replace(/[\s,.;:!?-]+$/, '')}…`;
+}
+
+export class SessionTitler {
+  private describeAfterTurns: number;
+
+  constructor(private router: ModelRouter, options: { describeAfterTurns?: number } = {}) {
+    this.describeAfterTurns = options.describeAfterTurns ?? parseInt(process.env.SESSION_DESCRIBE_AFTER_TURNS || '3', 10);
+  }
+
+  // Called after every assistant reply with the session's messages so far.
+  // Sessions keep their generated title and summary once they have one.
+  async update(session: ChatSession, messages: Message[]): Promise<ChatSession | undefined> {
+    if (session.summary) return undefined;
+
+    const questions = messages.filter(message => message.role === 'user');
+    if (questions.length === 0) return undefined;
+
+    if (questions.length >= this.describeAfterTurns) {
+      const { title, summary } = await this.describe(messages);
+      return storage.updateChatSession(session.id, { title, summary });
+    }
+    if (!session.title) {
+      return storage.updateChatSession(session.id, { title: fallbackTitle(questions[0].content) });
+    }
+    return undefined;
+  }
+
+  private async describe(messages: Message[]): Promise<{ title: string; summary: string }> {
+    const transcript = messages
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => `${message.role === 'user' ? 'Student' : 'Assistant'}: ${message.content.replace(/\s+/g, ' ').slice(0, MAX_MESSAGE_CHARS)}`)
+      .join('\n');
+
+    const { data } = await this.router.generateJSON<{ title: string; summary: string }>(
+      'titles',
+      [{ role: 'user', content: transcript }],
+      {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'At most 8 words naming the topic, no quotes' },
+          summary: { type: 'string', description: 'One or two sentences on what was covered' }
+        },
+        required: ['title', 'summary']
+      },
+      {
+        system: 'You name study sessions for a history list. Write in the language of the conversation.'
+      }
+    );
+
+    return {
+      title: data.title.replace(/^["']|["']$/g, '').trim().slice(0, MAX_TITLE_CHARS),
+      summary: data.summary.trim().slice(0, MAX_SUMMARY_CHARS)
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { foldPhonetic, stemEnglish, tokenize, transliterateDevanagari } from './tokenizer';
+
+describe('tokenize', () => {
+  it('stems English and drops stopwords', () => {
+    expect(tokenize('Energy is conserved in collisions')).toEqual(['energy', 'conserv', 'colis']);
+    expect(tokenize('The running runners stopped')).toEqual(['run', 'runer', 'stop']);
+  });
+
+  it('gives Devanagari, romanized and misspelled Hindi the same keys', () => {
+    expect(tokenize('ऊर्जा क्या है?')).toEqual(['urj']);
+    for (const spelling of ['Urja kya hai', 'oorja', 'oorjaa']) expect(tokenize(spelling)).toEqual(['urj']);
+
+    expect(tokenize('गति का नियम')).toEqual(tokenize('Gati ka niyam'));
+    expect(tokenize('प्रकाश संश्लेषण')[0]).toBe(tokenize('parkash')[0]);
+  });
+
+  it('keeps numbers, decimals included, and drops lone letters', () => {
+    expect(tokenize('g = 9.8 m/s, २ kg')).toEqual(['9.8', 'kg']);
+    expect(tokenize('')).toEqual([]);
+  });
+});
+
+describe('transliterateDevanagari', () => {
+  it('adds the inherent vowel except before matras, the virama and at the end', () => {
+    expect(transliterateDevanagari('बल')).toBe('bal');
+    expect(transliterateDevanagari('न्यूटन')).toBe('nyuutan');
+    expect(transliterateDevanagari('संख्या')).toBe('sankhyaa');
+    expect(transliterateDevanagari('१२')).toBe('12');
+  });
+});
+
+describe('foldPhonetic and stemEnglish', () => {
+  it('folds spelling variants and strips common suffixes', () => {
+    expect(foldPhonetic('shakti')).toBe(foldPhonetic('sakti'));
+    expect(foldPhonetic('vaayu')).toBe(foldPhonetic('wayu'));
+    expect(stemEnglish('theories')).toBe('theory');
+    expect(stemEnglish('stopping')).toBe('stop');
+    // Short and Latin-derived words are left alone
+    expect(stemEnglish('gas')).toBe('gas');
+    expect(stemEnglish('radius')).toBe('radius');
+  });
+});
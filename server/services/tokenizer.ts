@@ -0,0 +1,139 @@
+// Search tokenizer for English, Hindi (Devanagari) and Hinglish (romanized
+// Hindi) text. Every token ends up as a folded Roman key: Devanagari words are
+// transliterated, Latin words are stemmed, and both go through the same
+// phonetic folding so "ऊर्जा", "urja" and "oorja" all match each other.
+
+const TOKEN_PATTERN = /\d+(?:\.\d+)?|[a-zà-ɏ]+|[ऀ-ॿ]+/g;
+
+const ENGLISH_STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'us', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+// Hindi function words, compared after folding so either script matches
+const HINDI_STOPWORDS = new Set([
+  'hai', 'hain', 'ho', 'tha', 'thi', 'ka', 'ki', 'ke', 'ko', 'se', 'mein', 'men', 'par', 'pe',
+  'aur', 'ya', 'bhi', 'ek', 'yah', 'yeh', 'ye', 'vah', 'voh', 'vo', 'kya', 'kyon', 'kaise', 'kaun',
+  'jo', 'ji', 'nahi', 'nahin', 'hi', 'kar', 'karo', 'karen', 'raha', 'rahi', 'rahe', 'gaya', 'gayi', 'mujhe',
+  'hum', 'tum', 'aap', 'batao', 'samjhao', 'iska', 'uska', 'iski', 'uski', 'lie', 'liye', 'tak', 'wala', 'vala'
+].map(foldPhonetic));
+
+// Romanized spellings that phonetic folding alone does not reconcile
+const HINGLISH_VARIANTS: Record<string, string> = {
+  kese: 'kaise', kaisey: 'kaise', kyu: 'kyon', kyun: 'kyon', kyoon: 'kyon', nhi: 'nahi', nai: 'nahi',
+  mai: 'mein', mei: 'mein', hy: 'hai', kr: 'kar', oorjaa: 'urja', vaig: 'veg', sameekaran: 'samikaran',
+  parkash: 'prakash', kosika: 'koshika', paramanu: 'parmanu', udahran: 'udaharan', prashna: 'prashn',
+  taapmaan: 'tapman', jeev: 'jiv', sootra: 'sutra'
+};
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ii', 'उ': 'u', 'ऊ': 'uu', 'ऋ': 'ri', 'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au'
+};
+
+const DEVANAGARI_MATRAS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ii', 'ु': 'u', 'ू': 'uu', 'ृ': 'ri', 'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au'
+};
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n', 'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n', 'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm', 'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v', 'श': 'sh',
+  'ष': 'sh', 'स': 's', 'ह': 'h', 'ळ': 'l'
+};
+
+const NUKTA = '़';
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.normalize('NFC').toLowerCase().match(TOKEN_PATTERN) || [];
+
+  for (const word of words) {
+    const token = normalizeWord(word);
+    if (token) tokens.push(token);
+  }
+  return tokens;
+}
+
+function normalizeWord(word: string): string | null {
+  if (/^\d/.test(word)) return word;
+
+  let key: string;
+  if (/[ऀ-ॿ]/.test(word)) {
+    key = foldPhonetic(transliterateDevanagari(word));
+  } else {
+    if (ENGLISH_STOPWORDS.has(word)) return null;
+    key = foldPhonetic(stemEnglish(HINGLISH_VARIANTS[word] || word));
+  }
+
+  return key.length > 1 && !HINDI_STOPWORDS.has(key) ? key : null;
+}
+
+// Romanizes with inherent-'a' handling: a consonant takes 'a' unless it is
+// followed by a matra or virama, or ends the word (schwa deletion)
+export function transliterateDevanagari(word: string): string {
+  const chars = Array.from(word.replace(new RegExp(NUKTA, 'g'), ''));
+  let result = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+
+    if (DEVANAGARI_CONSONANTS[char]) {
+      result += DEVANAGARI_CONSONANTS[char];
+      if (next && (DEVANAGARI_CONSONANTS[next] || DEVANAGARI_VOWELS[next] || next === 'ं' || next === 'ँ')) {
+        result += 'a';
+      }
+    } else if (DEVANAGARI_MATRAS[char]) {
+      result += DEVANAGARI_MATRAS[char];
+    } else if (DEVANAGARI_VOWELS[char]) {
+      result += DEVANAGARI_VOWELS[char];
+    } else if (char === 'ं' || char === 'ँ') {
+      result += 'n';
+    } else if (char === 'ः') {
+      result += 'h';
+    } else if (/[०-९]/.test(char)) {
+      result += String(char.charCodeAt(0) - 0x0966);
+    }
+  }
+
+  return result;
+}
+
+// Collapses spelling differences that romanized Hindi does not distinguish
+export function foldPhonetic(word: string): string {
+  return word
+    .replace(/aa+/g, 'a')
+    .replace(/(ee|ii)+/g, 'i')
+    .replace(/(oo|uu)+/g, 'u')
+    .replace(/w/g, 'v')
+    .replace(/ph/g, 'f')
+    .replace(/z/g, 'j')
+    .replace(/sh/g, 's')
+    .replace(/chh/g, 'ch')
+    .replace(/([bcdfghjklmnpqrstvxy])\1+/g, '$1')
+    .replace(/(.)a$/, '$1');
+}
+
+// Light suffix stripping in the spirit of Porter step 1, enough to conflate
+// plurals and common verb/noun forms without over-stemming technical terms
+export function stemEnglish(word: string): string {
+  if (word.length <= 3) return word;
+
+  let stem = word;
+  if (stem.endsWith('ies') && stem.length > 4) stem = stem.slice(0, -3) + 'y';
+  else if (stem.endsWith('sses')) stem = stem.slice(0, -2);
+  else if (stem.endsWith('s') && !stem.endsWith('ss') && !stem.endsWith('us') && !stem.endsWith('is')) stem = stem.slice(0, -1);
+
+  for (const suffix of ['ational', 'ization', 'fulness', 'iveness', 'ation', 'ement', 'ment', 'ness', 'ing', 'edly', 'ate', 'ion', 'ed', 'ly']) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length);
+      // "stopping" -> "stopp" -> "stop"
+      if (/([bdfgmnprt])\1$/.test(stem)) stem = stem.slice(0, -1);
+      break;
+    }
+  }
+
+  return stem;
+}
@@ -0,0 +1,24 @@
+// Token estimates shared by chunking, context assembly and document stats.
+// Without a model-specific tokenizer we approximate BPE behaviour: short
+// Latin words are one token and longer ones split every ~4 characters,
+// digits group in threes, Devanagari splits much more finely, and every
+// other symbol counts on its own.
+
+const PIECES = /[a-zA-Z\u00c0-\u024f]+|\d+|[\u0900-\u097f]+|\S/g;
+
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(PIECES) || []) {
+    const code = piece.charCodeAt(0);
+    if (code >= 0x30 && code <= 0x39) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (code >= 0x0900 && code <= 0x097f) {
+      tokens += Math.ceil(piece.length / 2);
+    } else if (piece.length > 1) {
+      tokens += Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
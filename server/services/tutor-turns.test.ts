@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { TutorBlock, TutorCheckBlock } from '@shared/tutor';
+import { TutorTurnParser, publicBlock, renderTutorTurn } from './tutor-turns';
+
+// Parses a whole reply, streamed in chunks of `size` characters
+function parse(reply: string, size = 7) {
+  const parser = new TutorTurnParser();
+  const events = [];
+  for (let i = 0; i < reply.length; i += size) events.push(...parser.push(reply.slice(i, i + size)));
+  events.push(...parser.end());
+  return { blocks: parser.blocks, events };
+}
+
+function check(json: string): TutorCheckBlock | undefined {
+  return parse(`<check>${json}</check>`).blocks.find((block): block is TutorCheckBlock => block.kind === 'check');
+}
+
+describe('TutorTurnParser', () => {
+  it('splits a streamed reply into blocks, tags cut across chunks included', () => {
+    const { blocks, events } = parse([
+      '<teach>Force is a push or a pull.</teach>',
+      '<check>{"question": "Unit of force?", "options": ["Joule", "Newton"], "answer": "B", "explanation": "1 N = 1 kg m/s²"}</check>',
+      '<recap>- F = ma</recap>'
+    ].join(''), 3);
+
+    expect(blocks.map(block => block.kind)).toEqual(['teach', 'check', 'recap']);
+    expect(blocks[1]).toMatchObject({ question: 'Unit of force?', options: ['Joule', 'Newton'], answerIndex: 1 });
+
+    // Text is passed on as written, the check question only whole and without its key
+    const text = events.flatMap(event => event.type === 'text' ? [event.text] : []).join('');
+    expect(text).toBe('Force is a push or a pull.\n\n- F = ma');
+    const sent = events.flatMap(event => event.type === 'block' ? [event.block] : []);
+    expect(sent[1]).not.toHaveProperty('answerIndex');
+    expect(sent[1]).not.toHaveProperty('explanation');
+  });
+
+  it('treats untagged text and stray angle brackets as teaching', () => {
+    const { blocks } = parse('If a < b and b > c, then <i>nothing</i> follows.');
+    expect(blocks).toEqual([{ kind: 'teach', text: 'If a < b and b > c, then <i>nothing</i> follows.' }]);
+  });
+
+  it('keeps valid JSON escapes in check questions', () => {
+    const block = check('{"question": "A ball is dropped.\\nThe ball falls for 2 s. How far?", "options": ["\\"10 m\\"", "20 m", "40 m"], "answer": 1}');
+
+    expect(block?.question).toBe('A ball is dropped.\nThe ball falls for 2 s. How far?');
+    expect(block?.options).toEqual(['"10 m"', '20 m', '40 m']);
+  });
+
+  it('reads LaTeX written with single or escaped backslashes', () => {
+    const single = check('{"question": "Simplify $\\frac{\\alpha}{2} \\times \\theta$", "options": ["$\\nabla$", "$\\beta$"], "answer": "A"}');
+    const escaped = check('{"question": "Simplify $\\\\frac{\\\\alpha}{2} \\\\times \\\\theta$", "options": ["$\\\\nabla$", "$\\\\beta$"], "answer": "A"}');
+
+    expect(single?.question).toBe('Simplify $\\frac{\\alpha}{2} \\times \\theta$');
+    expect(single?.options).toEqual(['$\\nabla$', '$\\beta$']);
+    expect(escaped).toMatchObject({ question: single?.question, options: single?.options });
+  });
+
+  it('accepts fenced JSON and strips letters from options', () => {
+    const block = check('```json\n{"question": "Q?", "options": ["A) one", "B) two"], "answer": "b"}\n```');
+    expect(block).toMatchObject({ options: ['one', 'two'], answerIndex: 1 });
+  });
+
+  it('drops malformed check questions and keeps the rest of the turn', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const malformed = [
+      '{"question": "Q?", "options": ["one", "two"], "answer": "B"', // cut off
+      '{"question": "Q?", "options": ["one"], "answer": "A"}',       // too few options
+      '{"question": "Q?", "options": ["one", "two"], "answer": "E"}', // no such option
+      '{"question": 4, "options": ["one", "two"], "answer": "A"}'     // not text
+    ];
+    for (const json of malformed) {
+      const { blocks } = parse(`<teach>Intro</teach><check>${json}</check>`);
+      expect(blocks).toEqual([{ kind: 'teach', text: 'Intro' }]);
+    }
+    expect(warn).toHaveBeenCalledTimes(malformed.length);
+    warn.mockRestore();
+  });
+
+  it('drops a check question cut off by the end of the stream', () => {
+    const { blocks } = parse('<teach>Intro</teach><check>{"question": "Q?", "opt');
+    expect(blocks).toEqual([{ kind: 'teach', text: 'Intro' }]);
+  });
+});
+
+describe('renderTutorTurn', () => {
+  it('renders check questions without their key, which answered ones reveal', () => {
+    const blocks: TutorBlock[] = [
+      { kind: 'teach', text: 'Force is a push or a pull.' },
+      { kind: 'check', id: 'c1', question: 'Unit of force?', options: ['Joule', 'Newton'], answerIndex: 1, explanation: 'N' }
+    ];
+    expect(renderTutorTurn(blocks)).toBe(
+      'Force is a push or a pull.\n\n**Check your understanding:** Unit of force?\nA) Joule\nB) Newton'
+    );
+    expect(publicBlock({ ...blocks[1], answer: { selected: 0, correct: false, answeredAt: 'now' } })).toHaveProperty('answerIndex', 1);
+  });
+});
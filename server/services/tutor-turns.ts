@@ -0,0 +1,204 @@
+// Tutor turns as typed blocks. The tutor writes each reply as tagged
+// sections, <teach>, <check>, <recap> and <hint>, the check question being
+// JSON with its answer key. TutorTurnParser splits the streamed text into
+// blocks as it arrives: text blocks are passed on as they are written, a
+// check question only once it is complete and never with its key. Text
+// outside any tag counts as teaching, so untagged replies still work.
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { Message } from '@shared/schema';
+import { optionLabel, type CheckAnswer, type TutorBlock, type TutorCheckBlock, type TutorTextKind } from '@shared/tutor';
+
+export type TutorTurnEvent =
+  | { type: 'text'; kind: TutorTextKind; text: string } // part of a text block, as written
+  | { type: 'block'; block: TutorBlock };              // a finished block
+
+type BlockKind = TutorBlock['kind'];
+
+const TAG = /^<(\/?)(teach|check|recap|hint)\s*>/i;
+const TAG_NAMES: BlockKind[] = ['teach', 'check', 'recap', 'hint'];
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+
+export class TutorTurnParser {
+  readonly blocks: TutorBlock[] = [];
+  private pending = ''; // text that may be the start of a tag
+  private open: BlockKind | null = null; // null: outside any tag
+  private body = '';
+  private written = false; // whether any text has been passed on
+
+  push(chunk: string): TutorTurnEvent[] {
+    const events: TutorTurnEvent[] = [];
+    this.pending += chunk;
+
+    while (this.pending) {
+      const start = this.pending.indexOf('<');
+      if (start === -1) {
+        this.write(this.pending, events);
+        this.pending = '';
+        break;
+      }
+      this.write(this.pending.slice(0, start), events);
+      this.pending = this.pending.slice(start);
+
+      const tag = this.pending.match(TAG);
+      if (tag) {
+        this.pending = this.pending.slice(tag[0].length);
+        const kind = tag[2].toLowerCase() as BlockKind;
+        this.close(events);
+        if (!tag[1]) {
+          this.open = kind;
+          // Keeps streamed blocks apart as paragraphs
+          if (kind !== 'check' && this.written) events.push({ type: 'text', kind, text: '\n\n' });
+        }
+      } else if (couldBeTag(this.pending)) {
+        break; // wait for the rest of the tag
+      } else {
+        this.write('<', events);
+        this.pending = this.pending.slice(1);
+      }
+    }
+    return events;
+  }
+
+  // Finishes the turn, e.g. after the stream ends or is stopped. A check
+  // question cut off before its end is dropped.
+  end(): TutorTurnEvent[] {
+    const events: TutorTurnEvent[] = [];
+    this.write(this.pending, events);
+    this.pending = '';
+    this.close(events, false);
+    return events;
+  }
+
+  private write(text: string, events: TutorTurnEvent[]) {
+    if (!text) return;
+    this.body += text;
+    if (this.open !== 'check') {
+      events.push({ type: 'text', kind: this.open ?? 'teach', text });
+      this.written = true;
+    }
+  }
+
+  private close(events: TutorTurnEvent[], complete = true) {
+    const body = this.body.trim();
+    const kind = this.open ?? 'teach';
+    this.open = null;
+    this.body = '';
+    if (!body) return;
+
+    const block = kind === 'check' ? parseCheck(body) : { kind, text: body };
+    if (!block) {
+      if (complete) console.warn('Dropped a malformed check question from a tutor reply');
+      return;
+    }
+    this.blocks.push(block);
+    events.push({ type: 'block', block: publicBlock(block) });
+  }
+}
+
+function couldBeTag(text: string): boolean {
+  const lower = text.toLowerCase();
+  return TAG_NAMES.some(name => `<${name}>`.startsWith(lower) || `</${name}>`.startsWith(lower));
+}
+
+// {"question", "options", "answer": "B" or 1, "explanation"}, possibly fenced
+const checkSchema = z.object({
+  question: z.string(),
+  options: z.array(z.string()),
+  answer: z.union([z.number(), z.string()]),
+  // An explanation that is not text is dropped rather than losing the question
+  explanation: z.string().optional().catch(undefined)
+});
+
+// LaTeX commands that begin like a JSON escape: written with one backslash,
+// \frac would be read as a form feed and "rac"
+const ESCAPE_LIKE_COMMAND = /^(?:frac|forall|theta|tau|times|tan|tanh|text|textbf|textit|to|tilde|triangle|beta|bar|binom|boxed|bullet|bigcup|bigcap|rho|right|rightarrow|rangle|rfloor|rceil|nabla|neq|ne|nu|not|neg|newline|ni)(?![a-zA-Z])/;
+
+// Doubles a lone backslash unless it starts a JSON escape the model meant,
+// so "\nThe" stays a line break while \alpha and \frac stay LaTeX
+function repairBackslashes(json: string): string {
+  return json.replace(/\\+/g, (run: string, offset: number) => {
+    if (run.length % 2 === 0) return run;
+    const next = json.slice(offset + run.length);
+    const validEscape = /^["/]|^u[0-9a-fA-F]{4}/.test(next) ||
+      (/^[bfnrt]/.test(next) && !ESCAPE_LIKE_COMMAND.test(next));
+    return validEscape ? run : `${run}\\`;
+  });
+}
+
+function parseCheck(body: string): TutorCheckBlock | null {
+  const json = repairBackslashes(body
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, ''));
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const parsed = checkSchema.safeParse(data);
+  if (!parsed.success) return null;
+  const { question, answer, explanation } = parsed.data;
+
+  const options = parsed.data.options.map(option => option.replace(/^\s*[A-F][).:]\s+/, '').trim());
+  if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) return null;
+
+  const answerIndex = typeof answer === 'number' ? answer : answer.trim().toUpperCase().charCodeAt(0) - 65;
+  if (!Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= options.length) return null;
+
+  return {
+    kind: 'check',
+    id: randomUUID(),
+    question: question.trim(),
+    options,
+    answerIndex,
+    ...(explanation?.trim() ? { explanation: explanation.trim() } : {})
+  };
+}
+
+// The block as the client may see it: a check question keeps its key
+// until it is answered
+export function publicBlock(block: TutorBlock): TutorBlock {
+  if (block.kind !== 'check' || block.answer) return block;
+  const { answerIndex, explanation, ...unanswered } = block;
+  return unanswered;
+}
+
+export function withoutAnswerKeys<T extends Pick<Message, 'metadata'>>(message: T): T {
+  const blocks = (message.metadata as Record<string, unknown> | null)?.blocks as TutorBlock[] | undefined;
+  if (!Array.isArray(blocks)) return message;
+  return { ...message, metadata: { ...(message.metadata as Record<string, unknown>), blocks: blocks.map(publicBlock) } };
+}
+
+// Plain Markdown for the message content, which the model reads back as
+// history and search matches against. Check questions appear without their key.
+export function renderTutorTurn(blocks: TutorBlock[]): string {
+  return blocks.map(block => {
+    switch (block.kind) {
+      case 'check':
+        return `**Check your understanding:** ${block.question}\n${block.options.map((option, index) => `${optionLabel(index)}) ${option}`).join('\n')}`;
+      case 'recap':
+        return `**Recap**\n${block.text}`;
+      case 'hint':
+        return `**Hint:** ${block.text}`;
+      default:
+        return block.text;
+    }
+  }).join('\n\n');
+}
+
+export function gradeCheck(check: TutorCheckBlock, selected: number): CheckAnswer {
+  return { selected, correct: selected === check.answerIndex, answeredAt: new Date().toISOString() };
+}
+
+// How the student did on an answered check question, for the model
+export function describeAnswer(check: TutorCheckBlock): string | null {
+  if (!check.answer || check.answerIndex === undefined) return null;
+  const chosen = `${optionLabel(check.answer.selected)}) ${check.options[check.answer.selected]}`;
+  const key = `${optionLabel(check.answerIndex)}) ${check.options[check.answerIndex]}`;
+  return check.answer.correct
+    ? `The student chose ${chosen}, which is correct.`
+    : `The student chose ${chosen}, which is incorrect. The correct answer is ${key}.${check.explanation ? ` ${check.explanation}` : ''}`;
+}
@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Original uploaded files, stored as `<dir>/<documentId>` so ingestion jobs
+// can be retried or resumed after a restart without the client re-uploading.
+export class UploadStore {
+  constructor(private dir: string) {}
+
+  async save(documentId: string, buffer: Buffer): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.pathFor(documentId);
+    await fs.writeFile(`${file}.tmp`, buffer);
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  // Undefined when the file was never stored or has been removed
+  async read(documentId: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathFor(documentId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async has(documentId: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(documentId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async remove(documentId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(documentId));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  pathFor(documentId: string): string {
+    // Document ids are UUIDs; anything else must not escape the directory
+    return path.join(this.dir, path.basename(documentId));
+  }
+}
+
+export function createUploadStore(): UploadStore {
+  return new UploadStore(process.env.UPLOAD_DIR || '.data/uploads');
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { cosineSimilarity, type EmbeddingChunk } from '../embeddings';
+import type { DocumentIndexStats, SimilarityQuery, VectorSearchResult, VectorStore } from './types';
+
+// Keeps every chunk in memory and mirrors each document to
+// `<dir>/<documentId>.json`, so the index survives restarts without Postgres.
+// Search is brute force, which is fine for a single user's library.
+export class FileVectorStore implements VectorStore {
+  readonly name = 'file';
+  private documents: Map<string, EmbeddingChunk[]> = new Map();
+  private chunksById: Map<string, EmbeddingChunk> = new Map();
+  private loaded?: Promise<void>;
+
+  constructor(private dir: string) {}
+
+  async replaceDocument(documentId: string, chunks: EmbeddingChunk[]): Promise<void> {
+    await this.load();
+    const file = this.fileFor(documentId);
+    // Write then rename so a crash never leaves a half-written index file
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(chunks));
+    await fs.rename(`${file}.tmp`, file);
+    this.setDocument(documentId, chunks);
+  }
+
+  async getChunks(documentIds?: string[]): Promise<EmbeddingChunk[]> {
+    await this.load();
+    const ids = documentIds ?? Array.from(this.documents.keys());
+    return ids.flatMap(id => this.documents.get(id) || []);
+  }
+
+  async getChunksByIds(chunkIds: string[]): Promise<EmbeddingChunk[]> {
+    await this.load();
+    return chunkIds.map(id => this.chunksById.get(id)).filter((chunk): chunk is EmbeddingChunk => !!chunk);
+  }
+
+  async searchSimilar(embedding: number[], query: SimilarityQuery): Promise<VectorSearchResult[]> {
+    const chunks = await this.getChunks(query.documentIds);
+
+    return chunks
+      .filter(chunk => chunk.embeddingModel === query.embeddingModel && chunk.dimension === query.dimension)
+      .map(chunk => ({ chunk, score: cosineSimilarity(embedding, chunk.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.limit);
+  }
+
+  async getDocumentStats(documentId: string): Promise<DocumentIndexStats> {
+    await this.load();
+    const chunks = this.documents.get(documentId) || [];
+    const byModel = new Map<string, { model: string; dimension: number; chunkCount: number }>();
+
+    for (const chunk of chunks) {
+      const key = `${chunk.embeddingModel}:${chunk.dimension}`;
+      const entry = byModel.get(key) || { model: chunk.embeddingModel, dimension: chunk.dimension, chunkCount: 0 };
+      entry.chunkCount++;
+      byModel.set(key, entry);
+    }
+
+    return { chunkCount: chunks.length, embeddings: Array.from(byModel.values()) };
+  }
+
+  async listDocumentIds(): Promise<string[]> {
+    await this.load();
+    return Array.from(this.documents.keys());
+  }
+
+  async removeDocument(documentId: string): Promise<boolean> {
+    await this.load();
+    if (!this.documents.has(documentId)) return false;
+    this.setDocument(documentId, null);
+    await fs.rm(this.fileFor(documentId), { force: true });
+    return true;
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      for (const entry of await fs.readdir(this.dir)) {
+        if (!entry.endsWith('.json')) continue;
+        try {
+          const chunks: EmbeddingChunk[] = JSON.parse(await fs.readFile(path.join(this.dir, entry), 'utf-8'));
+          this.setDocument(entry.slice(0, -'.json'.length), chunks);
+        } catch (error) {
+          console.warn(`Skipping unreadable vector index file ${entry}:`, (error as Error).message);
+        }
+      }
+    })();
+    return this.loaded;
+  }
+
+  private setDocument(documentId: string, chunks: EmbeddingChunk[] | null) {
+    for (const chunk of this.documents.get(documentId) || []) {
+      this.chunksById.delete(chunk.id);
+    }
+
+    if (chunks) {
+      this.documents.set(documentId, chunks);
+      chunks.forEach(chunk => this.chunksById.set(chunk.id, chunk));
+    } else {
+      this.documents.delete(documentId);
+    }
+  }
+
+  private fileFor(documentId: string): string {
+    // Document ids are UUIDs; refuse anything that could escape the directory
+    if (!/^[\w-]+$/.test(documentId)) {
+      throw new Error(`Invalid document id: ${documentId}`);
+    }
+    return path.join(this.dir, `${documentId}.json`);
+  }
+}
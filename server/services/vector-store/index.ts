@@ -0,0 +1,23 @@
+import { sharedDatabase } from '../../db';
+import { FileVectorStore } from './file';
+import { PgVectorStore } from './pgvector';
+import type { VectorStore } from './types';
+
+export * from './types';
+export { FileVectorStore } from './file';
+export { PgVectorStore } from './pgvector';
+
+// VECTOR_STORE=pgvector|file. Follows the storage backend by default, since
+// chunk rows reference `documents`; the file store writes under VECTOR_STORE_DIR.
+export function createVectorStore(): VectorStore {
+  const storageBackend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? 'database' : 'memory');
+  const backend = process.env.VECTOR_STORE || (storageBackend === 'database' ? 'pgvector' : 'file');
+
+  if (backend === 'file') {
+    return new FileVectorStore(process.env.VECTOR_STORE_DIR || '.data/vectors');
+  }
+
+  // Same pool as storage
+  const { db } = sharedDatabase();
+  return new PgVectorStore(db);
+}
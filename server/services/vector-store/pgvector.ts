@@ -0,0 +1,111 @@
+import { and, count, eq, getTableColumns, inArray, sql } from 'drizzle-orm';
+import { documentChunks, type DocumentChunk } from '@shared/schema';
+import type { Database } from '../../db';
+import type { EmbeddingChunk } from '../embeddings';
+import type { DocumentIndexStats, SimilarityQuery, VectorSearchResult, VectorStore } from './types';
+
+const INSERT_BATCH_SIZE = 500;
+
+// Chunks live in the `document_chunks` table; similarity search runs in
+// Postgres through pgvector's cosine distance operator.
+export class PgVectorStore implements VectorStore {
+  readonly name = 'pgvector';
+
+  constructor(private db: Database) {}
+
+  async replaceDocument(documentId: string, chunks: EmbeddingChunk[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+
+      for (let start = 0; start < chunks.length; start += INSERT_BATCH_SIZE) {
+        await tx.insert(documentChunks).values(
+          chunks.slice(start, start + INSERT_BATCH_SIZE).map(chunk => ({
+            id: chunk.id,
+            documentId,
+            text: chunk.text,
+            embedding: chunk.embedding,
+            embeddingModel: chunk.embeddingModel,
+            dimension: chunk.dimension,
+            metadata: chunk.metadata
+          }))
+        );
+      }
+    });
+  }
+
+  async getChunks(documentIds?: string[]): Promise<EmbeddingChunk[]> {
+    if (documentIds && documentIds.length === 0) return [];
+
+    const rows = await this.db.select().from(documentChunks)
+      .where(documentIds ? inArray(documentChunks.documentId, documentIds) : undefined);
+    return rows.map(toEmbeddingChunk);
+  }
+
+  async getChunksByIds(chunkIds: string[]): Promise<EmbeddingChunk[]> {
+    if (chunkIds.length === 0) return [];
+
+    const rows = await this.db.select().from(documentChunks).where(inArray(documentChunks.id, chunkIds));
+    return rows.map(toEmbeddingChunk);
+  }
+
+  async searchSimilar(embedding: number[], query: SimilarityQuery): Promise<VectorSearchResult[]> {
+    if (query.documentIds && query.documentIds.length === 0) return [];
+
+    const distance = sql<number>`${documentChunks.embedding} <=> ${`[${embedding.join(',')}]`}::vector`;
+    const rows = await this.db
+      .select({ ...getTableColumns(documentChunks), distance })
+      .from(documentChunks)
+      .where(and(
+        eq(documentChunks.embeddingModel, query.embeddingModel),
+        eq(documentChunks.dimension, query.dimension),
+        query.documentIds ? inArray(documentChunks.documentId, query.documentIds) : undefined
+      ))
+      .orderBy(distance)
+      .limit(query.limit);
+
+    return rows.map(({ distance, ...row }) => ({
+      chunk: toEmbeddingChunk(row),
+      score: 1 - Number(distance)
+    }));
+  }
+
+  async getDocumentStats(documentId: string): Promise<DocumentIndexStats> {
+    const rows = await this.db
+      .select({
+        model: documentChunks.embeddingModel,
+        dimension: documentChunks.dimension,
+        chunkCount: count()
+      })
+      .from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .groupBy(documentChunks.embeddingModel, documentChunks.dimension);
+
+    return {
+      chunkCount: rows.reduce((sum, row) => sum + row.chunkCount, 0),
+      embeddings: rows
+    };
+  }
+
+  async listDocumentIds(): Promise<string[]> {
+    const rows = await this.db.selectDistinct({ documentId: documentChunks.documentId }).from(documentChunks);
+    return rows.map(row => row.documentId);
+  }
+
+  async removeDocument(documentId: string): Promise<boolean> {
+    const removed = await this.db.delete(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .returning({ id: documentChunks.id });
+    return removed.length > 0;
+  }
+}
+
+function toEmbeddingChunk(row: DocumentChunk): EmbeddingChunk {
+  return {
+    id: row.id,
+    text: row.text,
+    embedding: row.embedding,
+    embeddingModel: row.embeddingModel,
+    dimension: row.dimension,
+    metadata: row.metadata as EmbeddingChunk['metadata']
+  };
+}
@@ -0,0 +1,31 @@
+import type { EmbeddingChunk } from '../embeddings';
+
+export interface VectorSearchResult {
+  chunk: EmbeddingChunk;
+  score: number;
+}
+
+export interface SimilarityQuery {
+  documentIds?: string[]; // undefined searches every document
+  embeddingModel: string; // only chunks embedded by this model/dimension are comparable
+  dimension: number;
+  limit: number;
+}
+
+export interface DocumentIndexStats {
+  chunkCount: number;
+  embeddings: Array<{ model: string; dimension: number; chunkCount: number }>;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  // Replaces every chunk previously stored for the document
+  replaceDocument(documentId: string, chunks: EmbeddingChunk[]): Promise<void>;
+  getChunks(documentIds?: string[]): Promise<EmbeddingChunk[]>;
+  getChunksByIds(chunkIds: string[]): Promise<EmbeddingChunk[]>;
+  // Cosine similarity, highest first
+  searchSimilar(embedding: number[], query: SimilarityQuery): Promise<VectorSearchResult[]>;
+  getDocumentStats(documentId: string): Promise<DocumentIndexStats>;
+  listDocumentIds(): Promise<string[]>;
+  removeDocument(documentId: string): Promise<boolean>;
+}
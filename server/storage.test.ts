@@ -0,0 +1,233 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import session from 'express-session';
+import { sql } from 'drizzle-orm';
+import type { PGlite } from '@electric-sql/pglite';
+import { documentChunks } from '@shared/schema';
+import { DatabaseStorage } from './storage';
+import { createTestDatabase } from './testing/database';
+import type { Database } from './db';
+
+const TABLES = [
+  'flashcards', 'notes', 'study_plans', 'quiz_attempts', 'quizzes', 'ingestion_jobs',
+  'document_chunks', 'collections', 'documents', 'messages', 'chat_sessions', 'users'
+];
+
+let client: PGlite;
+let db: Database;
+let storage: DatabaseStorage;
+
+beforeAll(async () => {
+  ({ client, db } = await createTestDatabase());
+  storage = new DatabaseStorage(db, new session.MemoryStore());
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+beforeEach(async () => {
+  await db.execute(sql.raw(`TRUNCATE ${TABLES.join(', ')} CASCADE`));
+});
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+async function createUser(username = 'asha') {
+  return storage.createUser({ username, password: 'hashed', name: 'Asha' });
+}
+
+describe('DatabaseStorage', () => {
+  describe('users', () => {
+    it('creates users and finds them by id and username', async () => {
+      const user = await createUser();
+
+      expect(user.id).toBeTruthy();
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername('asha')).toEqual(user);
+      expect(await storage.getUserByUsername('nobody')).toBeUndefined();
+    });
+
+    it('rejects a second user with the same username', async () => {
+      await createUser();
+      await expect(createUser()).rejects.toThrow();
+    });
+  });
+
+  describe('chat sessions and messages', () => {
+    it('updates sessions and bumps updatedAt', async () => {
+      const user = await createUser();
+      const chat = await storage.createChatSession({ userId: user.id, mode: 'tutor', subject: 'Physics' });
+      expect(chat.metadata).toEqual({});
+
+      await tick();
+      const updated = await storage.updateChatSession(chat.id, { title: 'Forces', activeLeafId: 'leaf' });
+      expect(updated).toMatchObject({ title: 'Forces', activeLeafId: 'leaf', subject: 'Physics' });
+      expect(updated!.updatedAt!.getTime()).toBeGreaterThan(chat.updatedAt!.getTime());
+      expect(await storage.getChatSessionsByUser(user.id)).toHaveLength(1);
+      expect(await storage.updateChatSession('missing', { title: 'x' })).toBeUndefined();
+    });
+
+    it('keeps messages oldest first with their parents', async () => {
+      const user = await createUser();
+      const chat = await storage.createChatSession({ userId: user.id, mode: 'tutor' });
+      const question = await storage.createMessage({ chatSessionId: chat.id, role: 'user', content: 'What is force?' });
+      await tick();
+      const answer = await storage.createMessage({
+        chatSessionId: chat.id, parentId: question.id, role: 'assistant', content: 'A push or a pull.'
+      });
+
+      const messages = await storage.getMessagesByChatSession(chat.id);
+      expect(messages.map(message => message.id)).toEqual([question.id, answer.id]);
+      expect(messages[0].parentId).toBeNull();
+      expect(messages[1].parentId).toBe(question.id);
+
+      const updated = await storage.updateMessage(answer.id, { metadata: { interrupted: true } });
+      expect(updated!.metadata).toEqual({ interrupted: true });
+      expect(await storage.updateMessage('missing', { content: 'x' })).toBeUndefined();
+    });
+
+    it('replaces message metadata only while it is unchanged', async () => {
+      const user = await createUser();
+      const chat = await storage.createChatSession({ userId: user.id, mode: 'tutor' });
+      const message = await storage.createMessage({
+        chatSessionId: chat.id, role: 'assistant', content: 'Check', metadata: { blocks: [{ id: 'c1' }], model: 'fake' }
+      });
+      const read = message.metadata;
+
+      const first = await storage.updateMessageMetadata(message.id, read, { blocks: [{ id: 'c1', answer: 1 }] });
+      expect(first!.metadata).toEqual({ blocks: [{ id: 'c1', answer: 1 }] });
+      // A second writer that read the same metadata loses
+      expect(await storage.updateMessageMetadata(message.id, read, { blocks: [{ id: 'c1', answer: 2 }] })).toBeUndefined();
+      expect((await storage.getMessagesByChatSession(chat.id))[0].metadata).toEqual({ blocks: [{ id: 'c1', answer: 1 }] });
+      expect(await storage.updateMessageMetadata('missing', read, {})).toBeUndefined();
+    });
+
+    it('searches a user\'s messages with session filters', async () => {
+      const asha = await createUser();
+      const ravi = await createUser('ravi');
+      const physics = await storage.createChatSession({ userId: asha.id, mode: 'tutor', subject: 'Physics' });
+      const notes = await storage.createChatSession({ userId: asha.id, mode: 'docchat', subject: 'Chemistry' });
+      const other = await storage.createChatSession({ userId: ravi.id, mode: 'tutor', subject: 'Physics' });
+      await storage.createMessage({ chatSessionId: physics.id, role: 'user', content: 'Explain Newton laws of motion' });
+      await storage.createMessage({ chatSessionId: notes.id, role: 'user', content: 'Summarize the motion chapter' });
+      await storage.createMessage({ chatSessionId: other.id, role: 'user', content: 'Newton laws again' });
+
+      const all = await storage.searchMessages(asha.id, 'motion');
+      expect(all.map(hit => hit.session.id).sort()).toEqual([physics.id, notes.id].sort());
+
+      const tutorOnly = await storage.searchMessages(asha.id, 'motion', { mode: 'tutor' });
+      expect(tutorOnly.map(hit => hit.session.id)).toEqual([physics.id]);
+
+      const bySubject = await storage.searchMessages(asha.id, 'motion', { subject: 'Chemistry' });
+      expect(bySubject.map(hit => hit.session.id)).toEqual([notes.id]);
+
+      expect(await storage.searchMessages(asha.id, 'newton motion')).toHaveLength(1);
+      expect(await storage.searchMessages(asha.id, 'motion', { from: new Date(Date.now() + 60000) })).toEqual([]);
+      expect(await storage.searchMessages(asha.id, 'motion', { before: new Date(Date.now() + 60000) })).toHaveLength(2);
+      expect(await storage.searchMessages(asha.id, 'motion', { before: new Date(Date.now() - 60000) })).toEqual([]);
+      expect(await storage.searchMessages(asha.id, 'motion', { limit: 1 })).toHaveLength(1);
+    });
+  });
+
+  describe('documents, collections and ingestion jobs', () => {
+    it('creates documents as processing and finds them by status', async () => {
+      const user = await createUser();
+      const document = await storage.createDocument({ userId: user.id, title: 'Notes', type: 'pdf' });
+      expect(document.status).toBe('processing');
+
+      await storage.updateDocument(document.id, { status: 'ready' });
+      expect(await storage.getDocumentsByStatus('ready')).toHaveLength(1);
+      expect(await storage.getDocumentsByStatus('processing')).toEqual([]);
+      expect(await storage.getDocumentsByUser(user.id)).toHaveLength(1);
+    });
+
+    it('deletes a document with its jobs, chunks and collection entries', async () => {
+      const user = await createUser();
+      const kept = await storage.createDocument({ userId: user.id, title: 'Kept', type: 'pdf' });
+      const removed = await storage.createDocument({ userId: user.id, title: 'Removed', type: 'pdf' });
+      const collection = await storage.createCollection({ userId: user.id, name: 'Exam', documentIds: [kept.id, removed.id] });
+      await storage.createIngestionJob({ documentId: removed.id, kind: 'file', source: {} });
+      await db.execute(sql`
+        INSERT INTO document_chunks (id, document_id, text, embedding, embedding_model, dimension)
+        VALUES ('chunk-1', ${removed.id}, 'text', '[0.1,0.2]', 'test', 2)
+      `);
+
+      expect(await storage.deleteDocument(removed.id)).toBe(true);
+      expect(await storage.deleteDocument(removed.id)).toBe(false);
+      expect(await storage.getDocument(removed.id)).toBeUndefined();
+      expect(await storage.getLatestIngestionJob(removed.id)).toBeUndefined();
+      expect((await storage.getCollection(collection.id))!.documentIds).toEqual([kept.id]);
+      expect(await db.select().from(documentChunks)).toEqual([]);
+    });
+
+    it('updates and deletes collections', async () => {
+      const user = await createUser();
+      const collection = await storage.createCollection({ userId: user.id, name: 'Exam', documentIds: [] });
+      expect(collection.documentIds).toEqual([]);
+
+      const renamed = await storage.updateCollection(collection.id, { name: 'Finals' });
+      expect(renamed!.name).toBe('Finals');
+      expect(await storage.getCollectionsByUser(user.id)).toHaveLength(1);
+      expect(await storage.deleteCollection(collection.id)).toBe(true);
+      expect(await storage.getCollection(collection.id)).toBeUndefined();
+    });
+
+    it('returns the latest job of a document and jobs by status', async () => {
+      const user = await createUser();
+      const document = await storage.createDocument({ userId: user.id, title: 'Notes', type: 'url' });
+      const first = await storage.createIngestionJob({ documentId: document.id, kind: 'url', source: { url: 'https://example.com' } });
+      await tick();
+      const second = await storage.createIngestionJob({ documentId: document.id, kind: 'url', source: { url: 'https://example.com' } });
+      expect(first.status).toBe('queued');
+
+      expect((await storage.getLatestIngestionJob(document.id))!.id).toBe(second.id);
+      await storage.updateIngestionJob(first.id, { status: 'failed', error: 'Timed out' });
+      expect((await storage.getIngestionJobsByStatus(['failed'])).map(job => job.id)).toEqual([first.id]);
+      expect(await storage.getIngestionJobsByStatus(['queued', 'running'])).toHaveLength(1);
+      expect(await storage.getIngestionJobsByStatus([])).toEqual([]);
+      expect((await storage.getIngestionJob(first.id))!.error).toBe('Timed out');
+    });
+
+    it('moves a job on only from the expected status', async () => {
+      const user = await createUser();
+      const document = await storage.createDocument({ userId: user.id, title: 'Notes', type: 'url' });
+      const job = await storage.createIngestionJob({ documentId: document.id, kind: 'url', source: { url: 'https://example.com' } });
+
+      expect((await storage.transitionIngestionJob(job.id, 'queued', { status: 'running' }))!.status).toBe('running');
+      expect(await storage.transitionIngestionJob(job.id, 'queued', { status: 'cancelled' })).toBeUndefined();
+      expect((await storage.getIngestionJob(job.id))!.status).toBe('running');
+    });
+  });
+
+  describe('quizzes, plans, notes and flashcards', () => {
+    it('stamps quiz attempts when they are completed', async () => {
+      const user = await createUser();
+      const quiz = await storage.createQuiz({ userId: user.id, title: 'Motion', questions: [] });
+      expect(await storage.getQuizzesByUser(user.id)).toHaveLength(1);
+
+      const attempt = await storage.createQuizAttempt({ quizId: quiz.id, userId: user.id, answers: {} });
+      expect(attempt.completedAt).toBeNull();
+      const completed = await storage.updateQuizAttempt(attempt.id, { completed: true, score: 3 });
+      expect(completed!.completedAt).toBeInstanceOf(Date);
+      expect(await storage.getQuizAttemptsByUser(user.id)).toHaveLength(1);
+    });
+
+    it('stores study plans, notes and flashcards', async () => {
+      const user = await createUser();
+      const plan = await storage.createStudyPlan({ userId: user.id, title: 'JEE', subjects: ['Physics'], schedule: [] });
+      expect(plan.preferences).toEqual({});
+      expect((await storage.updateStudyPlan(plan.id, { status: 'completed' }))!.status).toBe('completed');
+      expect(await storage.getStudyPlansByUser(user.id)).toHaveLength(1);
+
+      const note = await storage.createNote({ userId: user.id, title: 'Forces', content: { bigIdea: 'F = ma' } });
+      expect((await storage.updateNote(note.id, { title: 'Newton' }))!.title).toBe('Newton');
+      expect(await storage.getNotesByUser(user.id)).toHaveLength(1);
+
+      const card = await storage.createFlashcard({ userId: user.id, noteId: note.id, front: 'F?', back: 'ma' });
+      expect(card).toMatchObject({ difficulty: 2.5, interval: 1 });
+      expect((await storage.updateFlashcard(card.id, { interval: 3 }))!.interval).toBe(3);
+      expect(await storage.getFlashcardsByNote(note.id)).toHaveLength(1);
+      expect(await storage.getFlashcardsByUser(user.id)).toHaveLength(1);
+      expect(await storage.getFlashcard(card.id)).toBeDefined();
+    });
+  });
+});
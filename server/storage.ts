@@ -7,11 +7,36 @@ import {
   type QuizAttempt, type InsertQuizAttempt,
   type StudyPlan, type InsertStudyPlan,
   type Note, type InsertNote,
-  type Flashcard, type InsertFlashcard
+  type Flashcard, type InsertFlashcard,
+  type IngestionJob, type InsertIngestionJob,
+  type Collection, type InsertCollection,
+  users, chatSessions, messages, documents, quizzes, quizAttempts,
+  studyPlans, notes, flashcards, ingestionJobs, collections
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { isDeepStrictEqual } from "util";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { sharedDatabase, type Database } from "./db";
+import { searchTerms, searchWords } from "@shared/search";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Narrows searchMessages by session mode and subject and by message date
+export interface MessageSearchFilters {
+  mode?: string;
+  subject?: string;
+  from?: Date;
+  before?: Date; // exclusive
+  limit?: number;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -25,13 +50,40 @@ export interface IStorage {
 
   // Messages
   createMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined>;
+  // Replaces the metadata only while it still equals `expected`, so of two
+  // writers that read the same metadata one wins; undefined for the other
+  updateMessageMetadata(id: string, expected: unknown, metadata: unknown): Promise<Message | undefined>;
+  // Every branch of the session, oldest first
   getMessagesByChatSession(chatSessionId: string): Promise<Message[]>;
+  // Full-text search over a user's messages, best matches first
+  searchMessages(userId: string, query: string, filters?: MessageSearchFilters): Promise<Array<{ message: Message; session: ChatSession }>>;
 
   // Documents
   createDocument(document: InsertDocument): Promise<Document>;
   getDocument(id: string): Promise<Document | undefined>;
   getDocumentsByUser(userId: string): Promise<Document[]>;
+  getDocumentsByStatus(status: string): Promise<Document[]>;
   updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined>;
+  // Also removes the document's ingestion jobs and its id from collections
+  deleteDocument(id: string): Promise<boolean>;
+
+  // Collections
+  createCollection(collection: InsertCollection): Promise<Collection>;
+  getCollection(id: string): Promise<Collection | undefined>;
+  getCollectionsByUser(userId: string): Promise<Collection[]>;
+  updateCollection(id: string, updates: Partial<Collection>): Promise<Collection | undefined>;
+  deleteCollection(id: string): Promise<boolean>;
+
+  // Ingestion Jobs
+  createIngestionJob(job: InsertIngestionJob): Promise<IngestionJob>;
+  getIngestionJob(id: string): Promise<IngestionJob | undefined>;
+  getLatestIngestionJob(documentId: string): Promise<IngestionJob | undefined>;
+  getIngestionJobsByStatus(statuses: string[]): Promise<IngestionJob[]>;
+  updateIngestionJob(id: string, updates: Partial<IngestionJob>): Promise<IngestionJob | undefined>;
+  // Updates the job only while its status is still `from`, in one write, so
+  // of a pump starting a queued job and a cancel one wins; undefined for the other
+  transitionIngestionJob(id: string, from: string, updates: Partial<IngestionJob>): Promise<IngestionJob | undefined>;
 
   // Quizzes
   createQuiz(quiz: InsertQuiz): Promise<Quiz>;
@@ -65,10 +117,15 @@ export interface IStorage {
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({
+    checkPeriod: 24 * 60 * 60 * 1000 // prune expired entries every 24h
+  });
   private users: Map<string, User> = new Map();
   private chatSessions: Map<string, ChatSession> = new Map();
   private messages: Map<string, Message> = new Map();
   private documents: Map<string, Document> = new Map();
+  private ingestionJobs: Map<string, IngestionJob> = new Map();
+  private collections: Map<string, Collection> = new Map();
   private quizzes: Map<string, Quiz> = new Map();
   private quizAttempts: Map<string, QuizAttempt> = new Map();
   private studyPlans: Map<string, StudyPlan> = new Map();
@@ -105,11 +162,14 @@ export class MemStorage implements IStorage {
       ...insertSession,
       id,
       userId: insertSession.userId ?? null,
+      title: insertSession.title ?? null,
+      summary: insertSession.summary ?? null,
       subject: insertSession.subject ?? null,
       level: insertSession.level ?? null,
       topic: insertSession.topic ?? null,
       language: insertSession.language ?? null,
       status: 'active',
+      activeLeafId: null,
       metadata: insertSession.metadata ?? {},
       createdAt: new Date(),
       updatedAt: new Date()
@@ -142,6 +202,7 @@ export class MemStorage implements IStorage {
       ...insertMessage,
       id,
       chatSessionId: insertMessage.chatSessionId ?? null,
+      parentId: insertMessage.parentId ?? null,
       metadata: insertMessage.metadata ?? {},
       createdAt: new Date()
     };
@@ -149,12 +210,57 @@ export class MemStorage implements IStorage {
     return message;
   }
 
+  async updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    const updatedMessage = { ...message, ...updates };
+    this.messages.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
+  async updateMessageMetadata(id: string, expected: unknown, metadata: unknown): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message || !isDeepStrictEqual(message.metadata ?? null, expected ?? null)) return undefined;
+
+    const updatedMessage = { ...message, metadata };
+    this.messages.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
   async getMessagesByChatSession(chatSessionId: string): Promise<Message[]> {
     return Array.from(this.messages.values())
       .filter(message => message.chatSessionId === chatSessionId)
       .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
   }
 
+  // Every query word must appear as a word of the message; messages using
+  // the words more often rank first
+  async searchMessages(userId: string, query: string, filters: MessageSearchFilters = {}): Promise<Array<{ message: Message; session: ChatSession }>> {
+    const terms = searchTerms(query);
+    if (terms.length === 0) return [];
+
+    const hits: Array<{ message: Message; session: ChatSession; rank: number }> = [];
+    for (const message of Array.from(this.messages.values())) {
+      const session = message.chatSessionId ? this.chatSessions.get(message.chatSessionId) : undefined;
+      if (!session || session.userId !== userId) continue;
+      if (filters.mode && session.mode !== filters.mode) continue;
+      if (filters.subject && session.subject !== filters.subject) continue;
+      if (filters.from && (!message.createdAt || message.createdAt < filters.from)) continue;
+      if (filters.before && (!message.createdAt || message.createdAt >= filters.before)) continue;
+
+      const words = searchWords(message.content);
+      const counts = terms.map(term => words.filter(word => word === term).length);
+      if (counts.some(count => count === 0)) continue;
+      hits.push({ message, session, rank: counts.reduce((sum, count) => sum + count, 0) });
+    }
+
+    return hits
+      .sort((a, b) => b.rank - a.rank || (b.message.createdAt?.getTime() || 0) - (a.message.createdAt?.getTime() || 0))
+      .slice(0, filters.limit ?? 20)
+      .map(({ message, session }) => ({ message, session }));
+  }
+
   // Documents
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
     const id = randomUUID();
@@ -181,6 +287,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.documents.values()).filter(doc => doc.userId === userId);
   }
 
+  async getDocumentsByStatus(status: string): Promise<Document[]> {
+    return Array.from(this.documents.values()).filter(doc => doc.status === status);
+  }
+
   async updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined> {
     const document = this.documents.get(id);
     if (!document) return undefined;
@@ -190,6 +300,109 @@ export class MemStorage implements IStorage {
     return updatedDocument;
   }
 
+  async deleteDocument(id: string): Promise<boolean> {
+    if (!this.documents.delete(id)) return false;
+
+    Array.from(this.ingestionJobs.values())
+      .filter(job => job.documentId === id)
+      .forEach(job => this.ingestionJobs.delete(job.id));
+    Array.from(this.collections.values())
+      .filter(collection => collection.documentIds.includes(id))
+      .forEach(collection => this.collections.set(collection.id, {
+        ...collection,
+        documentIds: collection.documentIds.filter(documentId => documentId !== id),
+        updatedAt: new Date()
+      }));
+    return true;
+  }
+
+  // Collections
+  async createCollection(insertCollection: InsertCollection): Promise<Collection> {
+    const id = randomUUID();
+    const collection: Collection = {
+      ...insertCollection,
+      id,
+      userId: insertCollection.userId ?? null,
+      description: insertCollection.description ?? null,
+      documentIds: insertCollection.documentIds ?? [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.collections.set(id, collection);
+    return collection;
+  }
+
+  async getCollection(id: string): Promise<Collection | undefined> {
+    return this.collections.get(id);
+  }
+
+  async getCollectionsByUser(userId: string): Promise<Collection[]> {
+    return Array.from(this.collections.values()).filter(collection => collection.userId === userId);
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection | undefined> {
+    const collection = this.collections.get(id);
+    if (!collection) return undefined;
+
+    const updatedCollection = { ...collection, ...updates, updatedAt: new Date() };
+    this.collections.set(id, updatedCollection);
+    return updatedCollection;
+  }
+
+  async deleteCollection(id: string): Promise<boolean> {
+    return this.collections.delete(id);
+  }
+
+  // Ingestion Jobs
+  async createIngestionJob(insertJob: InsertIngestionJob): Promise<IngestionJob> {
+    const id = randomUUID();
+    const now = new Date();
+    const job: IngestionJob = {
+      ...insertJob,
+      id,
+      userId: insertJob.userId ?? null,
+      status: insertJob.status ?? 'queued',
+      stage: insertJob.stage ?? null,
+      progress: insertJob.progress ?? 0,
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      error: insertJob.error ?? null,
+      runAfter: insertJob.runAfter ?? now,
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: null
+    };
+    this.ingestionJobs.set(id, job);
+    return job;
+  }
+
+  async getIngestionJob(id: string): Promise<IngestionJob | undefined> {
+    return this.ingestionJobs.get(id);
+  }
+
+  async getLatestIngestionJob(documentId: string): Promise<IngestionJob | undefined> {
+    // Maps iterate in insertion order, so the last match is the newest job
+    return Array.from(this.ingestionJobs.values()).filter(job => job.documentId === documentId).pop();
+  }
+
+  async getIngestionJobsByStatus(statuses: string[]): Promise<IngestionJob[]> {
+    return Array.from(this.ingestionJobs.values()).filter(job => statuses.includes(job.status));
+  }
+
+  async updateIngestionJob(id: string, updates: Partial<IngestionJob>): Promise<IngestionJob | undefined> {
+    const job = this.ingestionJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates, updatedAt: new Date() };
+    this.ingestionJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async transitionIngestionJob(id: string, from: string, updates: Partial<IngestionJob>): Promise<IngestionJob | undefined> {
+    if (this.ingestionJobs.get(id)?.status !== from) return undefined;
+    return this.updateIngestionJob(id, updates);
+  }
+
   // Quizzes
   async createQuiz(insertQuiz: InsertQuiz): Promise<Quiz> {
     const id = randomUUID();
@@ -364,4 +577,381 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Chat Sessions
+  async createChatSession(insertSession: InsertChatSession): Promise<ChatSession> {
+    const [session] = await this.db.insert(chatSessions).values({
+      ...insertSession,
+      metadata: insertSession.metadata ?? {}
+    }).returning();
+    return session;
+  }
+
+  async getChatSession(id: string): Promise<ChatSession | undefined> {
+    const [session] = await this.db.select().from(chatSessions).where(eq(chatSessions.id, id));
+    return session;
+  }
+
+  async getChatSessionsByUser(userId: string): Promise<ChatSession[]> {
+    return this.db.select().from(chatSessions)
+      .where(eq(chatSessions.userId, userId))
+      .orderBy(asc(chatSessions.createdAt));
+  }
+
+  async updateChatSession(id: string, updates: Partial<ChatSession>): Promise<ChatSession | undefined> {
+    const [session] = await this.db.update(chatSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chatSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  // Messages
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db.insert(messages).values({
+      ...insertMessage,
+      metadata: insertMessage.metadata ?? {}
+    }).returning();
+    return message;
+  }
+
+  async updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined> {
+    const [message] = await this.db.update(messages)
+      .set(updates)
+      .where(eq(messages.id, id))
+      .returning();
+    return message;
+  }
+
+  async updateMessageMetadata(id: string, expected: unknown, metadata: unknown): Promise<Message | undefined> {
+    const [message] = await this.db.update(messages)
+      .set({ metadata })
+      .where(and(
+        eq(messages.id, id),
+        expected == null ? isNull(messages.metadata) : sql`${messages.metadata} = ${JSON.stringify(expected)}::jsonb`
+      ))
+      .returning();
+    return message;
+  }
+
+  async getMessagesByChatSession(chatSessionId: string): Promise<Message[]> {
+    return this.db.select().from(messages)
+      .where(eq(messages.chatSessionId, chatSessionId))
+      .orderBy(asc(messages.createdAt));
+  }
+
+  // Uses messages_content_search_idx; ranked by ts_rank, then newest first
+  async searchMessages(userId: string, query: string, filters: MessageSearchFilters = {}): Promise<Array<{ message: Message; session: ChatSession }>> {
+    const document = sql`to_tsvector('simple', ${messages.content})`;
+    const tsQuery = sql`plainto_tsquery('simple', ${query})`;
+
+    const conditions: SQL[] = [eq(chatSessions.userId, userId), sql`${document} @@ ${tsQuery}`];
+    if (filters.mode) conditions.push(eq(chatSessions.mode, filters.mode));
+    if (filters.subject) conditions.push(eq(chatSessions.subject, filters.subject));
+    if (filters.from) conditions.push(gte(messages.createdAt, filters.from));
+    if (filters.before) conditions.push(lt(messages.createdAt, filters.before));
+
+    return this.db.select({ message: messages, session: chatSessions })
+      .from(messages)
+      .innerJoin(chatSessions, eq(messages.chatSessionId, chatSessions.id))
+      .where(and(...conditions))
+      .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), desc(messages.createdAt))
+      .limit(filters.limit ?? 20);
+  }
+
+  // Documents
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    const [document] = await this.db.insert(documents).values({
+      ...insertDocument,
+      status: 'processing',
+      metadata: insertDocument.metadata ?? {}
+    }).returning();
+    return document;
+  }
+
+  async getDocument(id: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByUser(userId: string): Promise<Document[]> {
+    return this.db.select().from(documents)
+      .where(eq(documents.userId, userId))
+      .orderBy(asc(documents.createdAt));
+  }
+
+  async getDocumentsByStatus(status: string): Promise<Document[]> {
+    return this.db.select().from(documents)
+      .where(eq(documents.status, status))
+      .orderBy(asc(documents.createdAt));
+  }
+
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined> {
+    const [document] = await this.db.update(documents)
+      .set(updates)
+      .where(eq(documents.id, id))
+      .returning();
+    return document;
+  }
+
+  // Chunks and ingestion jobs go with the row (ON DELETE CASCADE);
+  // collections hold plain ids and are updated here
+  async deleteDocument(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.update(collections)
+        .set({
+          documentIds: sql`${collections.documentIds} - ${id}::text`,
+          updatedAt: new Date()
+        })
+        .where(sql`${collections.documentIds} @> jsonb_build_array(${id}::text)`);
+      const deleted = await tx.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Collections
+  async createCollection(insertCollection: InsertCollection): Promise<Collection> {
+    const [collection] = await this.db.insert(collections).values(insertCollection).returning();
+    return collection;
+  }
+
+  async getCollection(id: string): Promise<Collection | undefined> {
+    const [collection] = await this.db.select().from(collections).where(eq(collections.id, id));
+    return collection;
+  }
+
+  async getCollectionsByUser(userId: string): Promise<Collection[]> {
+    return this.db.select().from(collections)
+      .where(eq(collections.userId, userId))
+      .orderBy(asc(collections.createdAt));
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection | undefined> {
+    const [collection] = await this.db.update(collections)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(collections.id, id))
+      .returning();
+    return collection;
+  }
+
+  async deleteCollection(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(collections).where(eq(collections.id, id)).returning({ id: collections.id });
+    return deleted.length > 0;
+  }
+
+  // Ingestion Jobs
+  async createIngestionJob(insertJob: InsertIngestionJob): Promise<IngestionJob> {
+    const [job] = await this.db.insert(ingestionJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getIngestionJob(id: string): Promise<IngestionJob | undefined> {
+    const [job] = await this.db.select().from(ingestionJobs).where(eq(ingestionJobs.id, id));
+    return job;
+  }
+
+  async getLatestIngestionJob(documentId: string): Promise<IngestionJob | undefined> {
+    const [job] = await this.db.select().from(ingestionJobs)
+      .where(eq(ingestionJobs.documentId, documentId))
+      .orderBy(desc(ingestionJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async getIngestionJobsByStatus(statuses: string[]): Promise<IngestionJob[]> {
+    if (statuses.length === 0) return [];
+    return this.db.select().from(ingestionJobs)
+      .where(inArray(ingestionJobs.status, statuses))
+      .orderBy(asc(ingestionJobs.createdAt));
+  }
+
+  async updateIngestionJob(id: string, updates: Partial<IngestionJob>): Promise<IngestionJob | undefined> {
+    const [job] = await this.db.update(ingestionJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(ingestionJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async transitionIngestionJob(id: string, from: string, updates: Partial<IngestionJob>): Promise<IngestionJob | undefined> {
+    const [job] = await this.db.update(ingestionJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(ingestionJobs.id, id), eq(ingestionJobs.status, from)))
+      .returning();
+    return job;
+  }
+
+  // Quizzes
+  async createQuiz(insertQuiz: InsertQuiz): Promise<Quiz> {
+    const [quiz] = await this.db.insert(quizzes).values({
+      ...insertQuiz,
+      metadata: insertQuiz.metadata ?? {}
+    }).returning();
+    return quiz;
+  }
+
+  async getQuiz(id: string): Promise<Quiz | undefined> {
+    const [quiz] = await this.db.select().from(quizzes).where(eq(quizzes.id, id));
+    return quiz;
+  }
+
+  async getQuizzesByUser(userId: string): Promise<Quiz[]> {
+    return this.db.select().from(quizzes)
+      .where(eq(quizzes.userId, userId))
+      .orderBy(asc(quizzes.createdAt));
+  }
+
+  // Quiz Attempts
+  async createQuizAttempt(insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const [attempt] = await this.db.insert(quizAttempts).values({
+      ...insertAttempt,
+      completedAt: insertAttempt.completed ? new Date() : null
+    }).returning();
+    return attempt;
+  }
+
+  async getQuizAttempt(id: string): Promise<QuizAttempt | undefined> {
+    const [attempt] = await this.db.select().from(quizAttempts).where(eq(quizAttempts.id, id));
+    return attempt;
+  }
+
+  async getQuizAttemptsByUser(userId: string): Promise<QuizAttempt[]> {
+    return this.db.select().from(quizAttempts)
+      .where(eq(quizAttempts.userId, userId))
+      .orderBy(asc(quizAttempts.createdAt));
+  }
+
+  async updateQuizAttempt(id: string, updates: Partial<QuizAttempt>): Promise<QuizAttempt | undefined> {
+    const [attempt] = await this.db.update(quizAttempts)
+      .set(updates.completed ? { ...updates, completedAt: new Date() } : updates)
+      .where(eq(quizAttempts.id, id))
+      .returning();
+    return attempt;
+  }
+
+  // Study Plans
+  async createStudyPlan(insertPlan: InsertStudyPlan): Promise<StudyPlan> {
+    const [plan] = await this.db.insert(studyPlans).values({
+      ...insertPlan,
+      preferences: insertPlan.preferences ?? {}
+    }).returning();
+    return plan;
+  }
+
+  async getStudyPlan(id: string): Promise<StudyPlan | undefined> {
+    const [plan] = await this.db.select().from(studyPlans).where(eq(studyPlans.id, id));
+    return plan;
+  }
+
+  async getStudyPlansByUser(userId: string): Promise<StudyPlan[]> {
+    return this.db.select().from(studyPlans)
+      .where(eq(studyPlans.userId, userId))
+      .orderBy(asc(studyPlans.createdAt));
+  }
+
+  async updateStudyPlan(id: string, updates: Partial<StudyPlan>): Promise<StudyPlan | undefined> {
+    const [plan] = await this.db.update(studyPlans)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(studyPlans.id, id))
+      .returning();
+    return plan;
+  }
+
+  // Notes
+  async createNote(insertNote: InsertNote): Promise<Note> {
+    const [note] = await this.db.insert(notes).values({
+      ...insertNote,
+      sources: insertNote.sources ?? {},
+      flashcards: insertNote.flashcards ?? {},
+      tags: insertNote.tags ?? {}
+    }).returning();
+    return note;
+  }
+
+  async getNote(id: string): Promise<Note | undefined> {
+    const [note] = await this.db.select().from(notes).where(eq(notes.id, id));
+    return note;
+  }
+
+  async getNotesByUser(userId: string): Promise<Note[]> {
+    return this.db.select().from(notes)
+      .where(eq(notes.userId, userId))
+      .orderBy(asc(notes.createdAt));
+  }
+
+  async updateNote(id: string, updates: Partial<Note>): Promise<Note | undefined> {
+    const [note] = await this.db.update(notes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(notes.id, id))
+      .returning();
+    return note;
+  }
+
+  // Flashcards
+  async createFlashcard(insertFlashcard: InsertFlashcard): Promise<Flashcard> {
+    const [flashcard] = await this.db.insert(flashcards).values({
+      ...insertFlashcard,
+      difficulty: 2.5, // SM-2 default ease factor
+      interval: 1
+    }).returning();
+    return flashcard;
+  }
+
+  async getFlashcard(id: string): Promise<Flashcard | undefined> {
+    const [flashcard] = await this.db.select().from(flashcards).where(eq(flashcards.id, id));
+    return flashcard;
+  }
+
+  async getFlashcardsByUser(userId: string): Promise<Flashcard[]> {
+    return this.db.select().from(flashcards)
+      .where(eq(flashcards.userId, userId))
+      .orderBy(asc(flashcards.createdAt));
+  }
+
+  async getFlashcardsByNote(noteId: string): Promise<Flashcard[]> {
+    return this.db.select().from(flashcards)
+      .where(eq(flashcards.noteId, noteId))
+      .orderBy(asc(flashcards.createdAt));
+  }
+
+  async updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard | undefined> {
+    const [flashcard] = await this.db.update(flashcards)
+      .set(updates)
+      .where(eq(flashcards.id, id))
+      .returning();
+    return flashcard;
+  }
+}
+
+// STORAGE_BACKEND=memory forces the in-memory store; otherwise Postgres is
+// used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? 'database' : 'memory');
+
+  if (backend === 'memory') {
+    return new MemStorage();
+  }
+
+  const { db, pool } = sharedDatabase();
+  return new DatabaseStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }));
+}
+
+export const storage = createStorage();
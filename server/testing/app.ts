@@ -0,0 +1,112 @@
+// The API served over HTTP the way server/index.ts serves it, but offline:
+// in-memory storage, scripted FakeLLMProviders and a file vector store in a
+// temporary directory.
+
+import express from 'express';
+import { mkdtempSync, rmSync } from 'fs';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { FakeLLMProvider, type FakeLLMScript } from '../services/llm';
+import { FileVectorStore } from '../services/vector-store';
+
+export interface TestClient {
+  // fetch() against the app that keeps the session cookie between calls
+  request(path: string, init?: RequestInit): Promise<Response>;
+  // POSTs JSON and returns the parsed response body
+  post<T = unknown>(path: string, body: unknown): Promise<{ status: number; body: T }>;
+  signUp(username?: string): Promise<void>;
+}
+
+export interface TestApp extends TestClient {
+  baseUrl: string;
+  // Another browser: a client with its own session cookie
+  newClient(): TestClient;
+  close(): Promise<void>;
+}
+
+export interface SSEEvent {
+  id?: string;
+  type: string;
+  data?: unknown;
+  message?: string;
+}
+
+export async function startTestApp(
+  scripts: { primary?: FakeLLMScript; secondary?: FakeLLMScript } = {}
+): Promise<TestApp> {
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), 'vakta-test-'));
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.UPLOAD_DIR = path.join(dataDir, 'uploads');
+  process.env.SESSION_SECRET = 'test-secret';
+
+  // Imported late so the storage singleton sees the environment above
+  const { registerRoutes } = await import('../routes');
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app, {
+    providers: {
+      primary: new FakeLLMProvider(scripts.primary, 'fake-primary'),
+      secondary: new FakeLLMProvider(scripts.secondary, 'fake-secondary')
+    },
+    vectorStore: new FileVectorStore(path.join(dataDir, 'vectors'))
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    ...createClient(baseUrl),
+    newClient: () => createClient(baseUrl),
+    async close() {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+}
+
+function createClient(baseUrl: string): TestClient {
+  let cookie = '';
+  const request = async (requestPath: string, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    if (cookie) headers.set('Cookie', cookie);
+    const response = await fetch(`${baseUrl}${requestPath}`, { ...init, headers });
+    const setCookie = response.headers.getSetCookie();
+    if (setCookie.length > 0) cookie = setCookie.map(value => value.split(';')[0]).join('; ');
+    return response;
+  };
+
+  const post = async <T>(requestPath: string, body: unknown) => {
+    const response = await request(requestPath, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const text = await response.text();
+    return { status: response.status, body: (text ? JSON.parse(text) : undefined) as T };
+  };
+
+  return {
+    request,
+    post,
+    async signUp(username = `student${Date.now()}`) {
+      const { status } = await post('/api/auth/signup', { username, password: 'password123', name: 'Asha' });
+      if (status !== 201) throw new Error(`Sign-up failed with ${status}`);
+    }
+  };
+}
+
+// Reads a whole event stream, until the server ends it
+export async function readEvents(response: Response): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  for (const frame of (await response.text()).split('\n\n')) {
+    const lines = frame.split('\n');
+    const data = lines.find(line => line.startsWith('data: '));
+    if (!data) continue;
+    const id = lines.find(line => line.startsWith('id: '));
+    events.push({ ...(id ? { id: id.slice(4) } : {}), ...JSON.parse(data.slice(6)) });
+  }
+  return events;
+}
@@ -0,0 +1,44 @@
+// Databases for tests: an in-process Postgres (PGlite, with pgvector) set up
+// by the SQL files in migrations/, applied in journal order the way
+// `drizzle-kit migrate` applies them.
+
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/vector';
+import { drizzle } from 'drizzle-orm/pglite';
+import { readFileSync } from 'fs';
+import path from 'path';
+import * as schema from '@shared/schema';
+import type { Database } from '../db';
+
+const MIGRATIONS_DIR = path.resolve(import.meta.dirname, '../../migrations');
+
+export function migrationTags(): string[] {
+  const journal = JSON.parse(readFileSync(path.join(MIGRATIONS_DIR, 'meta/_journal.json'), 'utf8')) as {
+    entries: Array<{ tag: string }>;
+  };
+  return journal.entries.map(entry => entry.tag);
+}
+
+// Applies the migrations after `after` (from the first when omitted) up to
+// and including `through` (to the last when omitted)
+export async function applyMigrations(client: PGlite, range: { after?: string; through?: string } = {}): Promise<void> {
+  const tags = migrationTags();
+  const start = range.after ? tags.indexOf(range.after) + 1 : 0;
+  const end = range.through ? tags.indexOf(range.through) + 1 : tags.length;
+  for (const tag of tags.slice(start, end)) {
+    const migration = readFileSync(path.join(MIGRATIONS_DIR, `${tag}.sql`), 'utf8');
+    for (const statement of migration.split('--> statement-breakpoint')) {
+      if (statement.trim()) await client.exec(statement);
+    }
+  }
+}
+
+export function createTestClient(): PGlite {
+  return new PGlite({ extensions: { vector } });
+}
+
+export async function createTestDatabase(): Promise<{ client: PGlite; db: Database }> {
+  const client = createTestClient();
+  await applyMigrations(client);
+  return { client, db: drizzle(client, { schema }) };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { activeLeafId, branchPath, latestLeafUnder, listBranches, withSiblings } from './branches';
+
+// q1 -> r1 -> q2 -> r2, with q2 edited into q2b -> r2b, and r2b regenerated as r2c
+const at = (minute: number) => new Date(Date.UTC(2026, 9, 19, 10, minute));
+const MESSAGES = [
+  { id: 'q1', parentId: null, role: 'user', content: 'Inertia?', createdAt: at(0) },
+  { id: 'r1', parentId: 'q1', role: 'assistant', content: 'Resistance to change.', createdAt: at(1) },
+  { id: 'q2', parentId: 'r1', role: 'user', content: 'Momentum?', createdAt: at(2) },
+  { id: 'r2', parentId: 'q2', role: 'assistant', content: 'p = mv', createdAt: at(3) },
+  { id: 'q2b', parentId: 'r1', role: 'user', content: 'Impulse?', createdAt: at(4) },
+  { id: 'r2b', parentId: 'q2b', role: 'assistant', content: 'J = FΔt', createdAt: at(5) },
+  { id: 'r2c', parentId: 'q2b', role: 'assistant', content: 'Change in momentum', createdAt: at(6) }
+];
+
+const ids = (messages: Array<{ id: string }>) => messages.map(message => message.id);
+
+describe('branches', () => {
+  it('follows parent ids from a leaf back to the root', () => {
+    expect(ids(branchPath(MESSAGES, 'r2b'))).toEqual(['q1', 'r1', 'q2b', 'r2b']);
+    expect(branchPath(MESSAGES, 'missing')).toEqual([]);
+    expect(branchPath(MESSAGES, null)).toEqual([]);
+  });
+
+  it('stops at a parent cycle instead of looping', () => {
+    const looped = [{ id: 'a', parentId: 'b' }, { id: 'b', parentId: 'a' }];
+    expect(ids(branchPath(looped, 'a'))).toEqual(['b', 'a']);
+  });
+
+  it('shows the stored leaf while it exists, else the newest message', () => {
+    expect(activeLeafId(MESSAGES, 'r2')).toBe('r2');
+    expect(activeLeafId(MESSAGES, 'deleted')).toBe('r2c');
+    expect(activeLeafId([], null)).toBeNull();
+  });
+
+  it('resumes a branch at its newest leaf', () => {
+    expect(latestLeafUnder(MESSAGES, 'q2')).toBe('r2');
+    expect(latestLeafUnder(MESSAGES, 'q2b')).toBe('r2c');
+    expect(latestLeafUnder(MESSAGES, 'missing')).toBeNull();
+  });
+
+  it('lists alternatives and leaves', () => {
+    expect(withSiblings(MESSAGES, branchPath(MESSAGES, 'r2c')).map(message => message.siblingIds))
+      .toEqual([['q1'], ['r1'], ['q2', 'q2b'], ['r2b', 'r2c']]);
+    expect(listBranches(MESSAGES)).toEqual([
+      { leafId: 'r2c', length: 4, question: 'Impulse?', createdAt: '2026-10-19T10:06:00.000Z' },
+      { leafId: 'r2b', length: 4, question: 'Impulse?', createdAt: '2026-10-19T10:05:00.000Z' },
+      { leafId: 'r2', length: 4, question: 'Momentum?', createdAt: '2026-10-19T10:03:00.000Z' }
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+// Conversation branches. Messages form a tree through `parentId`: editing a
+// question or regenerating a reply adds a sibling of the old message rather
+// than replacing it. A session shows one path through the tree, from a root
+// message down to its active leaf.
+//
+// Functions take all of a session's messages oldest first, as storage
+// returns them, so a child always comes after its parent.
+
+export interface BranchNode {
+  id: string;
+  parentId: string | null;
+}
+
+// A message on the shown path with the ids of its alternatives (messages
+// with the same parent, itself included), oldest first
+export type BranchMessage<T> = T & { siblingIds: string[] };
+
+// One leaf of the tree, for listing a session's branches
+export interface BranchSummary {
+  leafId: string;
+  length: number;        // messages from the root to the leaf
+  question: string;      // last user message on the branch
+  createdAt: string | null;
+}
+
+// The leaf to show: the stored one while it exists, else the newest message
+export function activeLeafId(messages: BranchNode[], storedLeafId: string | null | undefined): string | null {
+  if (storedLeafId && messages.some(message => message.id === storedLeafId)) return storedLeafId;
+  return messages.length > 0 ? messages[messages.length - 1].id : null;
+}
+
+// Messages from the root down to `leafId`; empty when it is null or unknown
+export function branchPath<T extends BranchNode>(messages: T[], leafId: string | null): T[] {
+  const byId = new Map(messages.map(message => [message.id, message] as [string, T]));
+  const path: T[] = [];
+  const seen = new Set<string>();
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+// The newest message at or below `messageId`, i.e. the leaf last written on
+// that branch. Switching to a sibling resumes where that branch left off.
+export function latestLeafUnder(messages: BranchNode[], messageId: string): string | null {
+  const subtree = new Set<string>();
+  let latest: string | null = null;
+  for (const message of messages) {
+    if (message.id === messageId || (message.parentId && subtree.has(message.parentId))) {
+      subtree.add(message.id);
+      latest = message.id;
+    }
+  }
+  return latest;
+}
+
+export function siblingIds(messages: BranchNode[], message: BranchNode): string[] {
+  return messages
+    .filter(candidate => candidate.parentId === message.parentId)
+    .map(candidate => candidate.id);
+}
+
+export function withSiblings<T extends BranchNode>(messages: BranchNode[], path: T[]): Array<BranchMessage<T>> {
+  return path.map(message => ({ ...message, siblingIds: siblingIds(messages, message) }));
+}
+
+// Every leaf of the tree with the path leading to it, newest first
+export function listBranches<T extends BranchNode & { role: string; content: string; createdAt: Date | null }>(
+  messages: T[]
+): BranchSummary[] {
+  const parents = new Set(messages.map(message => message.parentId));
+  return messages
+    .filter(message => !parents.has(message.id))
+    .map(leaf => {
+      const path = branchPath(messages, leaf.id);
+      const question = path.filter(message => message.role === 'user').pop();
+      return {
+        leafId: leaf.id,
+        length: path.length,
+        question: question ? question.content.slice(0, 120) : '',
+        createdAt: leaf.createdAt ? leaf.createdAt.toISOString() : null
+      };
+    })
+    .reverse();
+}
@@ -0,0 +1,55 @@
+import { formatTimestamp } from './media';
+
+// Where a cited chunk sits in its source. Only the fields that apply to the
+// source's format are set.
+export interface CitationLocation {
+  page?: number;
+  slide?: number;
+  chapter?: number;
+  section?: string;
+  startTime?: number; // seconds
+}
+
+// Human-readable location used in both the LLM context labels and the
+// client's citation chips: "p.4 §Friction", "slide 7", "ch. 3 §3.2 Velocity",
+// "12:05". Slides are cited by number alone since their section is the title.
+export function formatCitationLocation(location: CitationLocation): string {
+  if (location.startTime !== undefined) return formatTimestamp(location.startTime);
+  if (location.slide !== undefined) return `slide ${location.slide}`;
+
+  const parts: string[] = [];
+  if (location.chapter !== undefined) parts.push(`ch. ${location.chapter}`);
+  else if (location.page !== undefined) parts.push(`p.${location.page}`);
+  if (location.section) parts.push(`§${location.section}`);
+  return parts.join(' ');
+}
+
+// A source an answer actually cites, stored on the assistant message's
+// `metadata.citations`. `marker` is the number used as [n] in the answer.
+export interface MessageCitation extends CitationLocation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  quote: string; // the passage of the chunk the answer draws on
+  endTime?: number;
+}
+
+// How well one sentence of a DocChat answer is backed by the retrieved
+// passages. `score` is between 0 and 1; `judged` is set when an LLM judge
+// made the call instead of the overlap score.
+export interface SentenceSupport {
+  sentence: string;
+  score: number;
+  supported: boolean;
+  markers: number[]; // passages the sentence cites
+  bestMarker?: number; // passage that supports it best
+  judged?: boolean;
+}
+
+// Stored on the assistant message's `metadata.grounding`
+export interface GroundingReport {
+  sentences: SentenceSupport[];
+  unsupportedCount: number;
+  method: 'overlap' | 'judge';
+}
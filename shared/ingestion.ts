@@ -0,0 +1,34 @@
+// Ingestion job progress as streamed by the server (/api/documents/:id/events)
+// and shown in the document list.
+
+export const INGESTION_STAGES = ['extract', 'chunk', 'embed', 'index'] as const;
+
+export type IngestionStage = typeof INGESTION_STAGES[number];
+
+export type IngestionStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IngestionProgress {
+  documentId: string;
+  jobId: string;
+  status: IngestionStatus;
+  stage: IngestionStage | null;
+  progress: number;     // 0..1 within the current stage
+  attempts: number;
+  maxAttempts: number;
+  error?: string;       // last failure; set while a retry is pending too
+  retryAt?: string;     // ISO time of the next attempt after a failure
+}
+
+export const STAGE_LABELS: Record<IngestionStage, string> = {
+  extract: 'Extracting text',
+  chunk: 'Chunking',
+  embed: 'Embedding',
+  index: 'Indexing'
+};
+
+// Progress across the whole pipeline, counting every stage equally
+export function overallProgress(stage: IngestionStage | null, progress: number): number {
+  if (!stage) return 0;
+  const index = INGESTION_STAGES.indexOf(stage);
+  return (index + Math.min(Math.max(progress, 0), 1)) / INGESTION_STAGES.length;
+}
@@ -0,0 +1,33 @@
+// Helpers for video sources shared by the server (citation labels, document
+// typing) and the client (player embeds, seek links).
+
+// 75 -> "01:15", 3725 -> "1:02:05"
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+}
+
+// Video id from watch, short, embed and youtu.be links; null for anything else
+export function youtubeVideoId(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^(www|m|music)\./, '');
+  let id: string | null = null;
+  if (host === 'youtu.be') {
+    id = parsed.pathname.slice(1).split('/')[0];
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    const match = parsed.pathname.match(/^\/(?:embed|shorts|live|v)\/([^/]+)/);
+    id = match ? match[1] : parsed.searchParams.get('v');
+  }
+
+  return id && /^[\w-]{11}$/.test(id) ? id : null;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, jsonb, timestamp, boolean, index, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,11 +18,14 @@ export const chatSessions = pgTable("chat_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   mode: text("mode").notNull(), // 'tutor' | 'docchat'
+  title: text("title"),     // generated from the first turns, see server/services/session-titles.ts
+  summary: text("summary"),
   subject: text("subject"),
   level: text("level"),
   topic: text("topic"),
   language: text("language").default("en"),
   status: text("status").default("active"), // 'active' | 'completed'
+  activeLeafId: varchar("active_leaf_id"), // last message of the branch being shown, see shared/branches.ts
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -31,17 +34,22 @@ export const chatSessions = pgTable("chat_sessions", {
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   chatSessionId: varchar("chat_session_id").references(() => chatSessions.id),
+  parentId: varchar("parent_id").references((): AnyPgColumn => messages.id), // previous message; null for the first
   role: text("role").notNull(), // 'user' | 'assistant' | 'system'
   content: text("content").notNull(),
   metadata: jsonb("metadata"), // citations, tools used, etc.
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Full-text search over chat history; 'simple' keeps Hindi and Hinglish words as written
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('simple', ${table.content})`),
+  index("messages_parent_id_idx").on(table.parentId),
+]);
 
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   title: text("title").notNull(),
-  type: text("type").notNull(), // 'pdf' | 'youtube' | 'url'
+  type: text("type").notNull(), // 'pdf' | 'youtube' | 'video' | 'url'
   sourceUrl: text("source_url"),
   status: text("status").default("processing"), // 'processing' | 'ready' | 'error'
   pages: integer("pages"),
@@ -50,6 +58,18 @@ export const documents = pgTable("documents", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Named sets of documents ("Physics Ch 1-5") that DocChat sessions can
+// target through `metadata.collectionId`
+export const collections = pgTable("collections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  documentIds: jsonb("document_ids").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const quizzes = pgTable("quizzes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
@@ -108,13 +128,61 @@ export const flashcards = pgTable("flashcards", {
   noteId: varchar("note_id").references(() => notes.id),
   front: text("front").notNull(),
   back: text("back").notNull(),
-  difficulty: integer("difficulty").default(0), // SRS difficulty
+  difficulty: real("difficulty").default(2.5), // SM-2 ease factor
   interval: integer("interval").default(1), // SRS interval in days
   lastReviewed: timestamp("last_reviewed"),
   nextReview: timestamp("next_review"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// pgvector column without a fixed dimension; the dimension is stored per row
+// so indexes built with different embedding models can coexist and be detected
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return "vector";
+  },
+  toDriver(value) {
+    return `[${value.join(",")}]`;
+  },
+  fromDriver(value) {
+    return JSON.parse(value);
+  },
+});
+
+export const documentChunks = pgTable("document_chunks", {
+  id: varchar("id").primaryKey(),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  text: text("text").notNull(),
+  embedding: vector("embedding").notNull(),
+  embeddingModel: text("embedding_model").notNull(),
+  dimension: integer("dimension").notNull(),
+  metadata: jsonb("metadata"), // { source, page?, section?, timestamp? }
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("document_chunks_document_id_idx").on(table.documentId),
+]);
+
+export const ingestionJobs = pgTable("ingestion_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id),
+  kind: text("kind").notNull(), // 'file' | 'url'
+  source: jsonb("source").notNull(), // { filename?, mimeType? } for files, { url } for URLs
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  stage: text("stage"), // 'extract' | 'chunk' | 'embed' | 'index'
+  progress: real("progress").notNull().default(0), // 0..1 within the current stage
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  error: text("error"),
+  runAfter: timestamp("run_after").defaultNow(), // earliest start, pushed back between retries
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("ingestion_jobs_document_id_idx").on(table.documentId),
+  index("ingestion_jobs_status_idx").on(table.status),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -123,6 +191,7 @@ export const insertUserSchema = createInsertSchema(users).omit({
 
 export const insertChatSessionSchema = createInsertSchema(chatSessions).omit({
   id: true,
+  activeLeafId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -137,6 +206,22 @@ export const insertDocumentSchema = createInsertSchema(documents).omit({
   createdAt: true,
 });
 
+export const insertCollectionSchema = createInsertSchema(collections, {
+  name: (schema) => schema.trim().min(1).max(100),
+  documentIds: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertIngestionJobSchema = createInsertSchema(ingestionJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  finishedAt: true,
+});
+
 export const insertQuizSchema = createInsertSchema(quizzes).omit({
   id: true,
   createdAt: true,
@@ -192,3 +277,11 @@ export type InsertNote = z.infer<typeof insertNoteSchema>;
 
 export type Flashcard = typeof flashcards.$inferSelect;
 export type InsertFlashcard = z.infer<typeof insertFlashcardSchema>;
+
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+
+export type Collection = typeof collections.$inferSelect;
+export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+
+export type IngestionJob = typeof ingestionJobs.$inferSelect;
+export type InsertIngestionJob = z.infer<typeof insertIngestionJobSchema>;
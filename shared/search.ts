@@ -0,0 +1,62 @@
+// Chat history search. Terms follow Postgres' 'simple' text-search config:
+// lowercased whole words, all of which must appear in a message.
+
+// A message matching a history search, with the session it belongs to.
+// `highlights` are [start, end) offsets of the matched words in `snippet`.
+export interface MessageSearchResult {
+  messageId: string;
+  role: string;
+  createdAt: string | null;
+  session: {
+    id: string;
+    mode: string;
+    title: string | null;
+    subject: string | null;
+  };
+  snippet: string;
+  highlights: Array<[number, number]>;
+}
+
+// Latin (incl. accented) and Devanagari letters, marks and digits
+const WORD = /[0-9a-z\u00c0-\u024f\u0900-\u097f]+/g;
+
+export function searchWords(text: string): string[] {
+  return text.toLowerCase().normalize('NFC').match(WORD) || [];
+}
+
+// Distinct words of a query
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(searchWords(query)));
+}
+
+// The text from `radius` characters before the first matched word to twice
+// that after it, cut at word boundaries, with every matched word highlighted
+export function buildSnippet(
+  content: string,
+  terms: string[],
+  radius: number = 80
+): { snippet: string; highlights: Array<[number, number]> } {
+  const text = content.normalize('NFC').replace(/\s+/g, ' ').trim();
+  const wanted = new Set(terms);
+  const matches: Array<[number, number]> = [];
+  for (const match of Array.from(text.toLowerCase().matchAll(WORD))) {
+    if (wanted.has(match[0])) matches.push([match.index!, match.index! + match[0].length]);
+  }
+
+  const first = matches[0]?.[0] ?? 0;
+  let start = Math.max(0, first - radius);
+  let end = Math.min(text.length, first + radius * 2);
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > first ? text.lastIndexOf(' ', end) : end;
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]) => [matchStart + offset, matchEnd + offset])
+  };
+}
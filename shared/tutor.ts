@@ -0,0 +1,40 @@
+// Structured tutor turns. A tutor reply is a list of blocks, stored on the
+// assistant message's `metadata.blocks` and streamed as 'block' events:
+// teaching text, a multiple-choice check question, a recap or a hint.
+
+export type TutorTextKind = 'teach' | 'recap' | 'hint';
+
+export interface TutorTextBlock {
+  kind: TutorTextKind;
+  text: string; // Markdown with LaTeX
+}
+
+// The student's graded answer to a check question; the first answer counts
+export interface CheckAnswer {
+  selected: number; // option index
+  correct: boolean;
+  answeredAt: string;
+}
+
+// `answerIndex` and `explanation` are withheld from the client until the
+// question has been answered
+export interface TutorCheckBlock {
+  kind: 'check';
+  id: string;
+  question: string;
+  options: string[];
+  answerIndex?: number;
+  explanation?: string;
+  answer?: CheckAnswer;
+}
+
+export type TutorBlock = TutorTextBlock | TutorCheckBlock;
+
+// "A", "B", ... for option `index`
+export function optionLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+export function checkBlocks(blocks: TutorBlock[] | undefined): TutorCheckBlock[] {
+  return (blocks ?? []).filter((block): block is TutorCheckBlock => block.kind === 'check');
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts", "scripts/**/*.test.ts", "client/src/**/*.test.ts"],
+    environment: "node",
+    // PGlite databases take a few seconds to start and migrate
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});